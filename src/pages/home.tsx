@@ -7,17 +7,51 @@ interface ThinkingStep {
   status: 'done' | 'working';
 }
 
+interface GroundingReport {
+  score: number;
+  problems: { kind: string; text: string; action: string; detail: string }[];
+}
+
 interface Message {
   id: string;
   type: 'user' | 'assistant' | 'system';
   content: string;
   thinking?: ThinkingStep[];
+  grounding?: GroundingReport;
   timestamp: Date;
 }
 
+interface IndexJobPhase {
+  phase: 'metadata' | 'tree' | 'docs' | 'manifests' | 'setup' | 'issues' | 'prs' | 'outlines' | 'embeddings';
+  status: 'pending' | 'running' | 'done' | 'failed';
+  detail: string | null;
+}
+
+interface IndexJob {
+  id: string;
+  status: 'queued' | 'running' | 'done' | 'failed';
+  phases: IndexJobPhase[];
+  error: { code?: string; message: string } | null;
+}
+
+const PHASE_LABELS: Record<IndexJobPhase['phase'], string> = {
+  metadata: 'Repository metadata',
+  tree: 'File tree',
+  docs: 'README and docs',
+  manifests: 'Dependency manifests',
+  setup: 'Setup guide',
+  issues: 'Open issues',
+  prs: 'Pull requests',
+  outlines: 'Symbol outlines',
+  embeddings: 'Semantic code index',
+};
+
 interface RepoStats {
   name: string;
   fullName: string;
+  ref: string;
+  commitSha: string | null;
+  scopePath: string | null;
   description: string | null;
   language: string | null;
   stars: number;
@@ -33,6 +67,69 @@ interface RepoStats {
   indexedAt: string;
 }
 
+interface DependencyManifest {
+  path: string;
+  ecosystem: 'npm' | 'cargo' | 'go' | 'python';
+  name: string | null;
+  dependencies: Array<{ name: string; version: string | null; scope: 'runtime' | 'dev' | 'peer' | 'optional' | 'build' | 'indirect' }>;
+  scripts: Record<string, string>;
+  engines: Record<string, string>;
+  workspaces: string[];
+}
+
+interface AuthSession {
+  enabled: boolean;
+  authenticated: boolean;
+  login: string | null;
+  avatarUrl: string | null;
+}
+
+interface ModelOption {
+  id: string;
+  label: string;
+  contextWindow: number;
+}
+
+interface ModelCatalog {
+  answering: ModelOption[];
+  defaults: { planning: string; answering: string };
+}
+
+const readEventStream = async (
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: string, data: unknown) => void
+): Promise<void> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const chunks = buffer.split('\n\n');
+    buffer = chunks.pop() || '';
+
+    for (const chunk of chunks) {
+      let event = 'message';
+      let data = '';
+      for (const line of chunk.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      if (data) onEvent(event, JSON.parse(data));
+    }
+  }
+};
+
+// Links to this anchor in the welcome message show the generated setup guide instead of navigating
+const SETUP_GUIDE_LINK = '#setup-guide';
+
+// Indexing jobs are polled once a second, and given up on after 15 minutes
+const INDEX_POLL_INTERVAL_MS = 1000;
+const MAX_INDEX_POLLS = 900;
+
 const formatNumber = (num: number): string => {
   if (num >= 1000000) return (num / 1000000).toFixed(1) + 'M';
   if (num >= 1000) return (num / 1000).toFixed(1) + 'k';
@@ -49,6 +146,13 @@ const Home = () => {
   const [isWaiting, setIsWaiting] = useState(false);
   const [repoStats, setRepoStats] = useState<RepoStats | null>(null);
   const [currentThinking, setCurrentThinking] = useState<string[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [indexProgress, setIndexProgress] = useState<IndexJobPhase[] | null>(null);
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [models, setModels] = useState<ModelCatalog | null>(null);
+  const [answerModel, setAnswerModel] = useState('');
+  const [dependencies, setDependencies] = useState<DependencyManifest[] | null>(null);
+  const [showDependencies, setShowDependencies] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -60,9 +164,117 @@ const Home = () => {
     scrollToBottom();
   }, [messages, currentThinking]);
 
-  const validateGitHubUrl = (inputUrl: string): boolean => {
-    const githubUrlPattern = /^(https:\/\/)?(github\.com\/)?[a-zA-Z0-9_-]+\/[a-zA-Z0-9_.-]+\/?$/;
-    return githubUrlPattern.test(inputUrl);
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    if (params.get('auth_error')) {
+      setError('GitHub sign-in failed. Please try again.');
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+
+    fetch('/api/auth/me')
+      .then((response) => response.json() as Promise<AuthSession>)
+      .then(setSession)
+      .catch(() => setSession(null));
+
+    fetch('/api/models')
+      .then((response) => response.json() as Promise<ModelCatalog>)
+      .then((catalog) => {
+        setModels(catalog);
+        setAnswerModel(catalog.defaults.answering);
+      })
+      .catch(() => setModels(null));
+  }, []);
+
+  const handleLogout = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    setSession((current) => current && { ...current, authenticated: false, login: null, avatarUrl: null });
+    setIndexingPhase('idle');
+    setMessages([]);
+    setRepoStats(null);
+    setDependencies(null);
+    setShowDependencies(false);
+    setConversationId(null);
+  };
+
+  // The host is checked by the worker, which also knows about self-hosted GitLab and Gitea instances
+  const validateRepoUrl = (inputUrl: string): boolean => {
+    const repoUrlPattern = /^(https?:\/\/[^\s/]+\/|[^\s/]+\.[^\s/]+\/)?[\w.-]+\/[\w.-]+(\/\S*)?$/;
+    return repoUrlPattern.test(inputUrl.trim());
+  };
+
+  const waitForIndexJob = async (jobId: string): Promise<RepoStats> => {
+    for (let poll = 0; poll < MAX_INDEX_POLLS; poll++) {
+      await new Promise((resolve) => setTimeout(resolve, INDEX_POLL_INTERVAL_MS));
+
+      const response = await fetch('/api/repo-status', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url, jobId }),
+      });
+      if (!response.ok) {
+        throw new Error(`Checking on indexing failed with status ${response.status}`);
+      }
+      const status = await response.json() as { stats: RepoStats | null; job: IndexJob | null };
+
+      if (status.job) {
+        setIndexProgress(status.job.phases);
+        if (status.job.status === 'failed') {
+          throw new Error(status.job.error?.message || 'Failed to index repository');
+        }
+      }
+
+      if (status.stats && (!status.job || status.job.status === 'done')) {
+        return status.stats;
+      }
+      // The job record has expired and no index was saved, so there is nothing left to wait for
+      if (!status.job && !status.stats) {
+        throw new Error('Indexing stopped before the repository was saved; please try again');
+      }
+    }
+    throw new Error('Indexing is taking too long; please try again later');
+  };
+
+  const toggleDependencies = async () => {
+    if (showDependencies) {
+      setShowDependencies(false);
+      return;
+    }
+    setShowDependencies(true);
+    if (dependencies) return;
+
+    try {
+      const response = await fetch('/api/dependencies', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url }),
+      });
+      const data = await response.json() as { manifests?: DependencyManifest[] };
+      setDependencies(data.manifests || []);
+    } catch {
+      setDependencies([]);
+    }
+  };
+
+  const showSetupGuide = async () => {
+    let content: string;
+    try {
+      const response = await fetch('/api/setup-guide', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url }),
+      });
+      const data = await response.json() as { markdown?: string; message?: string };
+      content = data.markdown || data.message || 'Setup instructions are not available for this repository.';
+    } catch {
+      content = 'Setup instructions could not be loaded. Please try again.';
+    }
+
+    setMessages((prev) => [...prev, {
+      id: Date.now().toString(),
+      type: 'system',
+      content,
+      timestamp: new Date(),
+    }]);
   };
 
   const handleIndexRepo = async (e: React.FormEvent) => {
@@ -70,17 +282,18 @@ const Home = () => {
     setError('');
 
     if (!url.trim()) {
-      setError('Please enter a GitHub URL or repository');
+      setError('Please enter a repository URL');
       return;
     }
 
-    if (!validateGitHubUrl(url)) {
-      setError('Invalid GitHub URL format. Use: github.com/owner/repo');
+    if (!validateRepoUrl(url)) {
+      setError('Invalid repository URL. Use: github.com/owner/repo, gitlab.com/group/project or codeberg.org/owner/repo');
       return;
     }
 
     setIsIndexing(true);
     setIndexingPhase('indexing');
+    setIndexProgress(null);
 
     try {
       const response = await fetch('/api/index-repo', {
@@ -95,11 +308,19 @@ const Home = () => {
         throw new Error(data.message || 'Failed to index repository');
       }
 
-      setRepoStats(data.stats);
+      if (data.job) {
+        setIndexProgress((data.job as IndexJob).phases);
+      }
+      const stats = data.job ? await waitForIndexJob(data.job.id) : data.stats as RepoStats;
+
+      setRepoStats(stats);
+      setDependencies(null);
+      setShowDependencies(false);
+      setConversationId(null);
       setIndexingPhase('indexed');
       
-      const stats = data.stats as RepoStats;
-      let welcomeMsg = `Repository **${stats.fullName}** is ready.\n\n`;
+      const location = stats.scopePath ? `${stats.ref}/${stats.scopePath}` : stats.ref;
+      let welcomeMsg = `Repository **${stats.fullName}** is ready at \`${location}\`${stats.commitSha ? ` (${stats.commitSha.substring(0, 7)})` : ''}.\n\n`;
       
       if (stats.description) {
         welcomeMsg += `> ${stats.description}\n\n`;
@@ -110,7 +331,7 @@ const Home = () => {
       welcomeMsg += `- Find contribution opportunities\n\n`;
       welcomeMsg += `- Understand the codebase structure\n\n`;
       welcomeMsg += `- Explore open issues\n\n`;
-      welcomeMsg += `- Get setup instructions`;
+      welcomeMsg += `- [Get setup instructions](${SETUP_GUIDE_LINK})`;
 
       setMessages([{
         id: '1',
@@ -125,6 +346,7 @@ const Home = () => {
       setIndexingPhase('idle');
     } finally {
       setIsIndexing(false);
+      setIndexProgress(null);
     }
   };
 
@@ -157,29 +379,52 @@ const Home = () => {
     ]);
 
     try {
-      setTimeout(() => setCurrentThinking(prev => [...prev, 'Analyzing question...']), 600);
-      setTimeout(() => setCurrentThinking(prev => [...prev, 'Building context...']), 1400);
-      setTimeout(() => setCurrentThinking(prev => [...prev, 'Generating response...']), 2200);
-
-      const response = await fetch('/api/ask', {
+      const response = await fetch('/api/ask/stream', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           question: userMessage.content,
           url: url,
+          conversationId,
+          model: answerModel || undefined,
         }),
       });
 
-      const data = await response.json();
+      if (!response.ok || !response.body) {
+        throw new Error(`Request failed with status ${response.status}`);
+      }
+
+      const steps: ThinkingStep[] = [];
+      let answer = '';
+
+      const updatePlaceholder = (changes: Partial<Message>) => {
+        setMessages((prev) =>
+          prev.map((msg) => (msg.id === placeholderId ? { ...msg, ...changes } : msg))
+        );
+      };
+
+      await readEventStream(response.body, (event, data) => {
+        if (event === 'conversation') {
+          setConversationId((data as { conversationId: string }).conversationId);
+        } else if (event === 'thinking') {
+          const step = data as ThinkingStep;
+          steps.push(step);
+          setCurrentThinking(steps.map((s) => (s.detail ? `${s.step} · ${s.detail}` : s.step)));
+          updatePlaceholder({ thinking: [...steps] });
+        } else if (event === 'token') {
+          answer += (data as { text: string }).text;
+          updatePlaceholder({ content: answer });
+        } else if (event === 'grounding') {
+          const checked = data as { report: GroundingReport; answer: string };
+          answer = checked.answer;
+          updatePlaceholder({ content: answer, grounding: checked.report });
+        } else if (event === 'error') {
+          throw new Error((data as { message: string }).message);
+        }
+      });
+
       setCurrentThinking([]);
-      
-      setMessages((prev) =>
-        prev.map((msg) =>
-          msg.id === placeholderId
-            ? { ...msg, content: data.answer || 'No response received', thinking: data.thinking }
-            : msg
-        )
-      );
+      updatePlaceholder({ content: answer || 'No response received', thinking: steps });
     } catch (err: any) {
       console.error('Error fetching AI response:', err);
       setCurrentThinking([]);
@@ -247,7 +492,35 @@ const Home = () => {
     </div>
   );
 
-  if (indexingPhase === 'idle') {
+  const renderAccount = () => {
+    if (!session?.enabled) return null;
+
+    if (!session.authenticated) {
+      return (
+        <a
+          href="/api/auth/login"
+          className="px-3 py-1.5 text-xs text-slate-400 hover:text-white border border-slate-800 hover:border-slate-700 rounded-lg transition-colors whitespace-nowrap"
+        >
+          Sign in with GitHub
+        </a>
+      );
+    }
+
+    return (
+      <div className="flex items-center gap-2 text-xs text-slate-400">
+        {session.avatarUrl && <img src={session.avatarUrl} alt="" className="w-5 h-5 rounded-full" />}
+        <span className="hidden sm:inline">{session.login}</span>
+        <button
+          onClick={handleLogout}
+          className="px-3 py-1.5 text-xs text-slate-400 hover:text-white border border-slate-800 hover:border-slate-700 rounded-lg transition-colors"
+        >
+          Sign out
+        </button>
+      </div>
+    );
+  };
+
+  if (indexingPhase !== 'indexed') {
     return (
       <div className="min-h-screen bg-[#09090b] text-slate-100 flex items-center justify-center p-4">
         <div className="w-full max-w-md">
@@ -267,7 +540,7 @@ const Home = () => {
                 <label className="block text-xs font-medium text-slate-400 mb-2">Repository URL</label>
                 <input
                   type="text"
-                  placeholder="github.com/owner/repo"
+                  placeholder="github.com/owner/repo or gitlab.com/group/project"
                   value={url}
                   onChange={(e) => {
                     setUrl(e.target.value);
@@ -297,12 +570,45 @@ const Home = () => {
               </button>
             </form>
 
+            {isIndexing && indexProgress && (
+              <div className="mt-5 pt-5 border-t border-slate-800 space-y-2.5">
+                {indexProgress.map((phase) => (
+                  <div key={phase.phase} className="flex items-center gap-3 text-[13px]">
+                    {phase.status === 'running' ? (
+                      <div className="w-3.5 h-3.5 rounded-full border-2 border-emerald-400 border-t-transparent animate-spin" />
+                    ) : phase.status === 'done' ? (
+                      <svg className="w-3.5 h-3.5 text-emerald-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M5 13l4 4L19 7" />
+                      </svg>
+                    ) : phase.status === 'failed' ? (
+                      <svg className="w-3.5 h-3.5 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    ) : (
+                      <div className="w-3.5 h-3.5 rounded-full border-2 border-slate-700" />
+                    )}
+                    <span className={phase.status === 'pending' ? 'text-slate-600' : 'text-slate-300'}>
+                      {PHASE_LABELS[phase.phase]}
+                    </span>
+                    {phase.detail && <span className="text-slate-600 truncate">· {phase.detail}</span>}
+                  </div>
+                ))}
+              </div>
+            )}
+
             {error && (
               <div className="mt-4 px-3 py-2.5 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm">
                 {error}
               </div>
             )}
           </div>
+
+          {session?.enabled && (
+            <div className="mt-4 flex items-center justify-center gap-3 text-xs text-slate-500">
+              {!session.authenticated && <span>Sign in to index private repositories</span>}
+              {renderAccount()}
+            </div>
+          )}
         </div>
       </div>
     );
@@ -321,7 +627,14 @@ const Home = () => {
                 </svg>
               </div>
               <div className="min-w-0">
-                <h1 className="text-sm font-medium text-white truncate">{repoStats?.fullName || 'Repository'}</h1>
+                <h1 className="text-sm font-medium text-white truncate">
+                  {repoStats?.fullName || 'Repository'}
+                  {repoStats && (
+                    <span className="ml-2 text-xs font-normal text-slate-500 font-mono">
+                      {repoStats.scopePath ? `${repoStats.ref}/${repoStats.scopePath}` : repoStats.ref}
+                    </span>
+                  )}
+                </h1>
                 {repoStats && (
                   <div className="flex items-center gap-3 text-xs text-slate-500 mt-0.5">
                     {repoStats.language && <span>{repoStats.language}</span>}
@@ -334,17 +647,23 @@ const Home = () => {
                 )}
               </div>
             </div>
-            <button
-              onClick={() => {
-                setIndexingPhase('idle');
-                setMessages([]);
-                setUrl('');
-                setRepoStats(null);
-              }}
-              className="px-3 py-1.5 text-xs text-slate-400 hover:text-white border border-slate-800 hover:border-slate-700 rounded-lg transition-colors"
-            >
-              Change
-            </button>
+            <div className="flex items-center gap-3 flex-shrink-0">
+              {renderAccount()}
+              <button
+                onClick={() => {
+                  setIndexingPhase('idle');
+                  setMessages([]);
+                  setUrl('');
+                  setRepoStats(null);
+                  setDependencies(null);
+                  setShowDependencies(false);
+                  setConversationId(null);
+                }}
+                className="px-3 py-1.5 text-xs text-slate-400 hover:text-white border border-slate-800 hover:border-slate-700 rounded-lg transition-colors"
+              >
+                Change
+              </button>
+            </div>
           </div>
         </div>
       </div>
@@ -372,7 +691,43 @@ const Home = () => {
                   <span className="whitespace-nowrap">Contributing guide available</span>
                 </>
               )}
+              <span className="text-slate-700">|</span>
+              <button
+                onClick={toggleDependencies}
+                className="whitespace-nowrap hover:text-slate-300 transition-colors"
+              >
+                {showDependencies ? 'Hide dependencies' : 'Dependencies'}
+              </button>
             </div>
+            {showDependencies && (
+              <div className="mt-2.5 space-y-3 text-xs text-slate-400 max-h-64 overflow-y-auto">
+                {dependencies === null && <p className="text-slate-500">Loading dependencies...</p>}
+                {dependencies?.length === 0 && <p className="text-slate-500">No dependency manifests found.</p>}
+                {dependencies?.map((manifest) => (
+                  <div key={manifest.path}>
+                    <p className="text-slate-300">
+                      <code>{manifest.path}</code>
+                      <span className="text-slate-600"> · {manifest.ecosystem}{manifest.name ? ` · ${manifest.name}` : ''}</span>
+                    </p>
+                    {Object.keys(manifest.engines).length > 0 && (
+                      <p>Requires {Object.entries(manifest.engines).map(([name, version]) => `${name} ${version}`).join(', ')}</p>
+                    )}
+                    {Object.keys(manifest.scripts).length > 0 && (
+                      <p>Scripts: {Object.keys(manifest.scripts).join(', ')}</p>
+                    )}
+                    {(['runtime', 'dev', 'peer', 'optional', 'build'] as const).map((scope) => {
+                      const names = manifest.dependencies.filter((d) => d.scope === scope);
+                      return names.length > 0 && (
+                        <p key={scope}>
+                          <span className="text-slate-500">{scope === 'runtime' ? 'dependencies' : `${scope} dependencies`}:</span>{' '}
+                          {names.map((d) => d.version ? `${d.name} ${d.version}` : d.name).join(', ')}
+                        </p>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -456,7 +811,18 @@ const Home = () => {
                           p: ({ children, ...props }) => (
                             <p className="text-[14px] text-slate-300 leading-relaxed mb-4" {...props}>{children}</p>
                           ),
-                          a: ({ href, children, ...props }) => (
+                          a: ({ href, children, ...props }) => href === SETUP_GUIDE_LINK ? (
+                            <a
+                              href={href}
+                              onClick={(e) => {
+                                e.preventDefault();
+                                showSetupGuide();
+                              }}
+                              className="text-emerald-400 hover:text-emerald-300 underline underline-offset-2"
+                            >
+                              {children}
+                            </a>
+                          ) : (
                             <a 
                               href={href} 
                               target="_blank" 
@@ -504,6 +870,14 @@ const Home = () => {
                         {message.content}
                       </ReactMarkdown>
                     </div>
+                    {message.grounding && message.grounding.problems.length > 0 && (
+                      <div
+                        className="mt-3 text-xs text-amber-500/80"
+                        title={message.grounding.problems.map((p) => `${p.text}: ${p.detail}`).join('\n')}
+                      >
+                        {message.grounding.problems.length} {message.grounding.problems.length === 1 ? 'reference was' : 'references were'} corrected or could not be verified against the repository (grounding {Math.round(message.grounding.score * 100)}%)
+                      </div>
+                    )}
                   </>
                 )}
               </div>
@@ -535,6 +909,21 @@ const Home = () => {
               autoFocus
               className="flex-1 px-3.5 py-2.5 bg-[#0f0f12] border border-slate-800 rounded-lg text-sm text-white placeholder-slate-600 focus:outline-none focus:border-slate-700 focus:ring-1 focus:ring-slate-700 disabled:opacity-50 transition-colors"
             />
+            {models && models.answering.length > 1 && (
+              <select
+                value={answerModel}
+                onChange={(e) => setAnswerModel(e.target.value)}
+                disabled={isWaiting}
+                title="Model used to write the answer"
+                className="px-2.5 py-2.5 bg-[#0f0f12] border border-slate-800 rounded-lg text-xs text-slate-300 focus:outline-none focus:border-slate-700 disabled:opacity-50"
+              >
+                {models.answering.map((model) => (
+                  <option key={model.id} value={model.id}>
+                    {model.label}
+                  </option>
+                ))}
+              </select>
+            )}
             <button
               type="submit"
               disabled={isWaiting || !inputValue.trim()}
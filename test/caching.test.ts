@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ANONYMOUS_VIEWER, CACHE_TTL, RepoIndex, Viewer, createHeaders } from '../worker/utils';
+import { indexRepository } from '../worker/tools';
+import { parseRepoUrl } from '../worker/providers';
+import { getRepoIndex, isIndexStale, saveRepoIndex } from '../worker/storage';
+import { UnauthorizedError } from '../worker/github';
+import { callWorker, createTestHarness, teardown, TestHarness } from './fake-env';
+
+const URL = 'https://github.com/acme/widgets';
+const ALICE: Viewer = { userId: '42', login: 'alice', token: 'alice-token' };
+
+async function buildIndex(harness: TestHarness): Promise<RepoIndex> {
+    const location = parseRepoUrl(URL, harness.env);
+    return indexRepository(location, createHeaders(harness.env, ANONYMOUS_VIEWER, location));
+}
+
+describe('index storage', () => {
+    let harness: TestHarness;
+    
+    beforeEach(() => {
+        harness = createTestHarness();
+    });
+    afterEach(() => {
+        vi.useRealTimers();
+        teardown();
+    });
+    
+    it('shares public indexes between viewers', async () => {
+        await saveRepoIndex(URL, await buildIndex(harness), harness.env, ALICE);
+        
+        expect(harness.kv.keys('repo:')).toEqual(['repo:acme/widgets']);
+        expect((await getRepoIndex(URL, harness.env))?.fullName).toBe('acme/widgets');
+        expect((await getRepoIndex('acme/widgets', harness.env, ALICE))?.fullName).toBe('acme/widgets');
+    });
+    
+    it('keeps private indexes to the viewer who indexed them', async () => {
+        const index = { ...(await buildIndex(harness)), private: true };
+        await saveRepoIndex(URL, index, harness.env, ALICE);
+        
+        expect(harness.kv.keys('repo:')).toEqual(['repo:acme/widgets~user:42']);
+        expect(await getRepoIndex(URL, harness.env)).toBeNull();
+        expect(await getRepoIndex(URL, harness.env, { ...ALICE, userId: '7' })).toBeNull();
+        expect((await getRepoIndex(URL, harness.env, ALICE))?.cacheScope).toBe('user:42');
+        await expect(saveRepoIndex(URL, index, harness.env)).rejects.toBeInstanceOf(UnauthorizedError);
+    });
+    
+    it('treats an index as stale after the cache TTL or once a push marks its tree stale', async () => {
+        const index = await buildIndex(harness);
+        expect(isIndexStale(index)).toBe(false);
+        expect(isIndexStale({ ...index, treeStale: true })).toBe(true);
+        
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(Date.now() + CACHE_TTL * 1000);
+        expect(isIndexStale(index)).toBe(true);
+    });
+});
+
+describe('POST /api/index-repo caching', () => {
+    let harness: TestHarness;
+    
+    beforeEach(() => {
+        harness = createTestHarness();
+    });
+    afterEach(() => {
+        vi.useRealTimers();
+        teardown();
+    });
+    
+    it('serves a fresh index from the cache without calling GitHub', async () => {
+        await saveRepoIndex(URL, await buildIndex(harness), harness.env);
+        const before = harness.github.requests.length;
+        
+        const response = await callWorker(harness, '/api/index-repo', { url: URL });
+        const body = await response.json() as { message: string; stats: { cached: boolean } };
+        
+        expect(response.status).toBe(200);
+        expect(body.message).toBe('Repository already indexed');
+        expect(body.stats.cached).toBe(true);
+        expect(harness.github.requests.length).toBe(before);
+    });
+    
+    it('serves a stale index right away and refreshes it once in the background', async () => {
+        const index = await buildIndex(harness);
+        await saveRepoIndex(URL, { ...index, indexedAt: new Date(Date.now() - (CACHE_TTL + 60) * 1000).toISOString() }, harness.env);
+        
+        const first = await (await callWorker(harness, '/api/index-repo', { url: URL })).json() as { stats: { stale: boolean; refreshing: boolean } };
+        const second = await (await callWorker(harness, '/api/index-repo', { url: URL })).json() as { stats: { stale: boolean; refreshing: boolean } };
+        
+        expect(first.stats).toMatchObject({ stale: true, refreshing: true });
+        // The refresh lock keeps a second request from starting another refresh
+        expect(second.stats).toMatchObject({ stale: true, refreshing: false });
+        
+        await harness.drain();
+        const refreshed = await getRepoIndex(URL, harness.env);
+        expect(refreshed && isIndexStale(refreshed)).toBe(false);
+        expect(harness.kv.keys('refresh:')).toEqual([]);
+    });
+});
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ANONYMOUS_VIEWER, CodeSearchResult, createHeaders } from '../worker/utils';
+import { indexRepository } from '../worker/tools';
+import { parseRepoUrl } from '../worker/providers';
+import { saveRepoIndex } from '../worker/storage';
+import { formatSearchHits } from '../worker/code-search';
+import { RepoFixture } from './fake-github';
+import { acmeWidgets, callWorker, createTestHarness, teardown, TestHarness } from './fake-env';
+
+const URL = 'https://github.com/acme/widgets';
+
+async function indexWidgets(harness: TestHarness): Promise<void> {
+    const location = parseRepoUrl(URL, harness.env);
+    await saveRepoIndex(URL, await indexRepository(location, createHeaders(harness.env, ANONYMOUS_VIEWER, location)), harness.env);
+}
+
+async function search(harness: TestHarness, options: Record<string, unknown>): Promise<CodeSearchResult> {
+    const response = await callWorker(harness, '/api/search-code', { url: URL, ...options });
+    expect(response.status).toBe(200);
+    return await response.json() as CodeSearchResult;
+}
+
+describe('POST /api/search-code', () => {
+    let harness: TestHarness;
+    
+    beforeEach(async () => {
+        harness = createTestHarness();
+        await indexWidgets(harness);
+    });
+    afterEach(teardown);
+    
+    it('returns paths, matching lines and merged context', async () => {
+        const result = await search(harness, { query: 'heading' });
+        
+        expect(result.hits).toHaveLength(1);
+        expect(result.hits[0]).toMatchObject({ path: 'src/render.ts', startLine: 9, matchLines: [11, 12, 15] });
+        expect(result.hits[0].content.split('\n')[0]).toBe('export function renderWidget(spec: WidgetSpec): string {');
+        expect(result.backend).toBe('local');
+    });
+    
+    it('matches whole identifiers only', async () => {
+        const identifier = await search(harness, { query: 'token', mode: 'identifier' });
+        const literal = await search(harness, { query: 'token', mode: 'literal' });
+        
+        expect(identifier.hits).toEqual([]);
+        expect(literal.hits.map(h => h.path)).toContain('src/parser/tokenize.ts');
+    });
+    
+    it('runs regular expressions and rejects invalid ones', async () => {
+        const result = await search(harness, { query: 'throw new \\w*Error', mode: 'regex', contextLines: 0 });
+        const invalid = await callWorker(harness, '/api/search-code', { url: URL, query: 'render(', mode: 'regex' });
+        
+        expect(result.hits).toEqual([{ path: 'src/render.ts', startLine: 13, endLine: 13, matchLines: [13], content: "        throw new Error('Widget title must not be empty');" }]);
+        expect(invalid.status).toBe(400);
+    });
+    
+    it('turns down patterns that can backtrack without end', async () => {
+        const rejected = await Promise.all(['(a+)+$', '(?:\\w*\\s?)*x', '(\\d{1,3}|x)+y', '(["\'])\\w+\\1', '\\w*\\w*\\w*\\w*x', '^(\\w|\\d)+$', '(x|x)*y', '(a|a)*b', '((?:a|b))+c'].map(async query => {
+            const response = await callWorker(harness, '/api/search-code', { url: URL, query, mode: 'regex' });
+            return [response.status, (await response.json() as { message: string }).message];
+        }));
+        const allowed = await search(harness, { query: '(?:export )?function\\s+(\\w+)\\s*\\(', mode: 'regex' });
+        
+        expect(rejected.map(([status]) => status)).toEqual([400, 400, 400, 400, 400, 400, 400, 400, 400]);
+        expect(rejected[0][1]).toBe('This regular expression could take too long to run: a repeated group contains another quantifier');
+        expect(rejected[3][1]).toContain('backreferences are not supported');
+        expect(rejected[4][1]).toContain('more than 3 unbounded quantifiers');
+        for (const [, message] of rejected.slice(5)) {
+            expect(message).toContain('a repeated group contains alternatives');
+        }
+        expect(allowed.hits.map(h => h.path)).toContain('src/render.ts');
+    });
+    
+    it('reads each blob from GitHub once and serves later searches from the cache', async () => {
+        await search(harness, { query: 'renderWidget' });
+        const fetched = harness.github.requestsTo('/git/blobs').length;
+        await search(harness, { query: 'tokenize' });
+        
+        expect(fetched).toBeGreaterThan(0);
+        expect(harness.github.requestsTo('/git/blobs')).toHaveLength(fetched);
+    });
+    
+    it('fetches a bounded number of blobs per search and reports what was left out', async () => {
+        const fixture: RepoFixture = JSON.parse(JSON.stringify(acmeWidgets));
+        for (let i = 0; i < 45; i++) {
+            fixture.files[`src/widgets/widget-${i}.ts`] = `export const widget${i} = 'widget ${i}';\n`;
+        }
+        harness = createTestHarness([fixture]);
+        await indexWidgets(harness);
+        
+        const first = await search(harness, { query: 'renderWidget' });
+        const second = await search(harness, { query: 'renderWidget' });
+        
+        expect(first).toMatchObject({ blobsFetched: 40, filesSearched: 40, filesSkipped: 13, partial: true });
+        expect(formatSearchHits(first)).toContain('Only part of the repository was searched; 13 files were not read yet.');
+        expect(second).toMatchObject({ blobsFetched: 13, filesSearched: 53, filesSkipped: 0, partial: false });
+    });
+    
+    it('asks for the repository to be indexed first', async () => {
+        const response = await callWorker(harness, '/api/search-code', { url: 'https://github.com/acme/gadgets', query: 'render' });
+        
+        expect(response.status).toBe(404);
+    });
+});
+
+describe('GitHub code search backend', () => {
+    let harness: TestHarness;
+    
+    afterEach(teardown);
+    
+    it('only reads the files GitHub reports', async () => {
+        harness = createTestHarness(undefined, { GITHUB_PAT: 'test-token' });
+        await indexWidgets(harness);
+        const indexed = harness.github.requestsTo('/git/blobs').length;
+        
+        const result = await search(harness, { query: 'tokenize', backend: 'github' });
+        
+        expect(result.backend).toBe('github');
+        expect(harness.github.requestsTo('/search/code')).toHaveLength(1);
+        expect(harness.github.requestsTo('/git/blobs')).toHaveLength(indexed + result.filesSearched);
+        expect(new Set(result.hits.map(h => h.path))).toEqual(new Set(['src/index.ts', 'src/render.ts', 'src/parser/tokenize.ts']));
+    });
+    
+    it('falls back to searching every file when GitHub search is unavailable', async () => {
+        harness = createTestHarness();
+        await indexWidgets(harness);
+        
+        const result = await search(harness, { query: 'tokenize', backend: 'github' });
+        
+        expect(result.backend).toBe('local');
+        expect(harness.github.requestsTo('/search/code')[0].status).toBe(401);
+        expect(result.hits.map(h => h.path)).toContain('src/parser/tokenize.ts');
+    });
+});
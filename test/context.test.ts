@@ -0,0 +1,118 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { ANONYMOUS_VIEWER, BuiltContext, ContextBudgetReport, RepoIndex, createHeaders } from '../worker/utils';
+import { buildContext, indexRepository } from '../worker/tools';
+import { parseRepoUrl } from '../worker/providers';
+import { callWorker, createTestHarness, teardown, TestHarness } from './fake-env';
+
+describe('buildContext', () => {
+    let index: RepoIndex;
+    
+    beforeAll(async () => {
+        const harness = createTestHarness();
+        const location = parseRepoUrl('acme/widgets', harness.env);
+        index = await indexRepository(location, createHeaders(harness.env, ANONYMOUS_VIEWER, location));
+    });
+    afterAll(teardown);
+    
+    it('summarizes the repository, its docs, issues and pull requests', () => {
+        const { text: context } = buildContext(index);
+        
+        expect(context).toContain('## Repository: acme/widgets');
+        expect(context).toContain('**Languages:** TypeScript (90%), Markdown (10%)');
+        expect(context).toContain('- src/index.ts');
+        expect(context).toContain('## README (excerpt)');
+        expect(context).toContain('## Contributing Guidelines (excerpt)');
+        expect(context).toContain('### Good First Issues\n- [#12](https://github.com/acme/widgets/issues/12)');
+        expect(context).toContain('(assigned to @erin)');
+        expect(context).toContain('Likely files: `src/render.ts`');
+        expect(context).toContain('## Open Pull Requests');
+        expect(context).not.toContain('**Ref:**');
+    });
+    
+    it('tells the model when no code was loaded', () => {
+        expect(buildContext(index).text).toContain('## Note: No file contents loaded');
+        expect(buildContext(index, { 'src/index.ts': 'export {};' }).text).not.toContain('No file contents loaded');
+    });
+    
+    it('includes fetched files, retrieved snippets and tool results as separate sections', () => {
+        const { text: context } = buildContext(
+            index,
+            { 'src/index.ts': "export { renderWidget } from './render';" },
+            [{ path: 'src/render.ts', startLine: 3, endLine: 9, content: 'function renderWidget() {}', score: 0.9 }],
+            [{ title: 'search_code("tokenize")', content: 'src/parser/tokenize.ts:1' }]
+        );
+        
+        expect(context).toContain("### src/index.ts\n```ts\nexport { renderWidget } from './render';\n```");
+        expect(context).toContain('### src/render.ts (lines 3-9)');
+        expect(context).toContain('## Tool Results');
+        expect(context).toContain('### search_code("tokenize")\nsrc/parser/tokenize.ts:1');
+    });
+    
+    it('names the ref and scope when the index is pinned away from the default branch', () => {
+        const { text: context } = buildContext({ ...index, ref: 'release/2.x', commitSha: '2222222222222222222222222222222222222222', scopePath: 'src' });
+        
+        expect(context).toContain('**Ref:** release/2.x (2222222) | **Scoped to:** `src/`');
+    });
+});
+
+describe('context budget', () => {
+    let index: RepoIndex;
+    let harness: TestHarness;
+    
+    // ~60 short functions, around 3,000 tokens in all
+    const bigFile = Array.from({ length: 60 }, (_, i) => `function step${i}(input: number): number {\n    const doubled = input * 2;\n    return doubled + ${i};\n}\n`).join('\n');
+    
+    beforeEach(async () => {
+        harness = createTestHarness();
+        const location = parseRepoUrl('acme/widgets', harness.env);
+        index = await indexRepository(location, createHeaders(harness.env, ANONYMOUS_VIEWER, location));
+    });
+    afterEach(teardown);
+    
+    it('keeps everything and reports no trimming when the context fits', () => {
+        const { budget } = buildContext(index, { 'src/steps.ts': bigFile }, [], [], { maxTokens: 20000 });
+        
+        expect(budget.used).toBeLessThanOrEqual(20000);
+        expect(budget.sections.every(s => s.trimmed === 0 && s.dropped === 0)).toBe(true);
+        expect(budget.sections.map(s => s.section)).toEqual(['structure', 'dependencies', 'setup', 'readme', 'contributing', 'issues', 'pullRequests', 'files']);
+    });
+    
+    it('stays within the limit and gives code questions more of it for files than issue questions', () => {
+        const code = buildContext(index, { 'src/steps.ts': bigFile }, [], [], { intent: 'code', maxTokens: 1500 });
+        const issues = buildContext(index, { 'src/steps.ts': bigFile }, [], [], { intent: 'issues', maxTokens: 1500 });
+        const filesUsed = (context: BuiltContext) => context.budget.sections.find(s => s.section === 'files')?.used || 0;
+        
+        expect(code.budget.used).toBeLessThanOrEqual(1500);
+        expect(issues.budget.used).toBeLessThanOrEqual(1500);
+        expect(filesUsed(code)).toBeGreaterThan(filesUsed(issues));
+        expect(issues.budget.sections.find(s => s.section === 'issues')).toMatchObject({ included: 2, dropped: 0 });
+    });
+    
+    it('cuts files between top-level declarations rather than mid-function', () => {
+        const { text, budget } = buildContext(index, { 'src/steps.ts': bigFile }, [], [], { intent: 'code', maxTokens: 1500 });
+        const kept = /### src\/steps\.ts\n```ts\n([\s\S]*?)\n\.\.\. \((\d+) more lines not shown\)\n```/.exec(text);
+        
+        expect(kept).not.toBeNull();
+        expect(kept?.[1].trimEnd().endsWith('}')).toBe(true);
+        expect(kept?.[1].split('\n').length).toBe(bigFile.split('\n').length - Number(kept?.[2]));
+        expect(budget.sections.find(s => s.section === 'files')?.trimmed).toBe(1);
+    });
+    
+    it('drops whole README sections when the README does not fit', () => {
+        const readme = ['# Widgets', 'Intro '.repeat(40), '## Install', 'Install '.repeat(300), '## Usage', 'Usage '.repeat(40)].join('\n');
+        const { text } = buildContext({ ...index, readme, contributing: null, issues: [], pullRequests: [] }, {}, [], [], { maxTokens: 400 });
+        
+        expect(text).toContain('Intro '.repeat(40));
+        expect(text).toContain('Usage '.repeat(40));
+        expect(text).not.toContain('## Install');
+    });
+    
+    it('reports how the budget was spent in the debug payload', async () => {
+        const response = await callWorker(harness, '/api/ask', { url: 'https://github.com/acme/widgets', question: 'Find good first issues' });
+        const { debug } = await response.json() as { debug: { contextBudget: ContextBudgetReport } };
+        
+        expect(debug.contextBudget.intent).toBe('issues');
+        expect(debug.contextBudget.used).toBeLessThanOrEqual(debug.contextBudget.limit);
+        expect(debug.contextBudget.sections.find(s => s.section === 'issues')).toMatchObject({ included: 2, trimmed: 0, dropped: 0 });
+    });
+});
@@ -0,0 +1,96 @@
+import { Ai } from "@cloudflare/workers-types/experimental";
+
+const EMBEDDING_DIMENSIONS = 64;
+
+interface AIRule {
+    // Matched against the model name and the concatenated message contents
+    when: RegExp | ((prompt: string, model: string) => boolean);
+    reply: string | ((prompt: string) => string);
+}
+
+interface AICall {
+    model: string;
+    prompt: string;
+    stream: boolean;
+}
+
+interface FakeAI {
+    binding: Ai;
+    calls: AICall[];
+    // Rules are tried in the order they were added; unmatched chat calls get the fallback reply
+    on(when: AIRule['when'], reply: AIRule['reply']): FakeAI;
+    callsMatching(pattern: RegExp): AICall[];
+}
+
+interface AIInputs {
+    text?: string[];
+    messages?: Array<{ role: string; content: string }>;
+    stream?: boolean;
+}
+
+function createFakeAI(fallback: string = 'This is a scripted answer.'): FakeAI {
+    const rules: AIRule[] = [];
+    const calls: AICall[] = [];
+    
+    const run = async (model: string, inputs: AIInputs): Promise<unknown> => {
+        // Embedding requests get deterministic vectors, so semantic search ranks by shared words
+        if (inputs.text) {
+            calls.push({ model, prompt: inputs.text.join('\n'), stream: false });
+            return { shape: [inputs.text.length, EMBEDDING_DIMENSIONS], data: inputs.text.map(embed) };
+        }
+        
+        const prompt = (inputs.messages || []).map(message => message.content).join('\n');
+        const stream = Boolean(inputs.stream);
+        calls.push({ model, prompt, stream });
+        
+        const rule = rules.find(r => typeof r.when === 'function' ? r.when(prompt, model) : r.when.test(prompt));
+        const reply = !rule ? fallback : typeof rule.reply === 'function' ? rule.reply(prompt) : rule.reply;
+        return stream ? toEventStream(reply) : { response: reply };
+    };
+    
+    const fake: FakeAI = {
+        binding: { run } as unknown as Ai,
+        calls,
+        on(when, reply) {
+            rules.push({ when, reply });
+            return fake;
+        },
+        callsMatching(pattern) {
+            return calls.filter(call => pattern.test(call.prompt));
+        }
+    };
+    return fake;
+}
+
+function embed(text: string): number[] {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    for (const word of text.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length > 2)) {
+        let hash = 0;
+        for (let i = 0; i < word.length; i++) {
+            hash = (hash * 31 + word.charCodeAt(i)) >>> 0;
+        }
+        vector[hash % EMBEDDING_DIMENSIONS] += 1;
+    }
+    return vector;
+}
+
+// Mirrors Workers AI streaming: SSE `data:` lines with a `response` field, ending in `[DONE]`
+function toEventStream(reply: string): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    const words = reply.split(/(?<= )/);
+    return new ReadableStream({
+        start(controller) {
+            for (const word of words) {
+                controller.enqueue(encoder.encode(`data: ${JSON.stringify({ response: word })}\n\n`));
+            }
+            controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+            controller.close();
+        }
+    });
+}
+
+export {
+    createFakeAI,
+    FakeAI,
+    AICall
+};
@@ -0,0 +1,142 @@
+import { ExecutionContext, KVNamespace } from "@cloudflare/workers-types/experimental";
+import { Env } from "../worker/utils";
+import { setHttpTransport } from "../worker/github";
+import worker from "../worker/index";
+import { createFakeGitHub, FakeGitHub, RepoFixture } from "./fake-github";
+import { createFakeAI, FakeAI } from "./fake-ai";
+import acmeWidgets from "./fixtures/acme-widgets.json";
+
+interface FakeKV {
+    binding: KVNamespace;
+    entries: Map<string, { value: string | Uint8Array; expiresAt: number | null }>;
+    keys(prefix?: string): string[];
+}
+
+interface FakeContext {
+    ctx: ExecutionContext;
+    // Resolves once every waitUntil task, including ones scheduled by those tasks, has settled
+    drain(): Promise<void>;
+}
+
+interface TestHarness {
+    env: Env;
+    kv: FakeKV;
+    github: FakeGitHub;
+    ai: FakeAI;
+    ctx: ExecutionContext;
+    drain(): Promise<void>;
+}
+
+const LIST_PAGE_SIZE = 1000;
+
+// Expiry follows Date.now(), so tests can age entries out with vi.setSystemTime
+function createFakeKV(): FakeKV {
+    const entries = new Map<string, { value: string | Uint8Array; expiresAt: number | null }>();
+    
+    const live = (key: string) => {
+        const entry = entries.get(key);
+        if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+            entries.delete(key);
+            return undefined;
+        }
+        return entry;
+    };
+    const keys = (prefix: string = '') => Array.from(entries.keys())
+        .filter(key => key.startsWith(prefix) && live(key))
+        .sort();
+    
+    const binding = {
+        // Values come back as text unless `arrayBuffer` is asked for, like KV
+        async get(key: string, type?: string) {
+            const value = live(key)?.value;
+            if (value === undefined) return null;
+            const bytes = typeof value === 'string' ? new TextEncoder().encode(value) : value;
+            if (type === 'arrayBuffer') return bytes.slice().buffer;
+            return typeof value === 'string' ? value : new TextDecoder().decode(value);
+        },
+        async put(key: string, value: string | ArrayBuffer | ArrayBufferView, options?: { expirationTtl?: number }) {
+            const stored = typeof value === 'string' ? value
+                : value instanceof ArrayBuffer ? new Uint8Array(value.slice(0))
+                : new Uint8Array(value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength));
+            entries.set(key, { value: stored, expiresAt: options?.expirationTtl ? Date.now() + options.expirationTtl * 1000 : null });
+        },
+        async delete(key: string) {
+            entries.delete(key);
+        },
+        async list(options: { prefix?: string; cursor?: string } = {}) {
+            const all = keys(options.prefix);
+            const start = options.cursor ? Number(options.cursor) : 0;
+            const page = all.slice(start, start + LIST_PAGE_SIZE);
+            const complete = start + LIST_PAGE_SIZE >= all.length;
+            return {
+                keys: page.map(name => ({ name })),
+                list_complete: complete,
+                ...(complete ? {} : { cursor: String(start + LIST_PAGE_SIZE) })
+            };
+        }
+    };
+    
+    return { binding: binding as unknown as KVNamespace, entries, keys };
+}
+
+function createFakeContext(): FakeContext {
+    const pending: Promise<unknown>[] = [];
+    const ctx = {
+        waitUntil(promise: Promise<unknown>) {
+            pending.push(promise);
+        },
+        passThroughOnException() {}
+    };
+    
+    return {
+        ctx: ctx as unknown as ExecutionContext,
+        async drain() {
+            while (pending.length > 0) {
+                await Promise.allSettled(pending.splice(0));
+            }
+        }
+    };
+}
+
+// A worker environment with no network access: git host calls are served from fixtures and AI calls are scripted.
+// Call `teardown` (or `setHttpTransport(null)`) afterwards so the fake transport does not leak into other tests.
+function createTestHarness(fixtures: RepoFixture[] = [acmeWidgets as RepoFixture], overrides: Partial<Env> = {}): TestHarness {
+    const kv = createFakeKV();
+    const github = createFakeGitHub(fixtures);
+    const ai = createFakeAI();
+    const { ctx, drain } = createFakeContext();
+    
+    setHttpTransport(github.transport);
+    
+    return {
+        env: { AI: ai.binding, CACHE_KV: kv.binding, ...overrides },
+        kv,
+        github,
+        ai,
+        ctx,
+        drain
+    };
+}
+
+// Sends a request through the worker's fetch handler; a body makes it a JSON POST
+async function callWorker(harness: TestHarness, path: string, body?: unknown, headers: Record<string, string> = {}): Promise<Response> {
+    const request = body === undefined
+        ? new Request(`https://assistant.test${path}`, { headers })
+        : new Request(`https://assistant.test${path}`, { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body: JSON.stringify(body) });
+    return worker.fetch(request, harness.env, harness.ctx);
+}
+
+function teardown(): void {
+    setHttpTransport(null);
+}
+
+export {
+    createTestHarness,
+    createFakeKV,
+    createFakeContext,
+    callWorker,
+    teardown,
+    acmeWidgets,
+    TestHarness,
+    FakeKV
+};
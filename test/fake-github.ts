@@ -0,0 +1,260 @@
+import { HttpTransport } from "../worker/github";
+
+// Shape of the recorded repositories in test/fixtures: GitHub REST payloads plus the files of the head commit
+interface RepoFixture {
+    repository: { full_name: string; default_branch: string; private: boolean } & Record<string, unknown>;
+    branches: Record<string, string>;
+    languages: Record<string, number>;
+    files: Record<string, string>;
+    issues: Array<{ number: number; state: string; pull_request?: unknown } & Record<string, unknown>>;
+    issueComments?: Record<string, unknown[]>;
+    issueTimelines?: Record<string, unknown[]>;
+    pulls: Array<PullFixture>;
+}
+
+interface PullFixture extends Record<string, unknown> {
+    number: number;
+    state: string;
+    updated_at: string;
+    head: { sha: string; ref: string };
+    files: unknown[];
+    reviewComments: unknown[];
+    checkRuns: unknown[];
+    diff: string;
+}
+
+interface RecordedRequest {
+    url: string;
+    path: string;
+    accept: string | null;
+    authorization: string | null;
+    status: number;
+}
+
+interface FakeGitHub {
+    transport: HttpTransport;
+    requests: RecordedRequest[];
+    // Answers every request with this status until cleared, e.g. 429 to simulate a rate limit
+    failWith(status: number | null): void;
+    requestsTo(pathFragment: string): RecordedRequest[];
+}
+
+const API_ORIGIN = 'https://api.github.com';
+
+function createFakeGitHub(fixtures: RepoFixture[]): FakeGitHub {
+    const repos = new Map(fixtures.map(fixture => [fixture.repository.full_name.toLowerCase(), fixture]));
+    const requests: RecordedRequest[] = [];
+    let failure: number | null = null;
+    
+    const transport: HttpTransport = async (url, init) => {
+        const headers = new Headers(init.headers);
+        const parsed = new URL(url);
+        const response = failure !== null
+            ? failureResponse(failure)
+            : await withEtag(serve(parsed, headers.get('Accept') || '', headers.get('Authorization')), headers.get('If-None-Match'));
+        
+        requests.push({ url, path: parsed.pathname, accept: headers.get('Accept'), authorization: headers.get('Authorization'), status: response.status });
+        return response;
+    };
+    
+    const serve = (url: URL, accept: string, authorization: string | null): Response => {
+        if (url.origin === API_ORIGIN && url.pathname === '/search/code') {
+            return searchCode(repos, url.searchParams, authorization);
+        }
+        const match = /^\/repos\/([^/]+)\/([^/]+)(?:\/(.*))?$/.exec(url.pathname);
+        const fixture = match && url.origin === API_ORIGIN ? repos.get(`${match[1]}/${match[2]}`.toLowerCase()) : undefined;
+        if (!match || !fixture) {
+            return json({ message: 'Not Found' }, 404);
+        }
+        return route(fixture, decodeURIComponent(match[3] || ''), url.searchParams, accept);
+    };
+    
+    return {
+        transport,
+        requests,
+        failWith(status) {
+            failure = status;
+        },
+        requestsTo(pathFragment) {
+            return requests.filter(request => request.path.includes(pathFragment));
+        }
+    };
+}
+
+function route(fixture: RepoFixture, rest: string, query: URLSearchParams, accept: string): Response {
+    const segments = rest.split('/');
+    
+    if (rest === '') return json(fixture.repository);
+    if (rest === 'languages') return json(fixture.languages);
+    
+    if (segments[0] === 'commits') {
+        const ref = segments.slice(1).join('/');
+        if (segments[segments.length - 1] === 'check-runs') {
+            const pull = fixture.pulls.find(p => p.head.sha === segments[1]);
+            return json({ check_runs: pull ? pull.checkRuns : [] });
+        }
+        if (segments[segments.length - 1] === 'status') {
+            return json({ state: 'success', statuses: [] });
+        }
+        const sha = resolveRef(fixture, ref);
+        if (!sha) return json({ message: `No commit found for SHA: ${ref}` }, 422);
+        return accept.includes('sha') ? text(sha) : json({ sha });
+    }
+    
+    if (segments[0] === 'git' && segments[1] === 'trees') {
+        const commit = resolveRef(fixture, segments.slice(2).join('/'));
+        if (!commit) return json({ message: 'Not Found' }, 404);
+        return json({ sha: fakeSha(`tree:${commit}`), tree: buildTree(fixture.files), truncated: false });
+    }
+    
+    if (segments[0] === 'git' && segments[1] === 'blobs') {
+        const path = Object.keys(fixture.files).find(p => fakeSha(fixture.files[p]) === segments[2]);
+        return path === undefined ? json({ message: 'Not Found' }, 404) : json(encodeContent(fixture.files[path]));
+    }
+    
+    if (segments[0] === 'contents') {
+        const content = fixture.files[segments.slice(1).join('/')];
+        return content === undefined ? json({ message: 'Not Found' }, 404) : json(encodeContent(content));
+    }
+    
+    if (segments[0] === 'issues') {
+        if (segments.length === 1) {
+            return json(page(filterByState(fixture.issues, query), query));
+        }
+        const number = segments[1];
+        const issue = fixture.issues.find(i => String(i.number) === number);
+        if (!issue) return json({ message: 'Not Found' }, 404);
+        if (segments[2] === 'comments') return json(page(fixture.issueComments?.[number] || [], query));
+        if (segments[2] === 'timeline') return json(page(fixture.issueTimelines?.[number] || [], query));
+        return json(issue);
+    }
+    
+    if (segments[0] === 'pulls') {
+        if (segments.length === 1) {
+            return json(page(filterByState(fixture.pulls, query), query).map(summarizePull));
+        }
+        const pull = fixture.pulls.find(p => String(p.number) === segments[1]);
+        if (!pull) return json({ message: 'Not Found' }, 404);
+        if (segments[2] === 'files') return json(page(pull.files, query));
+        if (segments[2] === 'comments') return json(page(pull.reviewComments, query));
+        return accept.includes('diff') ? text(pull.diff) : json(summarizePull(pull));
+    }
+    
+    return json({ message: 'Not Found' }, 404);
+}
+
+// Mirrors GitHub's code search closely enough for callers that only read paths: it needs a token,
+// takes a `repo:` qualifier and matches quoted text case-insensitively
+function searchCode(repos: Map<string, RepoFixture>, query: URLSearchParams, authorization: string | null): Response {
+    if (!authorization) {
+        return json({ message: 'Requires authentication' }, 401);
+    }
+    const q = query.get('q') || '';
+    const fixture = repos.get((/repo:(\S+)/.exec(q)?.[1] || '').toLowerCase());
+    const text = q.replace(/\b(repo|path):\S+/g, '').replace(/"/g, '').trim().toLowerCase();
+    if (!fixture) {
+        return json({ message: 'Validation Failed' }, 422);
+    }
+    
+    const items = Object.keys(fixture.files)
+        .filter(path => fixture.files[path].toLowerCase().includes(text))
+        .map(path => ({ name: path.split('/').pop(), path, sha: fakeSha(fixture.files[path]) }));
+    return json({ total_count: items.length, incomplete_results: false, items });
+}
+
+// Like GitHub, successful responses carry an ETag and a matching If-None-Match gets an empty 304
+async function withEtag(response: Response, ifNoneMatch: string | null): Promise<Response> {
+    if (!response.ok) return response;
+    
+    const body = await response.text();
+    const etag = `"${fakeSha(body)}"`;
+    if (ifNoneMatch === etag) {
+        return new Response(null, { status: 304, headers: { ETag: etag } });
+    }
+    return new Response(body, { status: response.status, headers: { 'Content-Type': response.headers.get('Content-Type') || 'application/json', ETag: etag } });
+}
+
+function resolveRef(fixture: RepoFixture, ref: string): string | null {
+    if (fixture.branches[ref]) return fixture.branches[ref];
+    const known = Object.values(fixture.branches);
+    if (known.includes(ref)) return ref;
+    // Tree requests for the head commit's tree come back around with the tree SHA
+    return known.find(sha => fakeSha(`tree:${sha}`) === ref) || null;
+}
+
+function buildTree(files: Record<string, string>) {
+    const dirs = new Set<string>();
+    for (const path of Object.keys(files)) {
+        const parts = path.split('/');
+        for (let i = 1; i < parts.length; i++) {
+            dirs.add(parts.slice(0, i).join('/'));
+        }
+    }
+    return [
+        ...Array.from(dirs, path => ({ path, type: 'tree', sha: fakeSha(`dir:${path}`) })),
+        ...Object.keys(files).map(path => ({ path, type: 'blob', sha: fakeSha(files[path]), size: files[path].length }))
+    ];
+}
+
+function filterByState<T extends { state: string }>(items: T[], query: URLSearchParams): T[] {
+    const state = query.get('state') || 'open';
+    return state === 'all' ? items : items.filter(item => item.state === state);
+}
+
+function page<T>(items: T[], query: URLSearchParams): T[] {
+    const perPage = Number(query.get('per_page') || 30);
+    const pageNumber = Number(query.get('page') || 1);
+    return items.slice((pageNumber - 1) * perPage, pageNumber * perPage);
+}
+
+// The list endpoint does not carry the review data kept alongside each recorded pull request
+function summarizePull(pull: PullFixture): Record<string, unknown> {
+    const summary: Record<string, unknown> = { ...pull };
+    for (const key of ['files', 'reviewComments', 'checkRuns', 'diff']) {
+        delete summary[key];
+    }
+    return summary;
+}
+
+function encodeContent(content: string) {
+    const bytes = new TextEncoder().encode(content);
+    return { content: btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join('')), encoding: 'base64' };
+}
+
+// Deterministic stand-in for git object ids; only uniqueness within a fixture matters
+function fakeSha(value: string): string {
+    let hex = '';
+    for (let seed = 0; hex.length < 40; seed++) {
+        let hash = 0x811c9dc5 ^ seed;
+        for (let i = 0; i < value.length; i++) {
+            hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193);
+        }
+        hex += (hash >>> 0).toString(16).padStart(8, '0');
+    }
+    return hex.substring(0, 40);
+}
+
+function failureResponse(status: number): Response {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (status === 429) {
+        headers['Retry-After'] = '60';
+        headers['X-RateLimit-Remaining'] = '0';
+    }
+    return new Response(JSON.stringify({ message: `Simulated ${status}` }), { status, headers });
+}
+
+function json(body: unknown, status: number = 200): Response {
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function text(body: string): Response {
+    return new Response(body, { status: 200, headers: { 'Content-Type': 'text/plain' } });
+}
+
+export {
+    createFakeGitHub,
+    fakeSha,
+    FakeGitHub,
+    RepoFixture,
+    RecordedRequest
+};
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ANONYMOUS_VIEWER, GroundingReport, RepoIndex, createHeaders } from '../worker/utils';
+import { indexRepository } from '../worker/tools';
+import { parseRepoUrl } from '../worker/providers';
+import { checkGrounding, GroundingSources } from '../worker/grounding';
+import { acmeWidgets, callWorker, createTestHarness, teardown, TestHarness } from './fake-env';
+
+const URL = 'https://github.com/acme/widgets';
+const RENDER = acmeWidgets.files['src/render.ts'];
+const FEEDBACK = /could not be verified against the repository context/;
+const ANALYZER = /Available files:/;
+
+describe('checkGrounding', () => {
+    let harness: TestHarness;
+    let index: RepoIndex;
+    const sources: GroundingSources = { files: { 'src/render.ts': RENDER }, snippets: [], observations: [] };
+    
+    beforeEach(async () => {
+        harness = createTestHarness();
+        const location = parseRepoUrl(URL, harness.env);
+        index = await indexRepository(location, createHeaders(harness.env, ANONYMOUS_VIEWER, location));
+    });
+    afterEach(teardown);
+    
+    it('leaves a grounded answer alone', () => {
+        const answer = [
+            'Start with [#12](https://github.com/acme/widgets/issues/12), which touches `src/render.ts:11` and `package.json`.',
+            '```ts',
+            'const heading = spec.title.trim();',
+            'if (heading.length === 0) {',
+            '  throw new Error(\'Widget title must not be empty\');',
+            '}',
+            '```'
+        ].join('\n');
+        
+        const result = checkGrounding(answer, index, sources);
+        
+        expect(result.answer).toBe(answer);
+        expect(result.report).toEqual({ score: 1, checked: { issueLinks: 1, filePaths: 2, codeBlocks: 1 }, problems: [], regenerated: false });
+    });
+    
+    it('corrects links to known issues and unlinks numbers that are not in the index', () => {
+        const result = checkGrounding('See [#12](https://github.com/acme/widgets/pull/12) and [#999](https://github.com/acme/widgets/issues/999).', index, sources);
+        
+        expect(result.answer).toBe('See [#12](https://github.com/acme/widgets/issues/12) and #999.');
+        expect(result.report.problems.map(p => p.action)).toEqual(['rewritten', 'removed']);
+        expect(result.report.score).toBe(0);
+    });
+    
+    it('accepts closed threads that loaded issue details refer to', () => {
+        const withTimeline = { ...sources, observations: [{ title: 'Issue #12 in full', content: 'Cross-referenced by #7 (closed)' }] };
+        
+        const result = checkGrounding('Fixed before in [#7](https://github.com/acme/widgets/pull/7).', index, withTimeline);
+        
+        expect(result.report.problems).toEqual([]);
+    });
+    
+    it('corrects unambiguous paths and flags the ones that do not exist', () => {
+        const result = checkGrounding('Look at `lib/render.ts`, `tokenize.ts`, `src/widget.ts` and call `console.log` or `npm test`.', index, sources);
+        
+        expect(result.answer).toBe('Look at `src/render.ts`, `tokenize.ts`, `src/widget.ts` *(not found in this repository)* and call `console.log` or `npm test`.');
+        expect(result.report.checked.filePaths).toBe(3);
+        expect(result.report.problems.map(p => [p.text, p.action])).toEqual([['lib/render.ts', 'rewritten'], ['src/widget.ts', 'flagged']]);
+    });
+    
+    it('only checks paths without an extension when they start with a directory of the tree', () => {
+        const prose = 'Pass `input/output` pairs, and/or split `client/server` code as `owner/repo` does.';
+        const result = checkGrounding(`${prose} The parser lives in \`src/parser/\`, not \`src/lexer\`.`, index, sources);
+        
+        expect(result.answer).toBe(`${prose} The parser lives in \`src/parser/\`, not \`src/lexer\` *(not found in this repository)*.`);
+        expect(result.report.checked.filePaths).toBe(2);
+        expect(result.report.problems.map(p => [p.text, p.action])).toEqual([['src/lexer', 'flagged']]);
+    });
+    
+    it('accepts re-indented quotes with elided lines and flags invented code', () => {
+        const quoted = '```ts\nexport function renderWidget(spec: WidgetSpec): string {\n  // ...\n  return `<section><h2>${heading}</h2>${tokens.join(\'\')}</section>`;\n}\n```';
+        const invented = '```ts\nexport function renderWidget(spec: WidgetSpec, theme: string): string {\n```';
+        const command = '```bash\nnpm run build:widgets\n```';
+        
+        const result = checkGrounding(`${quoted}\n\n${invented}\n\n${command}`, index, sources);
+        
+        expect(result.report.checked.codeBlocks).toBe(2);
+        expect(result.report.problems).toEqual([expect.objectContaining({ kind: 'code_block', action: 'flagged', text: 'export function renderWidget(spec: WidgetSpec, theme: string): string {' })]);
+        expect(result.answer).toContain(`${invented}\n> ⚠️ This code does not appear in the files that were loaded`);
+    });
+    
+    it('does not treat part of a line as a quote', () => {
+        const result = checkGrounding('```ts\nheading.length\n```', index, sources);
+        
+        expect(result.report.problems).toHaveLength(1);
+    });
+});
+
+describe('grounding in answers', () => {
+    let harness: TestHarness;
+    
+    beforeEach(() => {
+        harness = createTestHarness();
+        harness.ai.on(ANALYZER, '{"needsFiles": true, "files": ["src/render.ts"]}');
+    });
+    afterEach(teardown);
+    
+    it('answers again when the first answer cannot be grounded and returns the score', async () => {
+        harness.ai
+            .on(FEEDBACK, 'Rendering happens in `src/render.ts`, see [#12](https://github.com/acme/widgets/issues/12).')
+            .on(/\*\*User Question:\*\*/, 'See [#404](https://github.com/acme/widgets/issues/404) and `src/widgets/view.ts`.');
+        
+        const response = await callWorker(harness, '/api/ask', { url: URL, question: 'How does renderWidget work?' });
+        const body = await response.json() as { answer: string; grounding: GroundingReport };
+        
+        expect(body.answer).toBe('Rendering happens in `src/render.ts`, see [#12](https://github.com/acme/widgets/issues/12).');
+        expect(body.grounding).toMatchObject({ score: 1, regenerated: true, problems: [] });
+        expect(harness.ai.callsMatching(FEEDBACK)[0].prompt).toContain('`[#404](https://github.com/acme/widgets/issues/404)`: #404 is not an issue or pull request in the index');
+    });
+    
+    it('keeps the first answer when only fixable problems were found', async () => {
+        harness.ai.on(/\*\*User Question:\*\*/, 'Rendering happens in `render/render.ts`.');
+        
+        const response = await callWorker(harness, '/api/ask', { url: URL, question: 'How does renderWidget work?' });
+        const body = await response.json() as { answer: string; grounding: GroundingReport };
+        
+        expect(body.answer).toBe('Rendering happens in `src/render.ts`.');
+        expect(body.grounding).toMatchObject({ score: 0, regenerated: false });
+        expect(harness.ai.callsMatching(FEEDBACK)).toHaveLength(0);
+    });
+    
+    it('sends the corrected answer after the streamed tokens', async () => {
+        harness.ai.on(/\*\*User Question:\*\*/, 'See [#404](https://github.com/acme/widgets/issues/404).');
+        
+        const response = await callWorker(harness, '/api/ask/stream', { url: URL, question: 'How does renderWidget work?' });
+        const body = await response.text();
+        const grounding = /event: grounding\ndata: (.*)\n/.exec(body);
+        
+        expect(grounding).not.toBeNull();
+        expect(JSON.parse(grounding?.[1] || '{}')).toMatchObject({ answer: 'See #404.', report: { score: 0 } });
+        expect(body.indexOf('event: grounding')).toBeLessThan(body.indexOf('event: done'));
+    });
+});
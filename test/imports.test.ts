@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileNode, IndexJob, RepoIndex } from '../worker/utils';
+import { extractImports, buildImportGraph, pickNeighbours } from '../worker/imports';
+import { getRepoIndex } from '../worker/storage';
+import { callWorker, createTestHarness, teardown, TestHarness } from './fake-env';
+
+const URL = 'https://github.com/acme/widgets';
+const ANSWER = /\*\*User Question:\*\*/;
+
+// Just enough of an index to resolve imports against: every file is outlined with the given specifiers
+function indexOf(files: Record<string, string[]>, extra: Partial<RepoIndex> = {}): RepoIndex {
+    const fileTree: FileNode[] = Object.keys(files).map(path => ({ path, type: 'file', size: 1000, sha: path }));
+    const outlines = Object.entries(files).map(([path, imports]) => ({ path, sha: path, symbols: [], imports }));
+    return { fileTree, outlines, manifests: [], ...extra } as unknown as RepoIndex;
+}
+
+describe('extractImports', () => {
+    it('reads ES imports, re-exports, require and dynamic import', () => {
+        const source = [
+            "import React from 'react';",
+            'import {',
+            '    buildContext,',
+            '    fetchFilesContent',
+            '} from "./tools";',
+            "import type { Env } from './utils';",
+            "import './polyfills';",
+            "export * from '../shared/types.js';",
+            "const fs = require('fs');",
+            "const lazy = await import('./lazy');",
+            "const text = 'import nothing from \"./not-real\"';"
+        ].join('\n');
+        
+        expect(extractImports('worker/index.ts', source)).toEqual(['react', './tools', './utils', './polyfills', '../shared/types.js', 'fs', './lazy']);
+    });
+    
+    it('reads Python, Go and Rust imports', () => {
+        const python = 'import os, json as j\nfrom . import models\nfrom ..core.db import (Session,\n    engine)\n';
+        const go = 'package main\n\nimport "fmt"\n\nimport (\n    "net/http"\n    cfg "github.com/acme/server/config"\n)\n';
+        const rust = 'mod parser;\npub mod render;\nuse crate::parser::tokenize;\nuse std::fmt;\n';
+        
+        expect(extractImports('app/api/views.py', python)).toEqual(['os', 'json', '.', '.models', '..core.db', '..core.db.Session']);
+        expect(extractImports('cmd/main.go', go)).toEqual(['fmt', 'net/http', 'github.com/acme/server/config']);
+        expect(extractImports('src/lib.rs', rust)).toEqual(['mod:parser', 'mod:render', 'crate::parser::tokenize']);
+    });
+});
+
+describe('buildImportGraph', () => {
+    it('resolves relative script imports to files in the tree', () => {
+        const graph = buildImportGraph(indexOf({
+            'worker/index.ts': ['./tools', './utils.js', 'react', './missing'],
+            'worker/tools.ts': ['./utils'],
+            'worker/utils.ts': [],
+            'src/app.tsx': ['./pages'],
+            'src/pages/index.tsx': []
+        }));
+        
+        expect(graph.imports.get('worker/index.ts')).toEqual(['worker/tools.ts', 'worker/utils.ts']);
+        expect(graph.importers.get('worker/utils.ts')).toEqual(['worker/index.ts', 'worker/tools.ts']);
+        expect(graph.imports.get('src/app.tsx')).toEqual(['src/pages/index.tsx']);
+    });
+    
+    it('resolves Python packages, Go module packages and Rust modules', () => {
+        const graph = buildImportGraph(indexOf({
+            'app/__init__.py': [],
+            'app/models.py': [],
+            'app/api/views.py': ['..models', '..models.User', 'app.models'],
+            'go.mod': [],
+            'config/config.go': [],
+            'config/config_test.go': [],
+            'cmd/main.go': ['fmt', 'github.com/acme/server/config'],
+            'src/lib.rs': ['mod:parser'],
+            'src/parser/mod.rs': ['crate::render::html'],
+            'src/render.rs': []
+        }, {
+            manifests: [{ path: 'go.mod', ecosystem: 'go', name: 'github.com/acme/server', dependencies: [], scripts: {}, engines: {}, workspaces: [] }]
+        }));
+        
+        expect(graph.imports.get('app/api/views.py')).toEqual(['app/models.py']);
+        expect(graph.imports.get('cmd/main.go')).toEqual(['config/config.go']);
+        expect(graph.imports.get('src/lib.rs')).toEqual(['src/parser/mod.rs']);
+        expect(graph.imports.get('src/parser/mod.rs')).toEqual(['src/render.rs']);
+    });
+});
+
+describe('pickNeighbours', () => {
+    it('prefers imports over importers and tests last, within the token budget', () => {
+        const index = indexOf({
+            'src/app.ts': ['./render'],
+            'src/render.ts': ['./tokenize'],
+            'src/tokenize.ts': [],
+            'test/render.test.ts': ['../src/render']
+        });
+        const graph = buildImportGraph(index);
+        
+        expect(pickNeighbours(graph, ['src/render.ts'], index.fileTree, 10000)).toEqual([
+            { path: 'src/tokenize.ts', reason: 'imported by `src/render.ts`' },
+            { path: 'src/app.ts', reason: 'imports `src/render.ts`' },
+            { path: 'test/render.test.ts', reason: 'imports `src/render.ts`' }
+        ]);
+        expect(pickNeighbours(graph, ['src/render.ts'], index.fileTree, 600).map(n => n.path)).toEqual(['src/tokenize.ts', 'src/app.ts']);
+        expect(pickNeighbours(graph, ['src/render.ts'], index.fileTree, 100)).toEqual([]);
+    });
+});
+
+describe('connected files in answers', () => {
+    let harness: TestHarness;
+    
+    beforeEach(async () => {
+        harness = createTestHarness();
+        const started = await callWorker(harness, '/api/index-repo', { url: URL });
+        const { job } = await started.json() as { job: IndexJob };
+        await harness.drain();
+        expect((await (await callWorker(harness, '/api/repo-status', { url: URL, jobId: job.id })).json() as { job: IndexJob }).job.status).toBe('done');
+    });
+    afterEach(teardown);
+    
+    it('records the imports of each outlined file', async () => {
+        const index = (await getRepoIndex(URL, harness.env))!;
+        
+        expect(index.outlines.find(o => o.path === 'src/index.ts')?.imports).toEqual(['./render', './parser/tokenize']);
+    });
+    
+    it('fetches the imports and importers of the selected files and describes how they connect', async () => {
+        const response = await callWorker(harness, '/api/ask', { url: URL, question: 'Where is renderWidget defined?' });
+        const result = await response.json() as { thinking: Array<{ step: string; detail: string }> };
+        
+        expect(result.thinking.find(s => s.step === 'Adding connected files')?.detail).toContain('`src/parser/tokenize.ts` (imported by `src/render.ts`)');
+        const prompt = harness.ai.callsMatching(ANSWER)[0].prompt;
+        expect(prompt).toContain('### src/parser/tokenize.ts\n```ts');
+        expect(prompt).toContain('- `src/render.ts`\n  imports: `src/parser/tokenize.ts`\n  imported by: `src/index.ts`, `test/render.test.ts`');
+    });
+});
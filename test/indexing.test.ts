@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ANONYMOUS_VIEWER, createHeaders } from '../worker/utils';
+import { indexRepository, refreshRepository } from '../worker/tools';
+import { parseRepoUrl } from '../worker/providers';
+import { NotFoundError, RateLimitError, githubRequest } from '../worker/github';
+import { RepoFixture } from './fake-github';
+import { acmeWidgets, createTestHarness, teardown, TestHarness } from './fake-env';
+
+function index(harness: TestHarness, url: string) {
+    const location = parseRepoUrl(url, harness.env);
+    return indexRepository(location, createHeaders(harness.env, ANONYMOUS_VIEWER, location));
+}
+
+describe('indexRepository', () => {
+    let harness: TestHarness;
+    
+    beforeEach(() => {
+        harness = createTestHarness();
+    });
+    afterEach(teardown);
+    
+    it('builds an index from the repository metadata, docs, tree, issues and pull requests', async () => {
+        const result = await index(harness, 'https://github.com/acme/widgets');
+        
+        expect(result).toMatchObject({
+            fullName: 'acme/widgets',
+            defaultBranch: 'main',
+            ref: 'main',
+            commitSha: acmeWidgets.branches.main,
+            scopePath: null,
+            language: 'TypeScript',
+            stars: 420,
+            private: false,
+            languages: { TypeScript: 18200, Markdown: 2100 }
+        });
+        expect(result.readme).toContain('# Widgets');
+        expect(result.contributing).toContain('npm test');
+        expect(result.pullRequests.map(pr => pr.number)).toEqual([20]);
+    });
+    
+    it('lists files with their blob SHAs and leaves out skipped directories', async () => {
+        const result = await index(harness, 'acme/widgets');
+        const paths = result.fileTree.map(node => node.path);
+        
+        expect(paths).toContain('src/parser/tokenize.ts');
+        expect(paths).toContain('src');
+        expect(paths.some(path => path.startsWith('node_modules/'))).toBe(false);
+        expect(result.fileTree.find(node => node.path === 'src/render.ts')).toMatchObject({ type: 'file', sha: expect.stringMatching(/^[0-9a-f]{40}$/) });
+    });
+    
+    it('drops pull requests from the issue list and maps issues to the files they mention', async () => {
+        const result = await index(harness, 'acme/widgets');
+        
+        expect(result.issues.map(issue => issue.number)).toEqual([12, 15]);
+        expect(result.issues[0].likelyFiles?.[0]).toBe('src/render.ts');
+        expect(result.issues[1].assignees).toEqual(['erin']);
+    });
+    
+    it('maps an issue to a file named only in its comments', async () => {
+        const fixture: RepoFixture = JSON.parse(JSON.stringify(acmeWidgets));
+        fixture.issues.push({ ...fixture.issues[1], number: 16, title: 'Dashboard flickers on reload', body: 'Every widget blinks once.', labels: [], assignees: [], comments: 1 });
+        fixture.issueComments = { ...fixture.issueComments, 16: [{ user: { login: 'harper' }, body: 'The remount comes from the entry point in src/index.ts.', created_at: '2026-09-19T09:00:00Z' }] };
+        harness = createTestHarness([fixture]);
+        
+        const result = await index(harness, 'acme/widgets');
+        
+        expect(result.issues.find(issue => issue.number === 16)?.likelyFiles).toEqual(['src/index.ts']);
+    });
+    
+    it('pins the index to a ref containing slashes and scopes the tree to the path after it', async () => {
+        const result = await index(harness, 'https://github.com/acme/widgets/tree/release/2.x/src');
+        
+        expect(result.ref).toBe('release/2.x');
+        expect(result.commitSha).toBe(acmeWidgets.branches['release/2.x']);
+        expect(result.scopePath).toBe('src');
+        expect(result.fileTree.every(node => node.path.startsWith('src/'))).toBe(true);
+    });
+    
+    it('reports an unknown ref as not found', async () => {
+        await expect(index(harness, 'https://github.com/acme/widgets/tree/no-such-branch')).rejects.toBeInstanceOf(NotFoundError);
+    });
+    
+    it('reports a missing repository as not found', async () => {
+        await expect(index(harness, 'acme/gadgets')).rejects.toThrow('Repository acme/gadgets was not found');
+    });
+    
+    it('surfaces rate limiting as a typed error', async () => {
+        harness.github.failWith(429);
+        await expect(index(harness, 'acme/widgets')).rejects.toBeInstanceOf(RateLimitError);
+    });
+    
+    it('sends the configured token to GitHub', async () => {
+        harness = createTestHarness(undefined, { GITHUB_PAT: 'test-token' });
+        await index(harness, 'acme/widgets');
+        
+        expect(harness.github.requests.every(request => request.authorization === 'Bearer test-token')).toBe(true);
+    });
+    
+    it('revalidates repeated requests with ETags instead of downloading them again', async () => {
+        await index(harness, 'acme/widgets');
+        const first = harness.github.requests.length;
+        await index(harness, 'acme/widgets');
+        
+        const repeated = harness.github.requests.slice(first);
+        expect(repeated.length).toBe(first);
+        expect(repeated.every(request => request.status === 304)).toBe(true);
+    });
+    
+    it('does not keep large responses for revalidation', async () => {
+        const fixture: RepoFixture = JSON.parse(JSON.stringify(acmeWidgets));
+        fixture.files['README.md'] = `# Widgets\n\n${'A very long readme line.\n'.repeat(20000)}`;
+        harness = createTestHarness([fixture]);
+        await index(harness, 'acme/widgets');
+        await index(harness, 'acme/widgets');
+        
+        const readme = harness.github.requestsTo('README.md');
+        expect(readme.length).toBe(2);
+        expect(readme.every(request => request.status === 200)).toBe(true);
+    });
+    
+    it('does not revalidate a response cached for another token with the same ending', async () => {
+        const url = 'https://api.github.com/repos/acme/widgets';
+        await githubRequest(url, { 'Authorization': 'Bearer first-0123456789ab' });
+        await githubRequest(url, { 'Authorization': 'Bearer other-0123456789ab' });
+        await githubRequest(url, { 'Authorization': 'Bearer other-0123456789ab' });
+        
+        expect(harness.github.requestsTo('/repos/acme/widgets').map(request => request.status)).toEqual([200, 200, 304]);
+    });
+});
+
+describe('refreshRepository', () => {
+    afterEach(teardown);
+    
+    it('fetches only changed issues and keeps the tree when the head commit has not moved', async () => {
+        const fixture: RepoFixture = JSON.parse(JSON.stringify(acmeWidgets));
+        const harness = createTestHarness([fixture]);
+        const location = parseRepoUrl('acme/widgets', harness.env);
+        const headers = createHeaders(harness.env, ANONYMOUS_VIEWER, location);
+        const existing = await indexRepository(location, headers);
+        
+        fixture.issues[0].state = 'closed';
+        const before = harness.github.requests.length;
+        const refreshed = await refreshRepository(location, existing, headers);
+        const refreshRequests = harness.github.requests.slice(before);
+        
+        expect(refreshed.issues.map(issue => issue.number)).toEqual([15]);
+        expect(refreshRequests.some(request => request.path.includes('/git/trees/'))).toBe(false);
+        expect(refreshRequests.find(request => request.path.endsWith('/issues'))?.url).toContain('state=all&since=');
+        expect(refreshed.fileTree).toEqual(existing.fileTree);
+    });
+    
+    it('rebuilds the tree when the branch has moved', async () => {
+        const fixture: RepoFixture = JSON.parse(JSON.stringify(acmeWidgets));
+        const harness = createTestHarness([fixture]);
+        const location = parseRepoUrl('acme/widgets', harness.env);
+        const headers = createHeaders(harness.env, ANONYMOUS_VIEWER, location);
+        const existing = await indexRepository(location, headers);
+        
+        fixture.branches.main = '4444444444444444444444444444444444444444';
+        fixture.files['src/theme.ts'] = "export const themes = ['light', 'dark'];\n";
+        const refreshed = await refreshRepository(location, existing, headers);
+        
+        expect(refreshed.commitSha).toBe(fixture.branches.main);
+        expect(refreshed.fileTree.map(node => node.path)).toContain('src/theme.ts');
+    });
+});
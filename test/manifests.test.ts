@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ANONYMOUS_VIEWER, DependencyManifest, createHeaders } from '../worker/utils';
+import { parseManifest } from '../worker/manifests';
+import { buildContext, indexRepository } from '../worker/tools';
+import { parseRepoUrl } from '../worker/providers';
+import { saveRepoIndex } from '../worker/storage';
+import { RepoFixture } from './fake-github';
+import { callWorker, createTestHarness, teardown, TestHarness } from './fake-env';
+import acmeWidgets from './fixtures/acme-widgets.json';
+
+const URL = 'https://github.com/acme/widgets';
+
+describe('parseManifest', () => {
+    it('reads dependencies, scripts, engines and workspaces from package.json', () => {
+        const manifest = parseManifest('package.json', JSON.stringify({
+            name: 'monorepo',
+            packageManager: 'pnpm@9.1.0+sha256.abc',
+            engines: { node: '>=20' },
+            workspaces: { packages: ['packages/*'] },
+            scripts: { test: 'vitest run' },
+            dependencies: { react: '^19.0.0' },
+            devDependencies: { vitest: '^2.1.0' },
+            peerDependencies: { 'react-dom': '*' }
+        }));
+        
+        expect(manifest).toEqual({
+            path: 'package.json',
+            ecosystem: 'npm',
+            name: 'monorepo',
+            dependencies: [
+                { name: 'react', version: '^19.0.0', scope: 'runtime' },
+                { name: 'vitest', version: '^2.1.0', scope: 'dev' },
+                { name: 'react-dom', version: '*', scope: 'peer' }
+            ],
+            scripts: { test: 'vitest run' },
+            engines: { node: '>=20', pnpm: '9.1.0' },
+            workspaces: ['packages/*']
+        });
+    });
+    
+    it('reads Cargo.toml tables, inline tables and dotted keys', () => {
+        const manifest = parseManifest('Cargo.toml', [
+            '[package]',
+            'name = "widgets" # the crate',
+            'edition = "2021"',
+            'rust-version = "1.74"',
+            '',
+            '[dependencies]',
+            'serde = { version = "1.0", features = ["derive"] }',
+            'tokio.workspace = true',
+            '',
+            '[dependencies.regex]',
+            'version = "1.10"',
+            '',
+            '[dev-dependencies]',
+            'insta = "1.34"',
+            '',
+            '[[bin]]',
+            'name = "widgets-cli"',
+            '',
+            '[workspace]',
+            'members = [',
+            '    "crates/*",',
+            ']'
+        ].join('\n'))!;
+        
+        expect(manifest.name).toBe('widgets');
+        expect(manifest.engines).toEqual({ rust: '1.74', edition: '2021' });
+        expect(manifest.workspaces).toEqual(['crates/*']);
+        expect(manifest.dependencies).toEqual([
+            { name: 'serde', version: '1.0', scope: 'runtime' },
+            { name: 'tokio', version: null, scope: 'runtime' },
+            { name: 'regex', version: '1.10', scope: 'runtime' },
+            { name: 'insta', version: '1.34', scope: 'dev' }
+        ]);
+    });
+    
+    it('reads PEP 621 and Poetry sections of pyproject.toml', () => {
+        const pep621 = parseManifest('pyproject.toml', [
+            '[project]',
+            'name = "gizmo"',
+            'requires-python = ">=3.10"',
+            'dependencies = [',
+            '    "requests[socks]>=2.31",',
+            '    "tomli; python_version < \'3.11\'",',
+            ']',
+            '',
+            '[project.optional-dependencies]',
+            'test = ["pytest>=8"]',
+            'yaml = ["pyyaml"]',
+            '',
+            '[project.scripts]',
+            'gizmo = "gizmo.cli:main"'
+        ].join('\n'))!;
+        const poetry = parseManifest('pyproject.toml', [
+            '[tool.poetry]',
+            'name = "gadget"',
+            '',
+            '[tool.poetry.dependencies]',
+            'python = "^3.11"',
+            'httpx = { version = "^0.27", extras = ["http2"] }',
+            '',
+            '[tool.poetry.group.dev.dependencies]',
+            'ruff = "^0.4"'
+        ].join('\n'))!;
+        
+        expect(pep621.engines).toEqual({ python: '>=3.10' });
+        expect(pep621.scripts).toEqual({ gizmo: 'gizmo.cli:main' });
+        expect(pep621.dependencies).toEqual([
+            { name: 'requests', version: '>=2.31', scope: 'runtime' },
+            { name: 'tomli', version: null, scope: 'runtime' },
+            { name: 'pytest', version: '>=8', scope: 'dev' },
+            { name: 'pyyaml', version: null, scope: 'optional' }
+        ]);
+        expect(poetry.name).toBe('gadget');
+        expect(poetry.engines).toEqual({ python: '^3.11' });
+        expect(poetry.dependencies).toEqual([
+            { name: 'httpx', version: '^0.27', scope: 'runtime' },
+            { name: 'ruff', version: '^0.4', scope: 'dev' }
+        ]);
+    });
+    
+    it('reads requirements files and go.mod', () => {
+        const requirements = parseManifest('requirements-dev.txt', '-r requirements.txt\n# tools\npytest==8.2.0  # pinned\nblack\n')!;
+        const goMod = parseManifest('go.mod', [
+            'module github.com/acme/server',
+            '',
+            'go 1.22',
+            'toolchain go1.22.3',
+            '',
+            'require github.com/spf13/cobra v1.8.0',
+            '',
+            'require (',
+            '    golang.org/x/sync v0.7.0',
+            '    golang.org/x/sys v0.20.0 // indirect',
+            ')'
+        ].join('\n'))!;
+        
+        expect(requirements.dependencies).toEqual([
+            { name: 'pytest', version: '==8.2.0', scope: 'dev' },
+            { name: 'black', version: null, scope: 'dev' }
+        ]);
+        expect(goMod.name).toBe('github.com/acme/server');
+        expect(goMod.engines).toEqual({ go: '1.22', toolchain: 'go1.22.3' });
+        expect(goMod.dependencies.map(d => [d.name, d.scope])).toEqual([
+            ['github.com/spf13/cobra', 'runtime'],
+            ['golang.org/x/sync', 'runtime'],
+            ['golang.org/x/sys', 'indirect']
+        ]);
+    });
+});
+
+describe('manifests in the index', () => {
+    let harness: TestHarness;
+    
+    beforeEach(async () => {
+        const fixture: RepoFixture = JSON.parse(JSON.stringify(acmeWidgets));
+        fixture.files['package.json'] = JSON.stringify({
+            name: 'widgets',
+            engines: { node: '>=18' },
+            scripts: { build: 'tsc', test: 'vitest run' },
+            devDependencies: { vitest: '^1.6.0', typescript: '^5.4.0' }
+        });
+        fixture.files['tools/requirements.txt'] = 'pyyaml>=6.0\n';
+        harness = createTestHarness([fixture]);
+    });
+    afterEach(teardown);
+    
+    async function indexWidgets() {
+        const location = parseRepoUrl(URL, harness.env);
+        const index = await indexRepository(location, createHeaders(harness.env, ANONYMOUS_VIEWER, location));
+        await saveRepoIndex(URL, index, harness.env);
+        return index;
+    }
+    
+    it('parses the manifests found in the tree while indexing', async () => {
+        const phases: string[] = [];
+        const location = parseRepoUrl(URL, harness.env);
+        const index = await indexRepository(location, createHeaders(harness.env, ANONYMOUS_VIEWER, location), (phase, status, detail) => {
+            if (phase === 'manifests' && status === 'done') phases.push(detail || '');
+        });
+        
+        expect(index.manifests.map(m => m.path)).toEqual(['package.json', 'tools/requirements.txt']);
+        expect(index.manifests[0].engines).toEqual({ node: '>=18' });
+        expect(index.manifests.some(m => m.path.includes('node_modules'))).toBe(false);
+        expect(phases).toEqual(['2 manifests, 3 dependencies']);
+    });
+    
+    it('serves the parsed manifests from POST /api/dependencies', async () => {
+        await indexWidgets();
+        
+        const response = await callWorker(harness, '/api/dependencies', { url: URL });
+        const body = await response.json() as { manifests: DependencyManifest[] };
+        const missing = await callWorker(harness, '/api/dependencies', { url: 'https://github.com/acme/gadgets' });
+        
+        expect(response.status).toBe(200);
+        expect(body.manifests[0].scripts).toEqual({ build: 'tsc', test: 'vitest run' });
+        expect(missing.status).toBe(404);
+    });
+    
+    it('puts scripts, toolchain versions and dependencies in the context', async () => {
+        const context = buildContext(await indexWidgets()).text;
+        
+        expect(context).toContain('### package.json (npm: widgets)\n- Requires: node >=18\n- Script `build`: `tsc`\n- Script `test`: `vitest run`\n- Dev dependencies: vitest ^1.6.0, typescript ^5.4.0');
+    });
+});
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ModelUsage, ThinkingStep } from '../worker/utils';
+import { DEFAULT_MODELS, UnknownModelError, selectModels } from '../worker/models';
+import { callWorker, createTestHarness, teardown, TestHarness } from './fake-env';
+
+const URL = 'https://github.com/acme/widgets';
+const ANSWER = /\*\*User Question:\*\*/;
+const LLAMA_70B = '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
+const QWEN_CODER = '@cf/qwen/qwen2.5-coder-32b-instruct';
+
+interface AskResponse {
+    answer: string;
+    thinking: ThinkingStep[];
+    debug: { models: { planning: string; answering: string; calls: ModelUsage[] } };
+}
+
+function failFor(model: string) {
+    return (_prompt: string, calledModel: string) => calledModel === model;
+}
+
+function outOfCapacity(): string {
+    throw new Error('3040: Capacity temporarily exceeded');
+}
+
+describe('selectModels', () => {
+    it('uses the defaults when nothing is requested', () => {
+        const selection = selectModels();
+        
+        expect(selection.planning.id).toBe(DEFAULT_MODELS.planning);
+        expect(selection.answering.id).toBe(DEFAULT_MODELS.answering);
+    });
+    
+    it('rejects models that are unknown or not meant for the role', () => {
+        expect(() => selectModels({ answering: '@cf/acme/nonexistent' })).toThrow(UnknownModelError);
+        expect(() => selectModels({ planning: QWEN_CODER })).toThrow(UnknownModelError);
+    });
+});
+
+describe('model routes', () => {
+    let harness: TestHarness;
+    
+    beforeEach(() => {
+        harness = createTestHarness();
+    });
+    afterEach(teardown);
+    
+    it('lists the models for each role', async () => {
+        const response = await callWorker(harness, '/api/models');
+        const body = await response.json() as { planning: Array<{ id: string }>; answering: Array<{ id: string }>; defaults: Record<string, string> };
+        
+        expect(body.answering.map(m => m.id)).toContain(QWEN_CODER);
+        expect(body.planning.map(m => m.id)).not.toContain(QWEN_CODER);
+        expect(body.defaults).toEqual(DEFAULT_MODELS);
+    });
+    
+    it('answers with the requested model', async () => {
+        const response = await callWorker(harness, '/api/ask', { url: URL, question: 'What does this project do?', model: QWEN_CODER });
+        const body = await response.json() as AskResponse;
+        
+        expect(harness.ai.callsMatching(ANSWER).map(c => c.model)).toEqual([QWEN_CODER]);
+        expect(body.debug.models.answering).toBe(QWEN_CODER);
+        expect(body.thinking.find(s => s.step === 'Generating response')?.detail).toBe('Answering with Qwen 2.5 Coder 32B');
+    });
+    
+    it('returns 400 for an unknown model', async () => {
+        const response = await callWorker(harness, '/api/ask', { url: URL, question: 'What does this project do?', model: '@cf/acme/nonexistent' });
+        
+        expect(response.status).toBe(400);
+        expect(harness.ai.calls).toHaveLength(0);
+    });
+});
+
+describe('model fallback', () => {
+    let harness: TestHarness;
+    
+    beforeEach(() => {
+        harness = createTestHarness();
+    });
+    afterEach(teardown);
+    
+    it('moves to the next model when the selected one fails and records both calls', async () => {
+        harness.ai.on(failFor(LLAMA_70B), outOfCapacity);
+        
+        const response = await callWorker(harness, '/api/ask', { url: URL, question: 'What does this project do?' });
+        const body = await response.json() as AskResponse;
+        
+        expect(body.answer).toBe('This is a scripted answer.');
+        expect(body.thinking).toContainEqual(expect.objectContaining({ step: 'Switching model', detail: 'Llama 3.3 70B failed, trying Qwen 2.5 Coder 32B' }));
+        const answering = body.debug.models.calls.find(c => c.role === 'answering');
+        expect(answering).toEqual({
+            role: 'answering',
+            model: QWEN_CODER,
+            attempts: [{ model: LLAMA_70B, error: '3040: Capacity temporarily exceeded' }, { model: QWEN_CODER, error: null }]
+        });
+    });
+    
+    it('skips fallbacks with a smaller context window than the selected model', async () => {
+        harness.ai.on(failFor('@cf/mistralai/mistral-small-3.1-24b-instruct'), outOfCapacity);
+        
+        const response = await callWorker(harness, '/api/ask', { url: URL, question: 'What does this project do?', model: '@cf/mistralai/mistral-small-3.1-24b-instruct' });
+        const body = await response.json() as AskResponse;
+        
+        expect(harness.ai.callsMatching(ANSWER).map(c => c.model)).toEqual(['@cf/mistralai/mistral-small-3.1-24b-instruct', '@cf/meta/llama-4-scout-17b-16e-instruct']);
+        expect(body.debug.models.answering).toBe('@cf/mistralai/mistral-small-3.1-24b-instruct');
+    });
+    
+    it('says which models were tried when none of them answer', async () => {
+        harness.ai.on((prompt) => ANSWER.test(prompt), outOfCapacity);
+        
+        const response = await callWorker(harness, '/api/ask/stream', { url: URL, question: 'What does this project do?' });
+        const body = await response.text();
+        
+        expect(body).toContain('None of the answer models responded (tried Llama 3.3 70B, Qwen 2.5 Coder 32B, Mistral Small 3.1 24B, Llama 4 Scout 17B, Llama 3.1 8B)');
+        expect(body).toContain('event: done');
+    });
+});
@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { IndexJob, RepoIndex } from '../worker/utils';
+import { extractSymbols, findDefinitions } from '../worker/outlines';
+import { buildContext } from '../worker/tools';
+import { getRepoIndex } from '../worker/storage';
+import { callWorker, createTestHarness, teardown, TestHarness } from './fake-env';
+
+const URL = 'https://github.com/acme/widgets';
+const ANSWER = /\*\*User Question:\*\*/;
+
+function summarize(path: string, content: string) {
+    return extractSymbols(path, content).map(s => [s.kind, s.name, s.startLine, s.endLine]);
+}
+
+describe('extractSymbols', () => {
+    it('outlines TypeScript declarations with their signatures and line ranges', () => {
+        const source = [
+            "import { join } from 'path';",
+            '',
+            'export interface Options {',
+            '    root: string;',
+            '}',
+            '',
+            "export type Mode = 'fast' | 'safe';",
+            '',
+            'const PATTERN = /\\{[^}]*\\}/g;',
+            '',
+            'export async function load(',
+            '    path: string,',
+            '    options: { strict: boolean },',
+            '): Promise<string> {',
+            '    const text = `${path} {`;',
+            '    return text;',
+            '}',
+            '',
+            'export const parse = (input: string) => input',
+            '    .split(PATTERN);',
+            '',
+            'export default class Loader {',
+            '    run() {}',
+            '}'
+        ].join('\n');
+        
+        expect(summarize('src/load.ts', source)).toEqual([
+            ['interface', 'Options', 3, 5],
+            ['type', 'Mode', 7, 7],
+            ['variable', 'PATTERN', 9, 9],
+            ['function', 'load', 11, 17],
+            ['function', 'parse', 19, 20],
+            ['class', 'Loader', 22, 24]
+        ]);
+        expect(extractSymbols('src/load.ts', source)[3].signature).toBe('export async function load(path: string, options: { strict: boolean }): Promise<string>');
+    });
+    
+    it('outlines Python definitions by indentation, decorators included', () => {
+        const source = [
+            'MAX_RETRIES = 3',
+            '',
+            '@dataclass',
+            'class Job(Base):',
+            '    name: str',
+            '',
+            '    def run(self):',
+            '        pass',
+            '',
+            '# helpers',
+            'def retry(job: Job,',
+            '          times: int = MAX_RETRIES) -> bool:',
+            '    return True'
+        ].join('\n');
+        
+        expect(summarize('jobs/run.py', source)).toEqual([
+            ['variable', 'MAX_RETRIES', 1, 1],
+            ['class', 'Job', 3, 8],
+            ['function', 'retry', 11, 13]
+        ]);
+        expect(extractSymbols('jobs/run.py', source)[2].signature).toBe('def retry(job: Job, times: int = MAX_RETRIES) -> bool');
+    });
+    
+    it('outlines Go and Rust declarations', () => {
+        const go = [
+            'package server',
+            '',
+            'type Server struct {',
+            '    addr string',
+            '}',
+            '',
+            'func (s *Server) Start() error {',
+            '    return nil',
+            '}',
+            '',
+            'func New(addr string) *Server {',
+            '    return &Server{addr: addr}',
+            '}'
+        ].join('\n');
+        const rust = [
+            'pub struct Widget<\'a> {',
+            '    title: &\'a str,',
+            '}',
+            '',
+            'impl<\'a> fmt::Display for Widget<\'a> {',
+            '    fn fmt(&self, f: &mut fmt::Formatter) -> fmt::Result {',
+            '        write!(f, "{}", self.title)',
+            '    }',
+            '}',
+            '',
+            'pub(crate) fn render(widget: &Widget) -> String {',
+            '    widget.to_string()',
+            '}'
+        ].join('\n');
+        
+        expect(summarize('server/server.go', go)).toEqual([
+            ['struct', 'Server', 3, 5],
+            ['method', 'Start', 7, 9],
+            ['function', 'New', 11, 13]
+        ]);
+        expect(summarize('src/widget.rs', rust)).toEqual([
+            ['struct', 'Widget', 1, 3],
+            ['impl', "fmt::Display for Widget<'a>", 5, 9],
+            ['function', 'render', 11, 13]
+        ]);
+    });
+    
+    it('ignores files in other languages', () => {
+        expect(extractSymbols('README.md', '# function main() {}')).toEqual([]);
+    });
+});
+
+describe('outlines in the index', () => {
+    let harness: TestHarness;
+    
+    beforeEach(async () => {
+        harness = createTestHarness();
+        const started = await callWorker(harness, '/api/index-repo', { url: URL });
+        const { job } = await started.json() as { job: IndexJob };
+        await harness.drain();
+        const status = await (await callWorker(harness, '/api/repo-status', { url: URL, jobId: job.id })).json() as { job: IndexJob };
+        expect(status.job.phases.find(p => p.phase === 'outlines')).toMatchObject({ status: 'done', detail: expect.stringContaining('symbols') });
+    });
+    afterEach(teardown);
+    
+    async function loadIndex(): Promise<RepoIndex> {
+        return (await getRepoIndex(URL, harness.env))!;
+    }
+    
+    it('records the outline of each source file while indexing', async () => {
+        const index = await loadIndex();
+        
+        expect(index.outlines.map(o => o.path)).toEqual(expect.arrayContaining(['src/render.ts', 'src/parser/tokenize.ts', 'test/render.test.ts']));
+        expect(index.outlines.map(o => o.path)).not.toContain('node_modules/left-pad/index.js');
+        expect(index.outlines.find(o => o.path === 'src/render.ts')?.symbols).toEqual([
+            { name: 'WidgetSpec', kind: 'interface', signature: 'export interface WidgetSpec', startLine: 3, endLine: 6 },
+            { name: 'renderWidget', kind: 'function', signature: 'export function renderWidget(spec: WidgetSpec): string', startLine: 9, endLine: 16 }
+        ]);
+    });
+    
+    it('finds the files that define the symbols a question names', async () => {
+        const index = await loadIndex();
+        
+        expect(findDefinitions('Where is renderWidget defined?', index.outlines).map(d => d.path)).toEqual(['src/render.ts']);
+        expect(findDefinitions('where is tokenize defined', index.outlines).map(d => d.path)).toEqual(['src/parser/tokenize.ts']);
+        expect(findDefinitions('How do I render a widget?', index.outlines)).toEqual([]);
+    });
+    
+    it('lists outlines in the context for files whose code is not loaded', async () => {
+        const index = await loadIndex();
+        
+        const context = buildContext(index, { 'src/render.ts': 'export function renderWidget() {}' }, [], [], { question: 'how are tokens split?' }).text;
+        const start = context.indexOf('## Symbol Outlines');
+        const outlines = context.substring(start, context.indexOf('\n## ', start));
+        
+        expect(outlines).toContain('### src/parser/tokenize.ts\n- L2-4 `export function tokenize(body: string): string[]`');
+        expect(outlines).not.toContain('### src/render.ts');
+    });
+    
+    it('fetches the defining file when a question names a symbol', async () => {
+        const response = await callWorker(harness, '/api/ask', { url: URL, question: 'Where is renderWidget defined?' });
+        const result = await response.json() as { thinking: Array<{ step: string; detail: string }> };
+        
+        expect(result.thinking.find(s => s.step === 'Symbols found')?.detail).toBe('`renderWidget` in `src/render.ts`');
+        const prompt = harness.ai.callsMatching(ANSWER)[0].prompt;
+        expect(prompt).toContain('### src/render.ts\n```ts\nimport { tokenize }');
+    });
+});
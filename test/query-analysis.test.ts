@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { parseQueryAnalysis } from '../worker/tools';
+import { callWorker, createTestHarness, teardown, TestHarness } from './fake-env';
+
+const URL = 'https://github.com/acme/widgets';
+const ANALYZER = /Available files:/;
+const ANSWER = /\*\*User Question:\*\*/;
+
+describe('parseQueryAnalysis', () => {
+    it('reads the JSON answer, with or without a code fence', () => {
+        expect(parseQueryAnalysis('{"needsFiles": true, "files": ["src/render.ts"]}')).toEqual({ needsFiles: true, files: ['src/render.ts'] });
+        expect(parseQueryAnalysis('```json\n{"needsFiles": true, "files": ["a.ts", "b.ts"], "reasoning": "x"}\n```')).toEqual({ needsFiles: true, files: ['a.ts', 'b.ts'] });
+    });
+    
+    it('falls back to no files when the answer is not usable', () => {
+        expect(parseQueryAnalysis('I think you need src/render.ts')).toEqual({ needsFiles: false, files: [] });
+        expect(parseQueryAnalysis('{"needsFiles": true, "files": "src/render.ts"}')).toEqual({ needsFiles: true, files: [] });
+    });
+});
+
+describe('query analysis in POST /api/ask', () => {
+    let harness: TestHarness;
+    
+    beforeEach(() => {
+        harness = createTestHarness();
+    });
+    afterEach(teardown);
+    
+    async function ask(question: string, conversationId?: string) {
+        const response = await callWorker(harness, '/api/ask', { url: URL, question, conversationId });
+        return await response.json() as { answer: string; conversationId: string };
+    }
+    
+    it('answers issue questions from the index without asking the model for files', async () => {
+        const result = await ask('Find good first issues');
+        
+        expect(result.answer).toBe('This is a scripted answer.');
+        expect(harness.ai.callsMatching(ANALYZER)).toHaveLength(0);
+        expect(harness.github.requestsTo('/contents/src/')).toHaveLength(0);
+    });
+    
+    it('fetches the files the analyzer picks and puts them in the answer context', async () => {
+        harness.ai.on(ANALYZER, '```json\n{"needsFiles": true, "files": ["src/render.ts"]}\n```');
+        
+        await ask('How does renderWidget work?');
+        
+        expect(harness.github.requestsTo('/contents/src/render.ts')).toHaveLength(1);
+        const [answer] = harness.ai.callsMatching(ANSWER);
+        expect(answer.prompt).toContain('### src/render.ts');
+        expect(answer.prompt).toContain("throw new Error('Widget title must not be empty')");
+    });
+    
+    it('still answers when the analyzer reply cannot be parsed', async () => {
+        harness.ai.on(ANALYZER, 'Sorry, I am not sure.');
+        
+        const result = await ask('Explain the code structure');
+        
+        expect(result.answer).toBe('This is a scripted answer.');
+        expect(harness.github.requestsTo('/contents/src/')).toHaveLength(0);
+        expect(harness.ai.callsMatching(ANSWER)[0].prompt).toContain('No file contents loaded');
+    });
+    
+    it('lets the analyzer resolve follow-ups without keywords against the conversation', async () => {
+        harness.ai
+            .on(prompt => ANALYZER.test(prompt) && prompt.includes('Conversation so far'), '{"needsFiles": true, "files": ["src/parser/tokenize.ts"]}')
+            .on(ANALYZER, '{"needsFiles": true, "files": ["src/render.ts"]}');
+        
+        const first = await ask('How does renderWidget work?');
+        await ask('and the tokenizer it calls?', first.conversationId);
+        
+        expect(harness.ai.callsMatching(ANALYZER)).toHaveLength(2);
+        expect(harness.github.requestsTo('/contents/src/parser/tokenize.ts')).toHaveLength(1);
+    });
+    
+    it('reuses files loaded earlier in the conversation instead of fetching them again', async () => {
+        harness.ai.on(ANALYZER, '{"needsFiles": true, "files": ["src/render.ts"]}');
+        
+        const first = await ask('How does renderWidget work?');
+        await ask('Show me the code for renderWidget again', first.conversationId);
+        
+        expect(harness.github.requestsTo('/contents/src/render.ts')).toHaveLength(1);
+    });
+});
@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { IndexJob, IssueDetails, PullRequestReview } from '../worker/utils';
+import worker from '../worker/index';
+import { RepoFixture } from './fake-github';
+import { acmeWidgets, callWorker, createTestHarness, teardown, TestHarness } from './fake-env';
+
+const URL = 'https://github.com/acme/widgets';
+
+// Splits a text/event-stream body into its events, in order
+async function readEvents(response: Response): Promise<Array<{ event: string; data: unknown }>> {
+    const body = await response.text();
+    return body.split('\n\n')
+        .filter(block => block.trim().length > 0)
+        .map(block => {
+            const event = /^event: (.*)$/m.exec(block)?.[1] || 'message';
+            const data = /^data: (.*)$/m.exec(block)?.[1];
+            return { event, data: data ? JSON.parse(data) : null };
+        });
+}
+
+describe('worker routes', () => {
+    let harness: TestHarness;
+    
+    beforeEach(() => {
+        harness = createTestHarness();
+    });
+    afterEach(teardown);
+    
+    it('answers CORS preflight requests and 404s unknown paths', async () => {
+        const preflight = await worker.fetch(new Request('https://assistant.test/api/ask', { method: 'OPTIONS' }), harness.env, harness.ctx);
+        expect(preflight.status).toBe(200);
+        expect(preflight.headers.get('Access-Control-Allow-Origin')).toBe('*');
+        
+        expect((await callWorker(harness, '/api/unknown', {})).status).toBe(404);
+        expect((await callWorker(harness, '/elsewhere')).status).toBe(404);
+    });
+    
+    it('indexes a repository in the background and reports the job through /api/repo-status', async () => {
+        const started = await callWorker(harness, '/api/index-repo', { url: URL });
+        const { job } = await started.json() as { job: IndexJob };
+        
+        expect(started.status).toBe(202);
+        expect(job.status).toBe('queued');
+        
+        await harness.drain();
+        const status = await (await callWorker(harness, '/api/repo-status', { url: URL, jobId: job.id })).json() as { indexed: boolean; issuesCount: number; job: IndexJob };
+        
+        expect(status.indexed).toBe(true);
+        expect(status.issuesCount).toBe(2);
+        expect(status.job.status).toBe('done');
+        expect(status.job.phases.every(phase => phase.status === 'done')).toBe(true);
+    });
+    
+    it('marks the job failed when the repository does not exist', async () => {
+        const started = await callWorker(harness, '/api/index-repo', { url: 'acme/gadgets' });
+        const { job } = await started.json() as { job: IndexJob };
+        
+        await harness.drain();
+        const status = await (await callWorker(harness, '/api/repo-status', { url: 'acme/gadgets', jobId: job.id })).json() as { indexed: boolean; job: IndexJob };
+        
+        expect(status.indexed).toBe(false);
+        expect(status.job.status).toBe('failed');
+        expect(status.job.error?.code).toBe('not_found');
+    });
+    
+    it('answers a question and starts a conversation', async () => {
+        const response = await callWorker(harness, '/api/ask', { url: URL, question: 'What does this project do?' });
+        const body = await response.json() as { answer: string; conversationId: string };
+        
+        expect(response.status).toBe(200);
+        expect(body.answer).toBe('This is a scripted answer.');
+        expect(body.conversationId).toEqual(expect.any(String));
+    });
+    
+    it('streams the answer as server-sent events', async () => {
+        harness.ai.on(/\*\*User Question:\*\*/, 'Widgets renders HTML.');
+        
+        const response = await callWorker(harness, '/api/ask/stream', { url: URL, question: 'What does this project do?' });
+        const events = await readEvents(response);
+        const names = events.map(e => e.event);
+        
+        expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+        expect(names[0]).toBe('conversation');
+        expect(names[names.length - 1]).toBe('done');
+        expect(events.filter(e => e.event === 'token').map(e => (e.data as { text: string }).text).join('')).toBe('Widgets renders HTML.');
+    });
+    
+    it('finishes the stream quietly when the client goes away', async () => {
+        const outcomes: Array<Promise<string>> = [];
+        const waitUntil = harness.ctx.waitUntil.bind(harness.ctx);
+        harness.ctx.waitUntil = (promise: Promise<unknown>) => {
+            outcomes.push(promise.then(() => 'resolved', () => 'rejected'));
+            waitUntil(promise);
+        };
+        
+        const response = await callWorker(harness, '/api/ask/stream', { url: URL, question: 'What does this project do?' });
+        await response.body!.cancel();
+        await harness.drain();
+        
+        expect(await Promise.all(outcomes)).not.toContain('rejected');
+    });
+    
+    it('returns issue details with comments and the pull request that references it', async () => {
+        const response = await callWorker(harness, '/api/issue', { url: URL, number: 12 });
+        const { issue } = await response.json() as { issue: IssueDetails };
+        
+        expect(issue.issue.title).toEqual(expect.any(String));
+        expect(issue.comments.length).toBeGreaterThan(0);
+        expect(issue.linkedPullRequests.map(pr => pr.number)).toContain(20);
+    });
+    
+    it('reviews a pull request from the scripted model reply and its check runs', async () => {
+        harness.ai.on(/reviewing a pull request/, JSON.stringify({
+            summary: 'Adds a theme option to widgets.',
+            riskyHunks: [{ path: 'src/render.ts', line: 13, reason: 'Empty titles are no longer rejected.' }],
+            missingTests: ['src/render.ts'],
+            contributing: { follows: true, notes: 'Small and focused.' }
+        }));
+        
+        const response = await callWorker(harness, '/api/review-pr', { url: URL, number: 20 });
+        const { review } = await response.json() as { review: PullRequestReview };
+        
+        expect(response.status).toBe(200);
+        expect(review.summary).toBe('Adds a theme option to widgets.');
+        expect(review.riskyHunks[0]).toMatchObject({ path: 'src/render.ts', line: 13 });
+        expect(review.checks).toEqual({ passed: 1, failed: [], pending: 0 });
+    });
+    
+    it('keeps removed `--` lines inside a hunk out of the file headers of the review diff', async () => {
+        const fixture: RepoFixture = JSON.parse(JSON.stringify(acmeWidgets));
+        fixture.pulls[0].diff = [
+            'diff --git a/db/schema.sql b/db/schema.sql',
+            'index 3b18e51..a9c0f2d 100644',
+            '--- a/db/schema.sql',
+            '+++ b/db/schema.sql',
+            '@@ -1,3 +1,3 @@',
+            '--- widgets table',
+            '+-- widgets and their themes',
+            ' CREATE TABLE widgets (id INTEGER);',
+            '--- TODO: add a theme column',
+            ''
+        ].join('\n');
+        harness = createTestHarness([fixture]);
+        harness.ai.on(/reviewing a pull request/, JSON.stringify({ summary: 'Rewords a comment.', riskyHunks: [], missingTests: [] }));
+        
+        await callWorker(harness, '/api/review-pr', { url: URL, number: 20 });
+        
+        expect(harness.ai.callsMatching(/reviewing a pull request/)[0].prompt).toContain([
+            '--- a/db/schema.sql',
+            '+++ b/db/schema.sql',
+            '@@ -1,3 +1,3 @@',
+            '   --- widgets table',
+            '1 +-- widgets and their themes',
+            '2  CREATE TABLE widgets (id INTEGER);',
+            '   --- TODO: add a theme column'
+        ].join('\n'));
+    });
+    
+    it('maps a GitHub rate limit to a 429 with a typed error', async () => {
+        harness.github.failWith(429);
+        
+        const response = await callWorker(harness, '/api/issue', { url: URL, number: 12 });
+        const body = await response.json() as { error: { code: string } };
+        
+        expect(response.status).toBe(429);
+        expect(body.error.code).toBe('rate_limited');
+    });
+    
+    it('reports login as unavailable when OAuth is not configured', async () => {
+        const response = await callWorker(harness, '/api/auth/login');
+        
+        expect(response.status).toBe(501);
+    });
+});
+
+describe('private repositories and GITHUB_PAT', () => {
+    let harness: TestHarness;
+    
+    beforeEach(() => {
+        const fixture: RepoFixture = JSON.parse(JSON.stringify(acmeWidgets));
+        fixture.repository.private = true;
+        harness = createTestHarness([fixture], { GITHUB_PAT: 'server-token' });
+    });
+    afterEach(teardown);
+    
+    it('turns away visitors who are not signed in before any private content is fetched', async () => {
+        const indexing = await callWorker(harness, '/api/index-repo', { url: URL });
+        const issue = await callWorker(harness, '/api/issue', { url: URL, number: 12 });
+        const asked = await (await callWorker(harness, '/api/ask', { url: URL, question: 'How do I run the tests?' })).json() as { error: { code: string } };
+        
+        expect(indexing.status).toBe(401);
+        expect((await indexing.json() as { error: { code: string; message: string } }).error).toEqual({ code: 'unauthorized', message: 'Sign in with GitHub to use private repositories.' });
+        expect(issue.status).toBe(401);
+        expect(asked.error.code).toBe('unauthorized');
+        expect(new Set(harness.github.requests.map(request => request.path))).toEqual(new Set(['/repos/acme/widgets']));
+        expect(harness.kv.keys('repo:')).toEqual([]);
+        expect(harness.kv.keys('job')).toEqual([]);
+    });
+});
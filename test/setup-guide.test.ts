@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ANONYMOUS_VIEWER, FileNode, SetupGuide, createHeaders } from '../worker/utils';
+import { buildSetupGuide } from '../worker/setup-guide';
+import { parseManifest } from '../worker/manifests';
+import { buildContext, indexRepository } from '../worker/tools';
+import { parseRepoUrl } from '../worker/providers';
+import { getRepoIndex, saveRepoIndex } from '../worker/storage';
+import { RepoFixture } from './fake-github';
+import { callWorker, createTestHarness, teardown, TestHarness } from './fake-env';
+import acmeWidgets from './fixtures/acme-widgets.json';
+
+const URL = 'https://github.com/acme/widgets';
+
+function treeOf(paths: string[]): FileNode[] {
+    return paths.map(path => ({ path, type: 'file', size: 100, sha: path }));
+}
+
+function commandsOf(guide: SetupGuide) {
+    return guide.steps.map(s => [s.kind, s.commands]);
+}
+
+describe('buildSetupGuide', () => {
+    it('orders toolchain, environment, install, test and run steps from a Node project', () => {
+        const manifest = parseManifest('package.json', JSON.stringify({
+            engines: { node: '>=20' },
+            packageManager: 'pnpm@9.1.0',
+            scripts: { build: 'tsc', test: 'vitest run', dev: 'vite' }
+        }))!;
+        const contents = {
+            '.nvmrc': 'v20.11.0\n',
+            '.env.example': '# Server\nPORT=3000\nexport API_KEY=\nDATABASE_URL="<your database url>"\n'
+        };
+        
+        const guide = buildSetupGuide(contents, treeOf(['package.json', 'pnpm-lock.yaml', ...Object.keys(contents)]), [manifest], 'widgets');
+        
+        expect(commandsOf(guide)).toEqual([
+            ['toolchain', ['corepack enable', 'nvm use']],
+            ['environment', ['cp .env.example .env']],
+            ['install', ['pnpm install']],
+            ['build', ['pnpm run build']],
+            ['test', ['pnpm run test']],
+            ['run', ['pnpm run dev']]
+        ]);
+        expect(guide.steps[0].notes).toEqual(['Node.js >=20', 'pnpm 9.1.0', 'Node.js 20.11.0']);
+        expect(guide.steps[0].sources).toEqual(['package.json', '.nvmrc']);
+        expect(guide.steps[1].notes).toEqual(['Fill in: `API_KEY`, `DATABASE_URL`', 'Defaults provided for: `PORT`']);
+    });
+    
+    it('prefers Makefile targets and falls back to ecosystem commands for Go and Python', () => {
+        const goMod = parseManifest('go.mod', 'module github.com/acme/server\n\ngo 1.22\n')!;
+        const requirements = parseManifest('tools/requirements.txt', 'pytest==8.2.0\n')!;
+        const contents = {
+            Makefile: '.PHONY: test lint\n\ntest lint:\n\tgo test ./...\n\nVERSION := 1.0\ninstall: build\n\tcp bin/server /usr/local/bin\n'
+        };
+        
+        const guide = buildSetupGuide(contents, treeOf(['go.mod', 'main.go', 'Makefile', 'tools/requirements.txt']), [goMod, requirements], 'server');
+        
+        expect(commandsOf(guide)).toEqual([
+            ['toolchain', []],
+            ['install', ['go mod download', 'cd tools && python -m venv .venv', 'cd tools && source .venv/bin/activate', 'cd tools && pip install -r requirements.txt']],
+            ['build', ['go build ./...']],
+            ['test', ['make test']],
+            ['run', ['go run .']]
+        ]);
+        expect(guide.steps[0].notes).toEqual(['Go 1.22']);
+    });
+    
+    it('adds Docker commands and the commands CI runs', () => {
+        const contents = {
+            Dockerfile: 'FROM node:20 AS build\nRUN npm ci\nFROM nginx:1.27-alpine\nEXPOSE 80/tcp 443\n',
+            '.github/workflows/ci.yml': [
+                'jobs:',
+                '  test:',
+                '    steps:',
+                '      - uses: actions/setup-node@v4',
+                '        with:',
+                "          node-version: '20'",
+                '      - run: npm ci',
+                '      - name: Check',
+                '        run: |',
+                '          npm run lint',
+                '          npm test -- \\',
+                '            --coverage',
+                '      - run: echo ${{ secrets.TOKEN }}',
+                '  deploy:',
+                '    steps:',
+                '      - run: npm run deploy'
+            ].join('\n')
+        };
+        
+        const guide = buildSetupGuide(contents, treeOf(Object.keys(contents)), [], 'Widgets');
+        
+        expect(commandsOf(guide)).toEqual([
+            ['toolchain', []],
+            ['docker', ['docker build -t widgets .', 'docker run --rm -p 80:80 -p 443:443 widgets']],
+            ['ci', ['npm ci', 'npm run lint', 'npm test -- --coverage', 'npm run deploy']]
+        ]);
+        expect(guide.steps[0].notes).toEqual(['Node.js 20 (CI)']);
+        expect(guide.steps[1].notes).toEqual(['Base image: nginx:1.27-alpine']);
+    });
+});
+
+describe('setup guide in the index', () => {
+    let harness: TestHarness;
+    
+    beforeEach(async () => {
+        const fixture: RepoFixture = JSON.parse(JSON.stringify(acmeWidgets));
+        fixture.files['package-lock.json'] = '{}';
+        fixture.files['.env.example'] = 'WIDGETS_TOKEN=\n';
+        fixture.files['.github/workflows/test.yml'] = 'jobs:\n  test:\n    steps:\n      - run: npm ci\n      - run: npm test\n';
+        harness = createTestHarness([fixture]);
+        const location = parseRepoUrl(URL, harness.env);
+        await saveRepoIndex(URL, await indexRepository(location, createHeaders(harness.env, ANONYMOUS_VIEWER, location)), harness.env);
+    });
+    afterEach(teardown);
+    
+    it('serves the guide built while indexing from POST /api/setup-guide', async () => {
+        const response = await callWorker(harness, '/api/setup-guide', { url: URL });
+        const body = await response.json() as { guide: SetupGuide; markdown: string };
+        const missing = await callWorker(harness, '/api/setup-guide', { url: 'https://github.com/acme/gadgets' });
+        
+        expect(response.status).toBe(200);
+        expect(commandsOf(body.guide)).toEqual([
+            ['environment', ['cp .env.example .env']],
+            ['install', ['npm ci']],
+            ['build', ['npm run build']],
+            ['test', ['npm test']],
+            ['ci', ['npm ci', 'npm test']]
+        ]);
+        expect(body.markdown).toContain('### 4. Run the tests\n```sh\nnpm test\n```\n_From `package.json`_');
+        expect(missing.status).toBe(404);
+    });
+    
+    it('puts the guide in the context of chat answers', async () => {
+        const context = buildContext((await getRepoIndex(URL, harness.env))!).text;
+        
+        expect(context).toContain('## Setup Guide');
+        expect(context).toContain('### 1. Configure the environment\n- Fill in: `WIDGETS_TOKEN`\n```sh\ncp .env.example .env\n```');
+    });
+});
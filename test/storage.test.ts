@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ANONYMOUS_VIEWER, RepoIndex, createHeaders } from '../worker/utils';
+import { indexRepository } from '../worker/tools';
+import { parseRepoUrl } from '../worker/providers';
+import { getRepoIndex, saveRepoIndex, saveIndexEntry, summarizeIndex } from '../worker/storage';
+import { createTestHarness, teardown, TestHarness } from './fake-env';
+
+const URL = 'https://github.com/acme/widgets';
+const KEY = 'repo:acme/widgets';
+
+describe('index storage', () => {
+    let harness: TestHarness;
+    let index: RepoIndex;
+    
+    beforeEach(async () => {
+        harness = createTestHarness();
+        const location = parseRepoUrl(URL, harness.env);
+        index = await indexRepository(location, createHeaders(harness.env, ANONYMOUS_VIEWER, location));
+    });
+    afterEach(teardown);
+    
+    function manifest(): { schema: number; meta: Record<string, unknown>; parts: Record<string, { hash: string }> } {
+        return JSON.parse(harness.kv.entries.get(KEY)?.value as string);
+    }
+    
+    it('stores metadata in the manifest and each part compressed under its own key', async () => {
+        await saveRepoIndex(URL, index, harness.env);
+        
+        expect(harness.kv.keys('repo:')).toEqual([KEY]);
+        expect(manifest().meta).toMatchObject({ name: 'widgets', indexedAt: index.indexedAt });
+        expect(manifest().meta).not.toHaveProperty('fileTree');
+        expect(harness.kv.keys('index-part:')).toHaveLength(7);
+        for (const key of harness.kv.keys('index-part:')) {
+            expect(harness.kv.entries.get(key)?.value).toBeInstanceOf(Uint8Array);
+        }
+        expect(await getRepoIndex(URL, harness.env)).toEqual({ ...index, summary: summarizeIndex(index) });
+    });
+    
+    it('loads only the parts that are asked for', async () => {
+        await saveRepoIndex(URL, index, harness.env);
+        
+        const loaded = await getRepoIndex(URL, harness.env, ANONYMOUS_VIEWER, ['issues']);
+        
+        expect(loaded?.issues).toEqual(index.issues);
+        expect(loaded?.fileTree).toEqual([]);
+        expect(loaded?.readme).toBeNull();
+        expect(loaded?.fullName).toBe(index.fullName);
+    });
+    
+    it('reports the counts of every part when only the metadata is loaded', async () => {
+        await saveRepoIndex(URL, index, harness.env);
+        
+        const loaded = await getRepoIndex(URL, harness.env, ANONYMOUS_VIEWER, []);
+        
+        expect(loaded?.issues).toEqual([]);
+        expect(loaded?.summary).toEqual({
+            files: index.fileTree.length,
+            issues: 2,
+            goodFirstIssues: 1,
+            helpWantedIssues: 1,
+            pullRequests: 1,
+            hasReadme: true,
+            hasContributing: true
+        });
+    });
+    
+    it('writes only the parts that changed', async () => {
+        await saveRepoIndex(URL, index, harness.env);
+        const before = harness.kv.keys('index-part:');
+        
+        await saveRepoIndex(URL, { ...index, issues: index.issues.slice(1) }, harness.env);
+        const added = harness.kv.keys('index-part:').filter(key => !before.includes(key));
+        
+        expect(added).toHaveLength(1);
+        expect(added[0]).toContain(':issues:');
+        expect((await getRepoIndex(URL, harness.env))?.issues).toEqual(index.issues.slice(1));
+    });
+    
+    it('keeps the stored parts that a partial save leaves out', async () => {
+        await saveRepoIndex(URL, index, harness.env);
+        
+        await saveIndexEntry(KEY, { ...index, fileTree: [], issues: [] }, harness.env, ['issues']);
+        const loaded = await getRepoIndex(URL, harness.env);
+        
+        expect(loaded?.issues).toEqual([]);
+        expect(loaded?.fileTree).toEqual(index.fileTree);
+        expect(loaded?.summary).toMatchObject({ files: index.fileTree.length, issues: 0 });
+    });
+    
+    it('migrates an index stored as a single JSON value', async () => {
+        await harness.env.CACHE_KV.put(KEY, JSON.stringify(index));
+        
+        expect(await getRepoIndex(URL, harness.env)).toEqual({ ...index, summary: summarizeIndex(index) });
+        expect(manifest().schema).toBe(3);
+        expect(harness.kv.keys('index-part:')).toHaveLength(7);
+    });
+    
+    it('drops entries written with another schema and entries with missing parts', async () => {
+        await harness.env.CACHE_KV.put(KEY, JSON.stringify({ schema: 1, meta: {}, parts: {} }));
+        expect(await getRepoIndex(URL, harness.env)).toBeNull();
+        expect(harness.kv.keys('repo:')).toEqual([]);
+        
+        await saveRepoIndex(URL, index, harness.env);
+        harness.kv.entries.delete(harness.kv.keys('index-part:').find(key => key.includes(':tree:'))!);
+        expect(await getRepoIndex(URL, harness.env)).toBeNull();
+        expect(await getRepoIndex(URL, harness.env, ANONYMOUS_VIEWER, ['docs'])).not.toBeNull();
+    });
+});
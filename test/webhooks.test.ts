@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ANONYMOUS_VIEWER, RepoIndex, createHeaders } from '../worker/utils';
+import { indexRepository } from '../worker/tools';
+import { parseRepoUrl } from '../worker/providers';
+import { getRepoIndex, isIndexStale, saveRepoIndex } from '../worker/storage';
+import { callWorker, createTestHarness, teardown, TestHarness } from './fake-env';
+import issueClosed from './fixtures/webhooks/issues-closed.json';
+import issueAssigned from './fixtures/webhooks/issues-assigned.json';
+import issueCommentCreated from './fixtures/webhooks/issue-comment-created.json';
+import pullRequestMerged from './fixtures/webhooks/pull-request-merged.json';
+import pushMain from './fixtures/webhooks/push-main.json';
+
+const URL = 'https://github.com/acme/widgets';
+const SECRET = 'webhook-secret';
+
+async function sign(body: string, secret: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(body)));
+    return `sha256=${Array.from(signature).map(byte => byte.toString(16).padStart(2, '0')).join('')}`;
+}
+
+// Sends a delivery the way GitHub does; callWorker serializes the payload the same way, so the signature matches
+async function deliver(harness: TestHarness, event: string, payload: unknown, deliveryId: string, secret: string = SECRET): Promise<{ status: number; body: { success: boolean; message: string; updated?: number } }> {
+    const response = await callWorker(harness, '/api/webhooks/github', payload, {
+        'X-GitHub-Event': event,
+        'X-GitHub-Delivery': deliveryId,
+        'X-Hub-Signature-256': await sign(JSON.stringify(payload), secret)
+    });
+    return { status: response.status, body: await response.json() as { success: boolean; message: string; updated?: number } };
+}
+
+async function cachedIndex(harness: TestHarness): Promise<RepoIndex> {
+    return (await getRepoIndex(URL, harness.env))!;
+}
+
+describe('POST /api/webhooks/github', () => {
+    let harness: TestHarness;
+    let original: RepoIndex;
+    
+    beforeEach(async () => {
+        harness = createTestHarness(undefined, { GITHUB_WEBHOOK_SECRET: SECRET });
+        const location = parseRepoUrl(URL, harness.env);
+        original = await indexRepository(location, createHeaders(harness.env, ANONYMOUS_VIEWER, location));
+        await saveRepoIndex(URL, original, harness.env);
+    });
+    afterEach(teardown);
+    
+    it('rejects a delivery whose signature does not match and leaves the index alone', async () => {
+        const result = await deliver(harness, 'issues', issueClosed, 'delivery-1', 'some-other-secret');
+        
+        expect(result.status).toBe(401);
+        expect(harness.kv.keys('webhook-delivery:')).toEqual([]);
+        expect((await cachedIndex(harness)).issues.map(issue => issue.number)).toEqual([12, 15]);
+    });
+    
+    it('drops a closed issue from the cached index and forgets its deep-dive', async () => {
+        await harness.kv.binding.put('issue:repo:acme/widgets#12', '{}');
+        
+        const result = await deliver(harness, 'issues', issueClosed, 'delivery-2');
+        const index = await cachedIndex(harness);
+        
+        expect(result).toEqual({ status: 200, body: { success: true, message: 'Processed issues event', updated: 1 } });
+        expect(index.issues.map(issue => issue.number)).toEqual([15]);
+        expect(index.openIssuesCount).toBe(2);
+        expect(harness.kv.keys('issue:')).toEqual([]);
+        // Only the patched parts are rewritten; the rest of the index is as it was
+        expect(index.fileTree).toEqual(original.fileTree);
+        expect(index.readme).toBe(original.readme);
+    });
+    
+    it('records a new assignee and keeps the files linked to the issue', async () => {
+        await deliver(harness, 'issues', issueAssigned, 'delivery-3');
+        const issue = (await cachedIndex(harness)).issues.find(i => i.number === 12);
+        
+        expect(issue?.assignees).toEqual(['ivy']);
+        expect(issue?.likelyFiles).toEqual(original.issues[0].likelyFiles);
+    });
+    
+    it('counts a new comment on a tracked issue', async () => {
+        await deliver(harness, 'issue_comment', issueCommentCreated, 'delivery-4');
+        
+        expect((await cachedIndex(harness)).issues.find(i => i.number === 12)?.commentsCount).toBe(2);
+    });
+    
+    it('drops a merged pull request', async () => {
+        expect(original.pullRequests.map(pr => pr.number)).toEqual([20]);
+        
+        await deliver(harness, 'pull_request', pullRequestMerged, 'delivery-5');
+        
+        expect((await cachedIndex(harness)).pullRequests).toEqual([]);
+    });
+    
+    it('marks the tree stale on a push to the indexed branch only', async () => {
+        await deliver(harness, 'push', { ...pushMain, ref: 'refs/heads/dark-theme' }, 'delivery-6');
+        expect(isIndexStale(await cachedIndex(harness))).toBe(false);
+        
+        const result = await deliver(harness, 'push', pushMain, 'delivery-7');
+        const index = await cachedIndex(harness);
+        
+        expect(result.body.updated).toBe(1);
+        expect(index.treeStale).toBe(true);
+        expect(isIndexStale(index)).toBe(true);
+        expect(index.fileTree).toEqual(original.fileTree);
+    });
+    
+    it('applies a replayed delivery only once', async () => {
+        await deliver(harness, 'issues', issueClosed, 'delivery-8');
+        // Put the issue back, so a second patch would be visible
+        await saveRepoIndex(URL, original, harness.env);
+        
+        const replay = await deliver(harness, 'issues', issueClosed, 'delivery-8');
+        
+        expect(replay).toEqual({ status: 200, body: { success: true, message: 'Delivery already processed' } });
+        expect((await cachedIndex(harness)).issues.map(issue => issue.number)).toEqual([12, 15]);
+    });
+    
+    it('forgets the delivery id when applying it fails, so a redelivery goes through', async () => {
+        const binding = harness.kv.binding as unknown as { list: (...args: unknown[]) => Promise<unknown> };
+        const list = binding.list;
+        binding.list = async () => {
+            throw new Error('KV is unavailable');
+        };
+        
+        const failed = await deliver(harness, 'issues', issueClosed, 'delivery-9');
+        binding.list = list;
+        
+        expect(failed.status).toBe(500);
+        expect(harness.kv.keys('webhook-delivery:')).toEqual([]);
+        
+        const redelivered = await deliver(harness, 'issues', issueClosed, 'delivery-9');
+        expect(redelivered.body.updated).toBe(1);
+        expect((await cachedIndex(harness)).issues.map(issue => issue.number)).toEqual([15]);
+    });
+});
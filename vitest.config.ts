@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config'
+
+// Kept apart from vite.config.ts so the Cloudflare plugin does not start a worker runtime for tests
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    environment: 'node',
+    // Worker logs are only shown for failing tests
+    silent: 'passed-only',
+  },
+})
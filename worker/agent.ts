@@ -0,0 +1,330 @@
+import { Env, RepoIndex, RepoLocation, Viewer, StepListener, ModelSelection, CodeSearchMode, ToolObservation, AGENT_PLANNER_PROMPT, createHeaders, estimateTokens, extractResponseText, truncateText } from "./utils";
+import { parseRepoUrl, providerFor } from "./providers";
+import { GitHubError } from "./github";
+import { retrieveSnippets } from "./retrieval";
+import { getIssueDetails, formatIssueDetails } from "./issues";
+import { runModel } from "./models";
+import { CodeSearchError, searchCode, formatSearchHits } from "./code-search";
+
+const MAX_AGENT_STEPS = 4;
+const MAX_AGENT_TOKENS = 16000;
+const MAX_GITHUB_CALLS = 8;
+const MAX_OBSERVATION_CHARS = 6000;
+const DEFAULT_READ_LINES = 200;
+const MAX_SEARCH_HITS = 8;
+
+type AgentAction = 'list_directory' | 'read_file' | 'search_code' | 'get_issue' | 'get_pr_diff';
+
+interface AgentContext {
+    location: RepoLocation;
+    ref: string;
+    url: string;
+    index: RepoIndex;
+    env: Env;
+    viewer: Viewer;
+    headers: Record<string, string>;
+    files: Record<string, string>;
+    gathered: string[];
+    githubCalls: number;
+}
+
+interface AgentTool {
+    label: string;
+    describe(args: Record<string, unknown>): string;
+    run(args: Record<string, unknown>, ctx: AgentContext): Promise<string>;
+}
+
+interface AgentStep {
+    action: AgentAction;
+    args: Record<string, unknown>;
+    title: string;
+    output: string;
+}
+
+interface AgentResult {
+    files: Record<string, string>;
+    observations: ToolObservation[];
+}
+
+const AGENT_TOOLS: Record<AgentAction, AgentTool> = {
+    list_directory: {
+        label: "Listing directory",
+        describe: args => `\`${stringArg(args.path) || '/'}\``,
+        async run(args, ctx) {
+            const prefix = stringArg(args.path).replace(/^\/+|\/+$/g, '');
+            const entries = listDirectory(ctx.index, prefix);
+            return entries.length > 0 ? entries.join('\n') : `No entries found under "${prefix || '/'}"`;
+        }
+    },
+    read_file: {
+        label: "Reading file",
+        describe: args => `\`${stringArg(args.path)}\` lines ${lineRange(args).start}-${lineRange(args).end}`,
+        async run(args, ctx) {
+            const path = stringArg(args.path).replace(/^\/+/, '');
+            if (!ctx.index.fileTree.some(f => f.type === 'file' && f.path === path)) {
+                return `File "${path}" is not in the repository index`;
+            }
+            
+            if (!(path in ctx.files)) {
+                if (!spendGitHubCalls(ctx, 1)) return budgetExhausted();
+                const content = await providerFor(ctx.location).fetchFileContent(ctx.location, path, ctx.headers, ctx.ref);
+                if (content === null) return `Could not read "${path}"`;
+                ctx.files[path] = content;
+            }
+            
+            const lines = ctx.files[path].split('\n');
+            const { start, end } = lineRange(args);
+            const numbered = lines
+                .slice(start - 1, end)
+                .map((line, i) => `${start + i}: ${line}`)
+                .join('\n');
+            return `${path} (lines ${start}-${Math.min(end, lines.length)} of ${lines.length})\n${numbered}`;
+        }
+    },
+    search_code: {
+        label: "Searching code",
+        describe: args => `"${stringArg(args.query)}"${stringArg(args.mode) ? ` (${stringArg(args.mode)})` : ''}`,
+        async run(args, ctx) {
+            const query = stringArg(args.query);
+            if (!query) return 'No search query given';
+            
+            let matches = '';
+            let searchError = '';
+            try {
+                const requested = stringArg(args.mode) as CodeSearchMode;
+                const mode = requested || (/^[A-Za-z_$][\w$]*$/.test(query) ? 'identifier' : 'literal');
+                const result = await searchCode(ctx.location, ctx.index, { query, mode, maxFetches: MAX_GITHUB_CALLS - ctx.githubCalls }, ctx.headers, ctx.env);
+                ctx.githubCalls += result.blobsFetched;
+                if (result.hits.length > 0) {
+                    const hits = result.hits.slice(0, MAX_SEARCH_HITS);
+                    matches = formatSearchHits({ ...result, hits, truncated: result.truncated || hits.length < result.hits.length });
+                }
+            } catch (error) {
+                if (!(error instanceof CodeSearchError)) throw error;
+                searchError = error.message;
+            }
+            
+            const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+            const pathMatches = ctx.index.fileTree
+                .filter(f => f.type === 'file' && terms.some(t => f.path.toLowerCase().includes(t)))
+                .slice(0, 20)
+                .map(f => `- ${f.path}`);
+            
+            let snippets: string[] = [];
+            try {
+                const related = await retrieveSnippets(query, ctx.url, ctx.index, ctx.env, 5);
+                snippets = related.map(s => `--- ${s.path} (lines ${s.startLine}-${s.endLine})\n${s.content}`);
+            } catch (error) {
+                console.log("Agent search error:", error);
+            }
+            
+            if (!matches && pathMatches.length === 0 && snippets.length === 0) {
+                return searchError || `No matches for "${query}"`;
+            }
+            return [
+                searchError,
+                matches ? `Matching lines:\n${matches}` : '',
+                pathMatches.length > 0 ? `Matching paths:\n${pathMatches.join('\n')}` : '',
+                snippets.length > 0 ? `Related code:\n${snippets.join('\n\n')}` : ''
+            ].filter(Boolean).join('\n\n');
+        }
+    },
+    get_issue: {
+        label: "Reading issue",
+        describe: args => `#${numberArg(args.number)}`,
+        async run(args, ctx) {
+            const number = numberArg(args.number);
+            if (!number) return 'No issue number given';
+            if (!spendGitHubCalls(ctx, 3)) return budgetExhausted();
+            
+            const details = await getIssueDetails(ctx.url, number, ctx.index, ctx.env, ctx.viewer);
+            return details ? formatIssueDetails(details) : `Issue #${number} was not found`;
+        }
+    },
+    get_pr_diff: {
+        label: "Reading pull request diff",
+        describe: args => `#${numberArg(args.number)}`,
+        async run(args, ctx) {
+            const number = numberArg(args.number);
+            if (!number) return 'No pull request number given';
+            if (!spendGitHubCalls(ctx, 1)) return budgetExhausted();
+            
+            const diff = await providerFor(ctx.location).fetchPullRequestDiff(ctx.location, number, ctx.headers);
+            return diff === null ? `Pull request #${number} was not found` : '```diff\n' + truncateText(diff, MAX_OBSERVATION_CHARS) + '\n```';
+        }
+    }
+};
+
+async function runAgentLoop(
+    question: string,
+    index: RepoIndex,
+    url: string,
+    history: string,
+    files: Record<string, string>,
+    gathered: ToolObservation[],
+    env: Env,
+    viewer: Viewer,
+    models: ModelSelection,
+    onStep: StepListener
+): Promise<AgentResult> {
+    const location = parseRepoUrl(url, env);
+    const ctx: AgentContext = {
+        location,
+        ref: index.commitSha || index.ref,
+        url,
+        index,
+        env,
+        viewer,
+        headers: createHeaders(env, viewer, location),
+        files: { ...files },
+        gathered: gathered.map(g => g.title),
+        githubCalls: 0
+    };
+    
+    const steps: AgentStep[] = [];
+    let tokensUsed = 0;
+    
+    for (let i = 0; i < MAX_AGENT_STEPS; i++) {
+        const prompt = buildPlannerPrompt(question, history, ctx, steps);
+        tokensUsed += estimateTokens(prompt);
+        if (tokensUsed > MAX_AGENT_TOKENS) {
+            console.log(`Agent stopped: token budget reached (${tokensUsed})`);
+            break;
+        }
+        
+        const next = await planNextAction(prompt, env, models, onStep);
+        if (!next) break;
+        
+        const key = `${next.action} ${JSON.stringify(next.args)}`;
+        if (steps.some(s => `${s.action} ${JSON.stringify(s.args)}` === key)) break;
+        
+        const tool = AGENT_TOOLS[next.action];
+        const detail = tool.describe(next.args);
+        onStep({ step: tool.label, detail, status: 'working' });
+        
+        let output: string;
+        try {
+            output = await tool.run(next.args, ctx);
+        } catch (error) {
+            if (!(error instanceof GitHubError)) throw error;
+            output = `GitHub request failed: ${error.message}`;
+        }
+        
+        output = truncateText(output, MAX_OBSERVATION_CHARS);
+        tokensUsed += estimateTokens(output);
+        steps.push({ action: next.action, args: next.args, title: `${tool.label} ${detail}`, output });
+    }
+    
+    const newFiles: Record<string, string> = {};
+    for (const [path, content] of Object.entries(ctx.files)) {
+        if (!(path in files)) {
+            newFiles[path] = content;
+        }
+    }
+    
+    // Files read by the agent are passed on whole, so only the other tools' output is kept as observations
+    const observations = steps
+        .filter(s => s.action !== 'read_file')
+        .map(s => ({ title: s.title, content: s.output }));
+    
+    console.log(`Agent finished: ${steps.length} steps, ${ctx.githubCalls} GitHub calls, ~${tokensUsed} tokens`);
+    return { files: newFiles, observations };
+}
+
+function buildPlannerPrompt(question: string, history: string, ctx: AgentContext, steps: AgentStep[]): string {
+    const fileList = ctx.index.fileTree
+        .filter(f => f.type === 'file')
+        .slice(0, 150)
+        .map(f => f.path)
+        .join('\n');
+    
+    const historySection = history ? `\nConversation so far:\n${history}\n` : '';
+    const loaded = Object.keys(ctx.files);
+    const loadedSection = loaded.length > 0 ? `\nFiles already loaded in full: ${loaded.join(', ')}\n` : '';
+    const gatheredSection = ctx.gathered.length > 0 ? `\nAlready gathered: ${ctx.gathered.join(', ')}\n` : '';
+    const stepsSection = steps.length > 0
+        ? `\nResults so far:\n${steps.map((s, i) => `[${i + 1}] ${s.action} ${JSON.stringify(s.args)}\n${s.output}`).join('\n\n')}\n`
+        : '';
+    
+    return `Question: ${question}
+${historySection}${loadedSection}${gatheredSection}
+Repository files:
+${fileList}
+${stepsSection}
+${AGENT_PLANNER_PROMPT}`;
+}
+
+async function planNextAction(prompt: string, env: Env, models: ModelSelection, onStep: StepListener): Promise<{ action: AgentAction; args: Record<string, unknown> } | null> {
+    try {
+        const response = await runModel(env, models, 'planning', {
+            messages: [{ role: "user", content: prompt }],
+            max_tokens: 256
+        }, onStep);
+        return parseAgentAction(extractResponseText(response));
+    } catch (error) {
+        console.log("Agent planning error:", error);
+        return null;
+    }
+}
+
+function parseAgentAction(response: string): { action: AgentAction; args: Record<string, unknown> } | null {
+    try {
+        const cleaned = response.replace(/```json\s*/gi, '').replace(/```\s*/g, '').trim();
+        const start = cleaned.indexOf('{');
+        const end = cleaned.lastIndexOf('}');
+        if (start === -1 || end <= start) return null;
+        
+        const parsed = JSON.parse(cleaned.substring(start, end + 1));
+        if (typeof parsed.action !== 'string' || !Object.prototype.hasOwnProperty.call(AGENT_TOOLS, parsed.action)) return null;
+        
+        return {
+            action: parsed.action as AgentAction,
+            args: parsed.args && typeof parsed.args === 'object' ? parsed.args : {}
+        };
+    } catch {
+        return null;
+    }
+}
+
+function listDirectory(index: RepoIndex, prefix: string): string[] {
+    const base = prefix ? `${prefix}/` : '';
+    const entries = new Set<string>();
+    
+    for (const node of index.fileTree) {
+        if (!node.path.startsWith(base) || node.path === prefix) continue;
+        const rest = node.path.substring(base.length);
+        const slash = rest.indexOf('/');
+        entries.add(slash === -1 && node.type === 'file' ? rest : `${slash === -1 ? rest : rest.substring(0, slash)}/`);
+    }
+    
+    return Array.from(entries).sort().slice(0, 100);
+}
+
+function lineRange(args: Record<string, unknown>): { start: number; end: number } {
+    const start = Math.max(1, numberArg(args.startLine) || 1);
+    const end = Math.max(start, numberArg(args.endLine) || start + DEFAULT_READ_LINES - 1);
+    return { start, end: Math.min(end, start + DEFAULT_READ_LINES * 2 - 1) };
+}
+
+function spendGitHubCalls(ctx: AgentContext, count: number): boolean {
+    if (ctx.githubCalls + count > MAX_GITHUB_CALLS) return false;
+    ctx.githubCalls += count;
+    return true;
+}
+
+function budgetExhausted(): string {
+    return 'GitHub request budget for this question is used up; answer with the information gathered so far';
+}
+
+function stringArg(value: unknown): string {
+    return typeof value === 'string' ? value.trim() : '';
+}
+
+function numberArg(value: unknown): number {
+    const parsed = typeof value === 'number' ? value : parseInt(String(value ?? '').replace(/^#/, ''), 10);
+    return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : 0;
+}
+
+export {
+    runAgentLoop
+};
@@ -0,0 +1,220 @@
+import { Env, Viewer, ANONYMOUS_VIEWER } from "./utils";
+
+const SESSION_COOKIE = 'gca_session';
+const SESSION_TTL = 30 * 86400;
+const OAUTH_STATE_TTL = 600;
+// `repo` is what lets a user index their private repositories
+const OAUTH_SCOPES = 'repo read:user';
+
+interface Session {
+    userId: string;
+    login: string;
+    avatarUrl: string | null;
+    createdAt: string;
+}
+
+class AuthConfigError extends Error {
+    constructor() {
+        super('GitHub login is not configured. Set GITHUB_CLIENT_ID, GITHUB_CLIENT_SECRET and SESSION_SECRET.');
+        this.name = 'AuthConfigError';
+    }
+}
+
+function isAuthConfigured(env: Env): boolean {
+    return Boolean(env.GITHUB_CLIENT_ID && env.GITHUB_CLIENT_SECRET && env.SESSION_SECRET);
+}
+
+async function getViewer(request: Request, env: Env): Promise<Viewer> {
+    const sessionId = readCookie(request, SESSION_COOKIE);
+    if (!sessionId || !isAuthConfigured(env)) return ANONYMOUS_VIEWER;
+    
+    const session = await loadSession(sessionId, env);
+    if (!session) return ANONYMOUS_VIEWER;
+    
+    return loadViewer(session.userId, env);
+}
+
+// Also used by background jobs, which only know the id of the user who started them
+async function loadViewer(userId: string, env: Env): Promise<Viewer> {
+    if (!isAuthConfigured(env)) return ANONYMOUS_VIEWER;
+    
+    const stored = await env.CACHE_KV.get(`user:${userId}`);
+    if (!stored) return ANONYMOUS_VIEWER;
+    
+    const user = JSON.parse(stored) as { login: string; token: string };
+    try {
+        return { userId, login: user.login, token: await decrypt(user.token, env) };
+    } catch (error) {
+        console.error(`Could not decrypt token for user ${userId}:`, error);
+        return ANONYMOUS_VIEWER;
+    }
+}
+
+async function loadSession(sessionId: string, env: Env): Promise<Session | null> {
+    const cached = await env.CACHE_KV.get(`session:${sessionId}`);
+    return cached ? JSON.parse(cached) as Session : null;
+}
+
+async function handleLogin(request: Request, env: Env): Promise<Response> {
+    if (!isAuthConfigured(env)) throw new AuthConfigError();
+    
+    const state = randomToken();
+    await env.CACHE_KV.put(`oauth-state:${state}`, '1', { expirationTtl: OAUTH_STATE_TTL });
+    
+    const authorize = new URL('https://github.com/login/oauth/authorize');
+    authorize.searchParams.set('client_id', env.GITHUB_CLIENT_ID!);
+    authorize.searchParams.set('redirect_uri', `${new URL(request.url).origin}/api/auth/callback`);
+    authorize.searchParams.set('scope', OAUTH_SCOPES);
+    authorize.searchParams.set('state', state);
+    
+    return Response.redirect(authorize.toString(), 302);
+}
+
+async function handleCallback(request: Request, env: Env): Promise<Response> {
+    if (!isAuthConfigured(env)) throw new AuthConfigError();
+    
+    const url = new URL(request.url);
+    const code = url.searchParams.get('code');
+    const state = url.searchParams.get('state');
+    
+    if (!code || !state || !(await env.CACHE_KV.get(`oauth-state:${state}`))) {
+        return redirectHome(url, 'login_failed');
+    }
+    await env.CACHE_KV.delete(`oauth-state:${state}`);
+    
+    const tokenResponse = await fetch('https://github.com/login/oauth/access_token', {
+        method: 'POST',
+        headers: { 'Accept': 'application/json', 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            client_id: env.GITHUB_CLIENT_ID,
+            client_secret: env.GITHUB_CLIENT_SECRET,
+            code,
+            redirect_uri: `${url.origin}/api/auth/callback`
+        })
+    });
+    const tokenData = await tokenResponse.json() as { access_token?: string; error?: string };
+    if (!tokenData.access_token) {
+        console.error("OAuth token exchange failed:", tokenData.error);
+        return redirectHome(url, 'login_failed');
+    }
+    
+    const userResponse = await fetch('https://api.github.com/user', {
+        headers: {
+            'User-Agent': 'GitHubContributionAssistant',
+            'Accept': 'application/vnd.github+json',
+            'Authorization': `Bearer ${tokenData.access_token}`
+        }
+    });
+    if (!userResponse.ok) {
+        return redirectHome(url, 'login_failed');
+    }
+    const user = await userResponse.json() as { id: number; login: string; avatar_url: string | null };
+    const userId = String(user.id);
+    
+    await env.CACHE_KV.put(`user:${userId}`, JSON.stringify({
+        login: user.login,
+        token: await encrypt(tokenData.access_token, env)
+    }));
+    
+    const sessionId = randomToken();
+    const session: Session = { userId, login: user.login, avatarUrl: user.avatar_url, createdAt: new Date().toISOString() };
+    await env.CACHE_KV.put(`session:${sessionId}`, JSON.stringify(session), { expirationTtl: SESSION_TTL });
+    
+    const response = redirectHome(url);
+    response.headers.append('Set-Cookie', sessionCookie(sessionId, SESSION_TTL, url));
+    return response;
+}
+
+async function handleLogout(request: Request, env: Env): Promise<Response> {
+    const sessionId = readCookie(request, SESSION_COOKIE);
+    if (sessionId) {
+        await env.CACHE_KV.delete(`session:${sessionId}`);
+    }
+    return new Response(JSON.stringify({ success: true }), {
+        status: 200,
+        headers: {
+            'Content-Type': 'application/json',
+            'Set-Cookie': sessionCookie('', 0, new URL(request.url))
+        }
+    });
+}
+
+async function handleSessionInfo(request: Request, env: Env): Promise<{ enabled: boolean; authenticated: boolean; login: string | null; avatarUrl: string | null }> {
+    const enabled = isAuthConfigured(env);
+    const sessionId = readCookie(request, SESSION_COOKIE);
+    const session = enabled && sessionId ? await loadSession(sessionId, env) : null;
+    return {
+        enabled,
+        authenticated: !!session,
+        login: session?.login || null,
+        avatarUrl: session?.avatarUrl || null
+    };
+}
+
+function redirectHome(url: URL, error?: string): Response {
+    const target = new URL('/', url.origin);
+    if (error) {
+        target.searchParams.set('auth_error', error);
+    }
+    // Response.redirect() returns immutable headers, and the callback still needs to set a cookie
+    return new Response(null, { status: 302, headers: { 'Location': target.toString() } });
+}
+
+function sessionCookie(value: string, maxAge: number, url: URL): string {
+    const secure = url.protocol === 'https:' ? '; Secure' : '';
+    return `${SESSION_COOKIE}=${value}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAge}${secure}`;
+}
+
+function readCookie(request: Request, name: string): string | null {
+    const header = request.headers.get('Cookie');
+    if (!header) return null;
+    for (const part of header.split(';')) {
+        const [key, ...rest] = part.trim().split('=');
+        if (key === name) {
+            return rest.join('=') || null;
+        }
+    }
+    return null;
+}
+
+function randomToken(): string {
+    return Array.from(crypto.getRandomValues(new Uint8Array(32)))
+        .map(b => b.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+// Tokens are stored AES-GCM encrypted with a key derived from SESSION_SECRET, as base64(iv || ciphertext)
+async function encryptionKey(env: Env): Promise<CryptoKey> {
+    const material = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(env.SESSION_SECRET!));
+    return crypto.subtle.importKey('raw', material, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+async function encrypt(plaintext: string, env: Env): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await encryptionKey(env), new TextEncoder().encode(plaintext));
+    const combined = new Uint8Array(iv.length + ciphertext.byteLength);
+    combined.set(iv);
+    combined.set(new Uint8Array(ciphertext), iv.length);
+    return btoa(Array.from(combined, byte => String.fromCharCode(byte)).join(''));
+}
+
+async function decrypt(encoded: string, env: Env): Promise<string> {
+    const combined = Uint8Array.from(atob(encoded), c => c.charCodeAt(0));
+    const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: combined.slice(0, 12) },
+        await encryptionKey(env),
+        combined.slice(12)
+    );
+    return new TextDecoder().decode(plaintext);
+}
+
+export {
+    AuthConfigError,
+    isAuthConfigured,
+    getViewer,
+    loadViewer,
+    handleLogin,
+    handleCallback,
+    handleLogout,
+    handleSessionInfo
+};
@@ -0,0 +1,304 @@
+import { Env, RepoIndex, RepoLocation, FileNode, CodeSearchMode, CodeSearchOptions, CodeSearchHit, CodeSearchResult, isInSkippedDirectory } from "./utils";
+import { providerFor } from "./providers";
+import { loadBlobs, saveBlob } from "./storage";
+
+const MAX_SEARCH_FILES = 150;
+// Blobs a single search may fetch when the caller sets no budget. Fetched blobs are cached, so
+// repeating a partial search covers more of the repository each time.
+const DEFAULT_MAX_FETCHES = 40;
+const MAX_SEARCH_FILE_SIZE = 100000;
+const MAX_QUERY_LENGTH = 200;
+const MAX_HITS = 30;
+const DEFAULT_CONTEXT_LINES = 2;
+const MAX_CONTEXT_LINES = 5;
+// Long lines (minified code, data) are cut before matching, which bounds the input of every single match
+const MAX_LINE_CHARS = 500;
+// User patterns run in the worker, so the ones that can backtrack badly are turned down up front
+// (see checkPatternComplexity) and the text they run over is capped overall. A time budget would not help:
+// the Workers clock does not advance while a script computes.
+const MAX_REGEX_SCAN_CHARS = 1000000;
+const MAX_UNBOUNDED_QUANTIFIERS = 3;
+const MAX_REMOTE_RESULTS = 100;
+const FETCH_CONCURRENCY = 8;
+
+const SEARCH_MODES: CodeSearchMode[] = ['literal', 'regex', 'identifier'];
+
+const UNSEARCHABLE_FILES = /\.(png|jpe?g|gif|ico|webp|bmp|svg|pdf|zip|gz|tgz|jar|woff2?|ttf|eot|otf|mp[34]|wasm|exe|dll|so|dylib|class|pyc|lock)$|\.(min|bundle)\.js$|(^|\/)package-lock\.json$/i;
+
+class CodeSearchError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CodeSearchError';
+    }
+}
+
+async function searchCode(location: RepoLocation, index: RepoIndex, options: CodeSearchOptions, headers: Record<string, string>, env: Env): Promise<CodeSearchResult> {
+    const mode = options.mode || 'literal';
+    if (!SEARCH_MODES.includes(mode)) {
+        throw new CodeSearchError(`Unknown search mode "${mode}". Use one of: ${SEARCH_MODES.join(', ')}`);
+    }
+    if (options.backend && options.backend !== 'local' && options.backend !== 'github') {
+        throw new CodeSearchError(`Unknown search backend "${options.backend}". Use "local" or "github"`);
+    }
+    const query = (options.query || '').trim();
+    const matcher = buildMatcher(query, mode, options.caseSensitive ?? mode === 'identifier');
+    const contextLines = Math.max(0, Math.min(MAX_CONTEXT_LINES, Math.floor(options.contextLines ?? DEFAULT_CONTEXT_LINES)));
+    
+    let candidates = searchableFiles(index, options.path);
+    let backend: CodeSearchResult['backend'] = 'local';
+    if (options.backend === 'github') {
+        const narrowed = await narrowWithHostSearch(location, index, query, mode, headers);
+        if (narrowed) {
+            candidates = candidates.filter(f => narrowed.has(f.path));
+            backend = 'github';
+        }
+    }
+    
+    const limited = candidates.slice(0, MAX_SEARCH_FILES);
+    const { contents, fetched, unfetched } = await readBlobs(location, limited, headers, env, options.maxFetches ?? DEFAULT_MAX_FETCHES);
+    
+    const hits: CodeSearchHit[] = [];
+    let truncated = false;
+    let searched = 0;
+    let overBudget = 0;
+    let scanBudget = mode === 'regex' ? MAX_REGEX_SCAN_CHARS : Infinity;
+    for (let i = 0; i < limited.length; i++) {
+        const file = limited[i];
+        const content = contents[file.path];
+        if (content === undefined) continue;
+        scanBudget -= content.length;
+        if (scanBudget < 0) {
+            overBudget = limited.slice(i).filter(f => contents[f.path] !== undefined).length;
+            break;
+        }
+        searched++;
+        
+        for (const hit of findHits(file.path, content, matcher, contextLines)) {
+            if (hits.length >= MAX_HITS) {
+                truncated = true;
+                break;
+            }
+            hits.push(hit);
+        }
+        if (truncated) break;
+    }
+    
+    return {
+        query,
+        mode,
+        backend,
+        hits,
+        filesSearched: searched,
+        filesSkipped: candidates.length - limited.length + limited.filter(f => contents[f.path] === undefined).length + overBudget,
+        blobsFetched: fetched,
+        truncated,
+        partial: unfetched > 0 || overBudget > 0
+    };
+}
+
+function buildMatcher(query: string, mode: CodeSearchMode, caseSensitive: boolean): RegExp {
+    if (!query) {
+        throw new CodeSearchError('No search query given');
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+        throw new CodeSearchError(`Search queries are limited to ${MAX_QUERY_LENGTH} characters`);
+    }
+    
+    const flags = caseSensitive ? '' : 'i';
+    if (mode === 'regex') {
+        const problem = checkPatternComplexity(query);
+        if (problem) {
+            throw new CodeSearchError(`This regular expression could take too long to run: ${problem}`);
+        }
+        try {
+            return new RegExp(query, flags);
+        } catch (error) {
+            throw new CodeSearchError(`Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    
+    const escaped = query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (mode === 'identifier') {
+        if (!/^[A-Za-z_$][\w$]*$/.test(query)) {
+            throw new CodeSearchError(`"${query}" is not an identifier; use a literal or regex search instead`);
+        }
+        return new RegExp(`(?<![\\w$])${escaped}(?![\\w$])`, flags);
+    }
+    return new RegExp(escaped, flags);
+}
+
+// Nested quantifiers (`(a+)+`), repeated alternatives (`(a|a)*`) and backreferences are what make a
+// backtracking match exponential, and every unbounded quantifier in a row multiplies the work on a line
+// that does not match
+function checkPatternComplexity(pattern: string): string | null {
+    const groups: Array<{ quantified: boolean; alternation: boolean }> = [{ quantified: false, alternation: false }];
+    let unbounded = 0;
+    
+    // Returns the length of the quantifier starting at `i`, and whether it repeats more than once
+    const quantifierAt = (i: number): { length: number; repeats: boolean; unbounded: boolean } | null => {
+        const char = pattern[i];
+        if (char === '*' || char === '+') return { length: 1, repeats: true, unbounded: true };
+        if (char === '?') return { length: 1, repeats: false, unbounded: false };
+        const braces = /^\{(\d+)(,(\d*))?\}/.exec(pattern.substring(i));
+        if (!braces) return null;
+        const max = braces[2] === undefined ? Number(braces[1]) : braces[3] === '' ? Infinity : Number(braces[3]);
+        return { length: braces[0].length, repeats: max > 1, unbounded: max === Infinity };
+    };
+    
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        let inner = false;
+        let alternation = false;
+        if (char === '\\') {
+            if (/[1-9]/.test(pattern[i + 1] || '') || pattern.substring(i + 1, i + 3) === 'k<') return 'backreferences are not supported';
+            i++;
+        } else if (char === '[') {
+            for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+                if (pattern[i] === '\\') i++;
+            }
+        } else if (char === '(') {
+            groups.push({ quantified: false, alternation: false });
+            // `(?:`, `(?=`, `(?<name>` and the like are not quantifiers
+            if (pattern[i + 1] === '?') i++;
+            continue;
+        } else if (char === ')') {
+            // Unbalanced; RegExp reports it
+            if (groups.length === 1) return null;
+            const group = groups.pop()!;
+            const parent = groups[groups.length - 1];
+            inner = group.quantified;
+            alternation = group.alternation;
+            parent.quantified = parent.quantified || inner;
+            parent.alternation = parent.alternation || alternation;
+        } else if (char === '|') {
+            groups[groups.length - 1].alternation = true;
+            continue;
+        }
+        
+        const quantifier = quantifierAt(i + 1);
+        if (!quantifier) continue;
+        if (inner && quantifier.repeats) return 'a repeated group contains another quantifier';
+        // Checking whether the alternatives can match the same text is not worth it; any repeated choice is turned down
+        if (alternation && quantifier.repeats) return 'a repeated group contains alternatives';
+        if (quantifier.unbounded && ++unbounded > MAX_UNBOUNDED_QUANTIFIERS) return `more than ${MAX_UNBOUNDED_QUANTIFIERS} unbounded quantifiers`;
+        groups[groups.length - 1].quantified = true;
+        i += quantifier.length;
+        // Lazy quantifiers end in another `?`
+        if (pattern[i + 1] === '?') i++;
+    }
+    return null;
+}
+
+// Source files come before tests and docs, and shallow paths before deep ones, so the usual
+// places to look are searched first when the repository has more files than the limit
+function searchableFiles(index: RepoIndex, directory?: string): FileNode[] {
+    const prefix = (directory || '').replace(/^\/+|\/+$/g, '');
+    return index.fileTree
+        .filter(f => f.type === 'file' && !!f.sha)
+        .filter(f => f.size === undefined || f.size <= MAX_SEARCH_FILE_SIZE)
+        .filter(f => !UNSEARCHABLE_FILES.test(f.path) && !isInSkippedDirectory(f.path))
+        .filter(f => !prefix || f.path.startsWith(`${prefix}/`))
+        .sort((a, b) => searchPriority(a.path) - searchPriority(b.path) || a.path.localeCompare(b.path));
+}
+
+function searchPriority(path: string): number {
+    const isTest = /(^|\/)(tests?|__tests__|spec)\/|\.(test|spec)\.\w+$/.test(path);
+    const isDoc = /\.(md|mdx|txt|rst)$/i.test(path);
+    return (isTest ? 100 : 0) + (isDoc ? 50 : 0) + path.split('/').length;
+}
+
+// The host's index only covers the default branch and has its own query syntax, so it is used to pick
+// files rather than to match; null means the host cannot help and every candidate is searched
+async function narrowWithHostSearch(location: RepoLocation, index: RepoIndex, query: string, mode: CodeSearchMode, headers: Record<string, string>): Promise<Set<string> | null> {
+    const provider = providerFor(location);
+    if (!provider.searchCode || mode === 'regex' || index.ref !== index.defaultBranch) return null;
+    
+    try {
+        return new Set(await provider.searchCode(location, query, headers, MAX_REMOTE_RESULTS));
+    } catch (error) {
+        console.log("Host code search failed, searching locally:", error);
+        return null;
+    }
+}
+
+// Overlapping context windows around nearby matches are merged into one hit
+function findHits(path: string, content: string, matcher: RegExp, contextLines: number): CodeSearchHit[] {
+    const lines = content.split('\n');
+    const hits: CodeSearchHit[] = [];
+    
+    lines.forEach((line, i) => {
+        if (!matcher.test(line.substring(0, MAX_LINE_CHARS))) return;
+        
+        const lineNumber = i + 1;
+        const start = Math.max(1, lineNumber - contextLines);
+        const end = Math.min(lines.length, lineNumber + contextLines);
+        const previous = hits[hits.length - 1];
+        if (previous && start <= previous.endLine + 1) {
+            previous.endLine = end;
+            previous.matchLines.push(lineNumber);
+        } else {
+            hits.push({ path, startLine: start, endLine: end, matchLines: [lineNumber], content: '' });
+        }
+    });
+    
+    for (const hit of hits) {
+        hit.content = lines.slice(hit.startLine - 1, hit.endLine).join('\n');
+    }
+    return hits;
+}
+
+// Blobs not in the cache are fetched up to `maxFetches`; `unfetched` counts the ones left out. Request handlers
+// pass a small budget, while index jobs run in the background and read everything.
+async function readBlobs(location: RepoLocation, files: FileNode[], headers: Record<string, string>, env: Env, maxFetches: number): Promise<{ contents: Record<string, string>; fetched: number; unfetched: number }> {
+    const contents: Record<string, string> = {};
+    const withSha = files.filter(f => !!f.sha);
+    const cached = await loadBlobs(withSha.map(f => f.sha!), env);
+    
+    const missing: FileNode[] = [];
+    withSha.forEach((file, i) => {
+        const content = cached[i];
+        if (content !== null) {
+            contents[file.path] = content;
+        } else {
+            missing.push(file);
+        }
+    });
+    
+    const toFetch = missing.slice(0, Math.max(0, maxFetches));
+    for (let i = 0; i < toFetch.length; i += FETCH_CONCURRENCY) {
+        const batch = toFetch.slice(i, i + FETCH_CONCURRENCY);
+        const fetched = await Promise.all(batch.map(f => providerFor(location).fetchBlobContent(location, f.sha!, headers)));
+        await Promise.all(batch.map(async (file, j) => {
+            const content = fetched[j];
+            if (content === null) return;
+            contents[file.path] = content;
+            await saveBlob(file.sha!, content, env);
+        }));
+    }
+    
+    return { contents, fetched: toFetch.length, unfetched: missing.length - toFetch.length };
+}
+
+function formatSearchHits(result: CodeSearchResult): string {
+    const partial = result.partial ? `Only part of the repository was searched; ${result.filesSkipped} files were not read yet. Searching again covers more.` : '';
+    if (result.hits.length === 0) {
+        return [`No ${result.mode} matches for "${result.query}" in ${result.filesSearched} files`, partial].filter(Boolean).join('\n\n');
+    }
+    
+    const blocks = result.hits.map(hit => {
+        const matched = hit.matchLines.length === 1 ? `match on line ${hit.matchLines[0]}` : `matches on lines ${hit.matchLines.join(', ')}`;
+        return `--- ${hit.path} lines ${hit.startLine}-${hit.endLine} (${matched})\n${hit.content}`;
+    });
+    const notes = [
+        result.truncated ? `Only the first ${result.hits.length} matches are shown.` : '',
+        partial || (result.filesSkipped > 0 ? `${result.filesSkipped} files were not searched.` : '')
+    ].filter(Boolean);
+    return [...blocks, ...notes].join('\n\n');
+}
+
+export {
+    CodeSearchError,
+    searchCode,
+    readBlobs,
+    formatSearchHits
+};
@@ -0,0 +1,190 @@
+import { QuestionIntent, ContextSectionUsage, estimateTokens } from "./utils";
+
+type ContextSectionName = 'structure' | 'outlines' | 'connections' | 'dependencies' | 'setup' | 'readme' | 'contributing' | 'issues' | 'pullRequests' | 'files' | 'snippets' | 'tools';
+
+interface ContextUnit {
+    text: string;
+    // Printed once before the first unit of a run that is included, e.g. "### Good First Issues"
+    group?: string;
+    // Renders as much of the unit as fits in whole pieces (functions, paragraphs, lines), or null when not even one fits
+    shrink?: (maxTokens: number) => string | null;
+}
+
+interface ContextSection {
+    name: ContextSectionName;
+    heading: string;
+    units: ContextUnit[];
+}
+
+const ISSUE_QUESTION_PATTERNS = [
+    /^(find|list|show).*(issue|bug|pr|pull request)/i,
+    /good first issue/i,
+    /help wanted/i,
+    /how (do i|can i|to) contribute/i,
+    /contribution guide/i
+];
+
+// Relative share of the budget each section starts from. A section that needs less than its share
+// hands the rest to the others, so these only matter once the context no longer fits.
+const SECTION_WEIGHTS: Record<QuestionIntent, Record<ContextSectionName, number>> = {
+    code: { structure: 6, outlines: 8, connections: 4, dependencies: 3, setup: 3, readme: 5, contributing: 2, issues: 4, pullRequests: 2, files: 50, snippets: 18, tools: 13 },
+    issues: { structure: 5, outlines: 2, connections: 1, dependencies: 2, setup: 6, readme: 10, contributing: 15, issues: 40, pullRequests: 10, files: 5, snippets: 3, tools: 12 },
+    overview: { structure: 15, outlines: 8, connections: 3, dependencies: 10, setup: 12, readme: 30, contributing: 10, issues: 15, pullRequests: 5, files: 10, snippets: 8, tools: 7 }
+};
+
+function isIssueQuestion(question: string): boolean {
+    return ISSUE_QUESTION_PATTERNS.some(p => p.test(question));
+}
+
+function classifyIntent(question: string, needsCode: boolean): QuestionIntent {
+    if (isIssueQuestion(question)) return 'issues';
+    if (needsCode) return 'code';
+    if (/#\d+/.test(question)) return 'issues';
+    return 'overview';
+}
+
+function sectionTokens(section: ContextSection): number {
+    const groups = new Set(section.units.map(u => u.group).filter((g): g is string => !!g));
+    return estimateTokens(section.heading)
+        + section.units.reduce((sum, u) => sum + estimateTokens(u.text), 0)
+        + Array.from(groups).reduce((sum, g) => sum + estimateTokens(g), 0);
+}
+
+// Every section gets its weighted share of what is left; sections that need less than that get exactly
+// what they need, and the remainder is shared again among the rest until nobody is left under budget
+function allocateBudget(sections: ContextSection[], intent: QuestionIntent, limit: number): Map<ContextSectionName, number> {
+    const weights = SECTION_WEIGHTS[intent];
+    const allocation = new Map<ContextSectionName, number>();
+    let pending = sections.filter(s => s.units.length > 0);
+    let remaining = limit;
+    
+    while (pending.length > 0) {
+        const totalWeight = pending.reduce((sum, s) => sum + weights[s.name], 0);
+        const satisfied = pending.filter(s => sectionTokens(s) <= remaining * weights[s.name] / totalWeight);
+        
+        if (satisfied.length === 0) {
+            for (const section of pending) {
+                allocation.set(section.name, Math.floor(remaining * weights[section.name] / totalWeight));
+            }
+            break;
+        }
+        
+        for (const section of satisfied) {
+            const needed = sectionTokens(section);
+            allocation.set(section.name, needed);
+            remaining -= needed;
+        }
+        pending = pending.filter(s => !satisfied.includes(s));
+    }
+    
+    return allocation;
+}
+
+function fitSection(section: ContextSection, budget: number): { text: string; usage: ContextSectionUsage } {
+    const lines: string[] = [];
+    let used = estimateTokens(section.heading);
+    let included = 0;
+    let trimmed = 0;
+    let dropped = 0;
+    let currentGroup: string | undefined;
+    
+    section.units.forEach((unit, i) => {
+        const groupHeading = unit.group && unit.group !== currentGroup ? unit.group : null;
+        const available = budget - used - (groupHeading ? estimateTokens(groupHeading) : 0);
+        
+        let text: string | null = estimateTokens(unit.text) <= available ? unit.text : null;
+        if (text === null && unit.shrink) {
+            // Leave room for the units after this one, but never less than an even split
+            const later = section.units.slice(i + 1).reduce((sum, u) => sum + estimateTokens(u.text), 0);
+            const share = Math.max(available - later, Math.floor(available / (section.units.length - i)));
+            text = share > 0 ? unit.shrink(share) : null;
+            if (text !== null) trimmed++;
+        }
+        
+        if (text === null) {
+            dropped++;
+            return;
+        }
+        if (groupHeading) {
+            lines.push(groupHeading);
+            used += estimateTokens(groupHeading);
+            currentGroup = unit.group;
+        }
+        lines.push(text);
+        used += estimateTokens(text);
+        included++;
+    });
+    
+    return {
+        text: included > 0 ? [section.heading, ...lines].join('\n') : '',
+        usage: { section: section.name, budget, used: included > 0 ? used : 0, included, trimmed, dropped }
+    };
+}
+
+// Keeps whole pieces from the start while they fit; `render` gets the kept pieces and the ones left out
+function takePieces(pieces: string[], maxTokens: number, render: (kept: string[], omitted: string[]) => string): string | null {
+    let tokens = estimateTokens(render([], pieces));
+    let count = 0;
+    while (count < pieces.length && tokens + estimateTokens(pieces[count]) <= maxTokens) {
+        tokens += estimateTokens(pieces[count]);
+        count++;
+    }
+    return count > 0 ? render(pieces.slice(0, count), pieces.slice(count)) : null;
+}
+
+function splitMarkdownSections(text: string): string[] {
+    const sections: string[][] = [];
+    for (const line of text.split('\n')) {
+        if (sections.length === 0 || /^#{1,6}\s/.test(line)) {
+            sections.push([]);
+        }
+        sections[sections.length - 1].push(line);
+    }
+    return sections.map(s => s.join('\n')).filter(s => s.trim().length > 0);
+}
+
+function splitParagraphs(text: string): string[] {
+    return text.split(/\n\s*\n/).filter(p => p.trim().length > 0);
+}
+
+// Top-level declarations start at column 0 after a blank line or after the previous one closed,
+// which holds for most brace and indentation based languages
+function splitCodeBlocks(content: string): string[] {
+    const blocks: string[][] = [];
+    let current: string[] = [];
+    let previous = '';
+    
+    for (const line of content.split('\n')) {
+        const startsBlock = /^[^\s})\]]/.test(line) && (previous.trim() === '' || /^[})\]]/.test(previous));
+        if (startsBlock && current.some(l => l.trim() !== '')) {
+            blocks.push(current);
+            current = [];
+        }
+        current.push(line);
+        previous = line;
+    }
+    if (current.length > 0) {
+        blocks.push(current);
+    }
+    
+    return blocks.map(b => b.join('\n'));
+}
+
+function countLines(pieces: string[]): number {
+    return pieces.reduce((sum, p) => sum + p.split('\n').length, 0);
+}
+
+export {
+    isIssueQuestion,
+    classifyIntent,
+    allocateBudget,
+    fitSection,
+    takePieces,
+    splitMarkdownSections,
+    splitParagraphs,
+    splitCodeBlocks,
+    countLines,
+    ContextUnit,
+    ContextSection,
+    ContextSectionName
+};
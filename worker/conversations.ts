@@ -0,0 +1,71 @@
+import { Env, Viewer, Conversation, ConversationTurn, CONVERSATION_TTL, truncateText } from "./utils";
+
+const MAX_STORED_TURNS = 20;
+const MAX_HISTORY_TURNS = 5;
+const MAX_STORED_FILES = 10;
+
+async function loadConversation(id: string, env: Env): Promise<Conversation | null> {
+    const cached = await env.CACHE_KV.get(`conversation:${id}`);
+    if (cached) {
+        return JSON.parse(cached) as Conversation;
+    }
+    return null;
+}
+
+async function getOrCreateConversation(id: string | undefined, repoUrl: string, env: Env, viewer: Viewer): Promise<Conversation> {
+    if (id) {
+        const existing = await loadConversation(id, env);
+        // Conversations hold file contents, so they are only resumed by the user who started them
+        if (existing && existing.repoUrl === repoUrl && (existing.userId ?? null) === viewer.userId) {
+            return existing;
+        }
+    }
+    
+    const now = new Date().toISOString();
+    return {
+        id: crypto.randomUUID(),
+        repoUrl,
+        turns: [],
+        fileContents: {},
+        userId: viewer.userId,
+        createdAt: now,
+        updatedAt: now
+    };
+}
+
+async function saveTurn(conversation: Conversation, turn: ConversationTurn, files: Record<string, string>, env: Env): Promise<void> {
+    conversation.turns = [...conversation.turns, turn].slice(-MAX_STORED_TURNS);
+    
+    // Most recently used files win when the per-conversation file cache is full
+    const merged = { ...conversation.fileContents };
+    for (const [path, content] of Object.entries(files)) {
+        delete merged[path];
+        merged[path] = content;
+    }
+    const kept: Record<string, string> = {};
+    for (const [path, content] of Object.entries(merged).slice(-MAX_STORED_FILES)) {
+        kept[path] = content;
+    }
+    conversation.fileContents = kept;
+    conversation.updatedAt = new Date().toISOString();
+    
+    await env.CACHE_KV.put(`conversation:${conversation.id}`, JSON.stringify(conversation), { expirationTtl: CONVERSATION_TTL });
+}
+
+function summarizeHistory(conversation: Conversation): string {
+    const recent = conversation.turns.slice(-MAX_HISTORY_TURNS);
+    if (recent.length === 0) return '';
+    
+    const lines = recent.map((turn, i) => {
+        const files = turn.files.length > 0 ? `\nFiles viewed: ${turn.files.join(', ')}` : '';
+        return `${i + 1}. User: ${turn.question}\nAssistant: ${truncateText(turn.answer, 400).replace(/\n+/g, ' ')}${files}`;
+    });
+    
+    return lines.join('\n\n');
+}
+
+export {
+    getOrCreateConversation,
+    saveTurn,
+    summarizeHistory
+};
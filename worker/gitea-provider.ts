@@ -0,0 +1,364 @@
+import { FileNode, GitProvider, IssueInfo, IssueDetails, IssueTimelineEvent, LinkedPullRequest, PRInfo, PullRequestDetails, RepoLocation, RepoMetadata, decodeBase64, isInSkippedDirectory } from "./utils";
+import { GitHubError, NotFoundError, fetchOptional } from "./github";
+import { toIssueInfo, toPullRequestInfo, GitHubIssue, GitHubPullRequest } from "./github-provider";
+
+// Gitea (and Forgejo, which Codeberg runs) caps list pages at 50 items, except git trees which allow 1000
+const PAGE_SIZE = 50;
+const TREE_PAGE_SIZE = 1000;
+const MAX_TREE_PAGES = 10;
+const MAX_DETAIL_PAGES = 3;
+const MAX_REVIEWS = 5;
+// Threads whose comments are read while indexing, in the order the issue list returns them
+const MAX_COMMENTED_ISSUES = 10;
+
+function repoApi(location: RepoLocation): string {
+    return `${location.baseUrl}/api/v1/repos/${location.owner}/${location.repo}`;
+}
+
+// Source views look like `owner/repo/src/branch/main/docs`; `tag` and `commit` take the place of `branch` for other refs
+function parsePath(path: string): Pick<RepoLocation, 'owner' | 'repo' | 'ref' | 'path'> | null {
+    const match = /^([^/\s]+)\/([^/\s]+)(?:\/src\/(?:branch|tag|commit)\/(\S+))?/.exec(path);
+    if (!match) return null;
+    
+    const segments = match[3] ? match[3].split('/').filter(Boolean).map(decodeURIComponent) : [];
+    return {
+        owner: match[1],
+        repo: match[2].replace(/\.git$/, ''),
+        ref: segments[0] || null,
+        path: segments.slice(1).join('/') || null
+    };
+}
+
+async function fetchRepoMetadata(location: RepoLocation, headers: Record<string, string>): Promise<RepoMetadata> {
+    const metadata = await giteaFetch<{
+        name: string;
+        full_name: string;
+        description: string;
+        html_url: string;
+        default_branch: string;
+        language?: string;
+        topics?: string[] | null;
+        stars_count: number;
+        forks_count: number;
+        open_issues_count: number;
+        private: boolean;
+    }>(repoApi(location), headers);
+    
+    if (!metadata) {
+        throw new NotFoundError(`Repository ${location.owner}/${location.repo} was not found on ${location.baseUrl}. Check the URL, or set GITEA_TOKEN if it is private.`);
+    }
+    return {
+        name: metadata.name,
+        fullName: metadata.full_name,
+        description: metadata.description || null,
+        htmlUrl: metadata.html_url,
+        defaultBranch: metadata.default_branch,
+        language: metadata.language || null,
+        topics: metadata.topics || [],
+        stars: metadata.stars_count,
+        forks: metadata.forks_count,
+        openIssuesCount: metadata.open_issues_count,
+        private: metadata.private
+    };
+}
+
+async function resolveCommitSha(location: RepoLocation, ref: string, headers: Record<string, string>): Promise<string | null> {
+    const url = `${repoApi(location)}/commits?sha=${encodeURIComponent(ref)}&limit=1&stat=false&verification=false&files=false`;
+    try {
+        const commits = await giteaFetch<Array<{ sha: string }>>(url, headers);
+        return commits && commits.length > 0 ? commits[0].sha : null;
+    } catch (error) {
+        // Unknown refs come back as 422 and empty repositories as 409, as on GitHub
+        if (error instanceof GitHubError && (error.status === 422 || error.status === 409)) {
+            return null;
+        }
+        throw error;
+    }
+}
+
+async function fetchFileTree(location: RepoLocation, treeish: string, headers: Record<string, string>): Promise<{ sha: string | null; nodes: FileNode[] }> {
+    const nodes: FileNode[] = [];
+    let sha: string | null = null;
+    
+    for (let page = 1; page <= MAX_TREE_PAGES; page++) {
+        const url = `${repoApi(location)}/git/trees/${encodeURIComponent(treeish)}?recursive=true&per_page=${TREE_PAGE_SIZE}&page=${page}`;
+        let data: { sha: string; tree: Array<{ path: string; type: string; sha: string; size?: number }> | null; truncated: boolean } | null;
+        try {
+            data = await giteaFetch(url, headers);
+        } catch (error) {
+            if (error instanceof GitHubError && error.status === 409) break;
+            throw error;
+        }
+        if (!data) break;
+        
+        sha = data.sha;
+        for (const entry of data.tree || []) {
+            if (entry.type === 'commit' || isInSkippedDirectory(entry.path)) continue;
+            nodes.push({ path: entry.path, type: entry.type === 'tree' ? 'dir' : 'file', size: entry.size, sha: entry.sha });
+        }
+        if (!data.truncated) break;
+        if (page === MAX_TREE_PAGES) {
+            console.log(`Tree for ${location.owner}/${location.repo} has more than ${MAX_TREE_PAGES} pages, listing truncated`);
+        }
+    }
+    
+    return { sha, nodes };
+}
+
+async function fetchFileContent(location: RepoLocation, path: string, headers: Record<string, string>, ref?: string): Promise<string | null> {
+    const url = `${repoApi(location)}/contents/${path}${ref ? `?ref=${encodeURIComponent(ref)}` : ''}`;
+    const data = await giteaFetch<{ content?: string; encoding?: string }>(url, headers);
+    
+    if (data?.content && data.encoding === 'base64') {
+        return decodeBase64(data.content);
+    }
+    return null;
+}
+
+async function fetchBlobContent(location: RepoLocation, sha: string, headers: Record<string, string>): Promise<string | null> {
+    const data = await giteaFetch<{ content?: string; encoding?: string }>(`${repoApi(location)}/git/blobs/${sha}`, headers);
+    
+    if (data?.content && data.encoding === 'base64') {
+        return decodeBase64(data.content);
+    }
+    return null;
+}
+
+async function fetchLanguages(location: RepoLocation, headers: Record<string, string>): Promise<Record<string, number>> {
+    const data = await giteaFetch<Record<string, number>>(`${repoApi(location)}/languages`, headers);
+    return data || {};
+}
+
+async function fetchIssues(location: RepoLocation, headers: Record<string, string>, limit: number, since?: string): Promise<IssueInfo[]> {
+    const filter = since ? `state=all&since=${encodeURIComponent(since)}` : 'state=open';
+    const data = await giteaFetch<GitHubIssue[]>(`${repoApi(location)}/issues?${filter}&type=issues&limit=${Math.min(limit, PAGE_SIZE)}`, headers);
+    
+    if (!data) return [];
+    
+    const issues = data.filter(item => !item.pull_request);
+    const commented = issues.filter(issue => issue.comments > 0).slice(0, MAX_COMMENTED_ISSUES);
+    const comments = await Promise.all(commented.map(issue =>
+        giteaFetch<Array<{ body: string | null }>>(`${repoApi(location)}/issues/${issue.number}/comments`, headers)
+    ));
+    const commentsByIssue = new Map(commented.map((issue, i) => [issue.number, (comments[i] || []).map(c => c.body || '')]));
+    
+    return issues.map(issue => toIssueInfo(issue, commentsByIssue.get(issue.number)));
+}
+
+// Like GitHub, the pulls list has no `since` filter, so sort by update time and stop at the cut-off
+async function fetchPullRequests(location: RepoLocation, headers: Record<string, string>, limit: number, since?: string): Promise<PRInfo[]> {
+    const filter = since ? 'state=all' : 'state=open';
+    const data = await giteaFetch<GitHubPullRequest[]>(`${repoApi(location)}/pulls?${filter}&sort=recentupdate&limit=${Math.min(limit, PAGE_SIZE)}`, headers);
+    
+    if (!data) return [];
+    
+    const cutoff = since ? new Date(since).getTime() : 0;
+    
+    return data
+        .filter(pr => new Date(pr.updated_at).getTime() >= cutoff)
+        .map(toPullRequestInfo);
+}
+
+async function fetchAllPages<T>(url: string, headers: Record<string, string>): Promise<T[]> {
+    const items: T[] = [];
+    for (let page = 1; page <= MAX_DETAIL_PAGES; page++) {
+        const data = await giteaFetch<T[]>(`${url}${url.includes('?') ? '&' : '?'}limit=${PAGE_SIZE}&page=${page}`, headers);
+        if (!data) break;
+        items.push(...data);
+        if (data.length < PAGE_SIZE) break;
+    }
+    return items;
+}
+
+interface GiteaTimelineEvent {
+    type: string;
+    user?: { login: string } | null;
+    created_at: string;
+    label?: { name: string } | null;
+    assignee?: { login: string } | null;
+    removed_assignee?: boolean;
+    old_title?: string;
+    ref_commit_sha?: string;
+    ref_issue?: {
+        number: number;
+        title: string;
+        state: string;
+        html_url: string;
+        pull_request?: { merged: boolean } | null;
+        repository?: { full_name: string };
+    } | null;
+}
+
+async function fetchIssueDetails(location: RepoLocation, number: number, headers: Record<string, string>): Promise<IssueDetails | null> {
+    const base = `${repoApi(location)}/issues/${number}`;
+    const [issue, comments, timeline] = await Promise.all([
+        giteaFetch<GitHubIssue & { closed_at: string | null }>(base, headers),
+        fetchAllPages<{ user: { login: string }; body: string; created_at: string; html_url: string }>(`${base}/comments`, headers),
+        // The timeline endpoint only exists on Gitea 1.17 and later
+        fetchAllPages<GiteaTimelineEvent>(`${base}/timeline`, headers).catch(() => [] as GiteaTimelineEvent[])
+    ]);
+    
+    if (!issue) return null;
+    
+    const linkedPullRequests: LinkedPullRequest[] = [];
+    for (const event of timeline) {
+        const source = event.ref_issue;
+        if (event.type !== 'pull_ref' || !source?.pull_request) continue;
+        if (linkedPullRequests.some(pr => pr.url === source.html_url)) continue;
+        linkedPullRequests.push({
+            number: source.number,
+            title: source.title,
+            state: source.state,
+            merged: source.pull_request.merged,
+            url: source.html_url,
+            repository: source.repository?.full_name || `${location.owner}/${location.repo}`
+        });
+    }
+    
+    return {
+        issue: {
+            number: issue.number,
+            title: issue.title,
+            body: issue.body,
+            state: issue.state,
+            labels: issue.labels.map(l => l.name),
+            author: issue.user.login,
+            createdAt: issue.created_at,
+            commentsCount: issue.comments,
+            url: issue.html_url
+        },
+        isPullRequest: Boolean(issue.pull_request),
+        assignees: (issue.assignees || []).map(a => a.login),
+        closedAt: issue.closed_at,
+        comments: comments.map(c => ({ author: c.user.login, body: c.body, createdAt: c.created_at, url: c.html_url })),
+        timeline: timeline
+            .map(describeTimelineEvent)
+            .filter((event): event is IssueTimelineEvent => event !== null),
+        linkedPullRequests
+    };
+}
+
+function describeTimelineEvent(event: GiteaTimelineEvent): IssueTimelineEvent | null {
+    let detail: string;
+    switch (event.type) {
+        case 'pull_ref':
+        case 'issue_ref':
+        case 'comment_ref': {
+            const source = event.ref_issue;
+            if (!source) return null;
+            detail = `referenced from ${source.pull_request ? 'PR' : 'issue'} #${source.number} "${source.title}"`;
+            break;
+        }
+        case 'commit_ref':
+            detail = event.ref_commit_sha ? `referenced in commit ${event.ref_commit_sha.substring(0, 7)}` : 'referenced in a commit';
+            break;
+        case 'close':
+            detail = 'closed';
+            break;
+        case 'reopen':
+            detail = 'reopened';
+            break;
+        case 'assignees':
+            detail = event.removed_assignee ? `unassigned @${event.assignee?.login}` : `assigned to @${event.assignee?.login}`;
+            break;
+        case 'label':
+            detail = `labeled "${event.label?.name}"`;
+            break;
+        case 'change_title':
+            detail = `renamed from "${event.old_title}"`;
+            break;
+        default:
+            return null;
+    }
+    return {
+        event: event.type,
+        actor: event.user?.login || null,
+        createdAt: event.created_at,
+        detail
+    };
+}
+
+async function fetchPullRequestDiff(location: RepoLocation, number: number, headers: Record<string, string>): Promise<string | null> {
+    return giteaFetch<string>(`${repoApi(location)}/pulls/${number}.diff`, headers, { accept: 'text/plain', responseType: 'text' });
+}
+
+async function fetchPullRequestDetails(location: RepoLocation, number: number, headers: Record<string, string>): Promise<PullRequestDetails | null> {
+    const base = repoApi(location);
+    const pr = await giteaFetch<GitHubPullRequest & {
+        merged: boolean;
+        mergeable: boolean;
+        additions?: number;
+        deletions?: number;
+        head: { sha: string; ref: string };
+        base: { ref: string };
+    }>(`${base}/pulls/${number}`, headers);
+    
+    if (!pr) return null;
+    
+    const [files, reviews, status] = await Promise.all([
+        fetchAllPages<{ filename: string; status: string; additions: number; deletions: number; previous_filename?: string }>(`${base}/pulls/${number}/files`, headers),
+        fetchAllPages<{ id: number }>(`${base}/pulls/${number}/reviews`, headers),
+        giteaFetch<{ statuses: Array<{ context: string; status: string; target_url: string | null }> | null }>(`${base}/commits/${pr.head.sha}/status`, headers)
+    ]);
+    
+    // Inline comments hang off individual reviews, so only the most recent ones are read
+    const reviewComments = (await Promise.all(reviews.slice(-MAX_REVIEWS).map(review =>
+        giteaFetch<Array<{ user: { login: string }; path: string; position: number; original_position: number; body: string; created_at: string }>>(
+            `${base}/pulls/${number}/reviews/${review.id}/comments`, headers)
+    ))).reduce<Array<{ user: { login: string }; path: string; position: number; original_position: number; body: string; created_at: string }>>((all, comments) => all.concat(comments || []), []);
+    
+    const changedFiles = files.map(f => ({
+        path: f.filename,
+        status: f.status,
+        additions: f.additions,
+        deletions: f.deletions,
+        previousPath: f.previous_filename || null
+    }));
+    
+    return {
+        pullRequest: {
+            ...toPullRequestInfo(pr),
+            body: pr.body,
+            state: pr.merged ? 'merged' : pr.state
+        },
+        headSha: pr.head.sha,
+        headRef: pr.head.ref,
+        baseRef: pr.base.ref,
+        additions: pr.additions ?? changedFiles.reduce((sum, f) => sum + f.additions, 0),
+        deletions: pr.deletions ?? changedFiles.reduce((sum, f) => sum + f.deletions, 0),
+        mergeableState: pr.mergeable ? 'clean' : 'dirty',
+        files: changedFiles,
+        reviewComments: reviewComments.map(c => ({
+            author: c.user.login,
+            path: c.path,
+            line: c.position || c.original_position || null,
+            body: c.body,
+            createdAt: c.created_at
+        })),
+        checks: (status?.statuses || []).map(s => ({ name: s.context, status: 'completed', conclusion: s.status, url: s.target_url }))
+    };
+}
+
+function giteaFetch<T>(url: string, headers: Record<string, string>, options: { accept?: string; responseType?: 'json' | 'text' } = {}): Promise<T | null> {
+    return fetchOptional<T>(url, headers, { accept: 'application/json', ...options });
+}
+
+const giteaProvider: GitProvider = {
+    kind: 'gitea',
+    parsePath,
+    fetchRepoMetadata,
+    resolveCommitSha,
+    fetchFileTree,
+    fetchFileContent,
+    fetchBlobContent,
+    fetchLanguages,
+    fetchIssues,
+    fetchPullRequests,
+    fetchIssueDetails,
+    fetchPullRequestDiff,
+    fetchPullRequestDetails
+};
+
+export {
+    giteaProvider
+};
@@ -0,0 +1,530 @@
+import { FileNode, GitProvider, IssueInfo, IssueDetails, IssueTimelineEvent, LinkedPullRequest, PRInfo, PullRequestDetails, PullRequestCheck, RepoLocation, RepoMetadata, truncateText, decodeBase64, isInSkippedDirectory, shouldSkipDirectory } from "./utils";
+import { GitHubError, NotFoundError, githubRequest, fetchOptional } from "./github";
+import { extractIssueSignals } from "./issue-mapping";
+
+const API_BASE = 'https://api.github.com';
+const MAX_TREE_FALLBACK_REQUESTS = 50;
+const MAX_DETAIL_PAGES = 3;
+// Threads whose comments are read while indexing, most recently updated first
+const MAX_COMMENTED_ISSUES = 10;
+const MAX_SIGNAL_COMMENTS = 30;
+
+function repoApi(location: RepoLocation): string {
+    return `${API_BASE}/repos/${location.owner}/${location.repo}`;
+}
+
+function parsePath(path: string): Pick<RepoLocation, 'owner' | 'repo' | 'ref' | 'path'> | null {
+    const match = /^([^/\s]+)\/([^/\s]+)(?:\/(tree|blob)\/(\S+))?/.exec(path);
+    if (!match) return null;
+    
+    const location = { owner: match[1], repo: match[2].replace(/\.git$/, ''), ref: null as string | null, path: null as string | null };
+    if (!match[3] || !match[4]) {
+        return location;
+    }
+    
+    const segments = match[4].split('/').filter(Boolean).map(decodeURIComponent);
+    // A blob URL points at a file; scope the index to the directory containing it
+    if (match[3] === 'blob') {
+        segments.pop();
+    }
+    
+    location.ref = segments[0] || null;
+    location.path = segments.slice(1).join('/') || null;
+    return location;
+}
+
+async function fetchRepoMetadata(location: RepoLocation, headers: Record<string, string>): Promise<RepoMetadata> {
+    const metadata = await fetchOptional<{
+        name: string;
+        full_name: string;
+        description: string | null;
+        html_url: string;
+        default_branch: string;
+        language: string | null;
+        topics: string[];
+        stargazers_count: number;
+        forks: number;
+        open_issues_count: number;
+        private: boolean;
+    }>(repoApi(location), headers);
+    
+    if (!metadata) {
+        throw new NotFoundError(`Repository ${location.owner}/${location.repo} was not found. Check the URL, or make sure the repository is public.`);
+    }
+    return {
+        name: metadata.name,
+        fullName: metadata.full_name,
+        description: metadata.description,
+        htmlUrl: metadata.html_url,
+        defaultBranch: metadata.default_branch,
+        language: metadata.language,
+        topics: metadata.topics || [],
+        stars: metadata.stargazers_count,
+        forks: metadata.forks,
+        openIssuesCount: metadata.open_issues_count,
+        private: metadata.private
+    };
+}
+
+async function fetchFileContent(location: RepoLocation, path: string, headers: Record<string, string>, ref?: string): Promise<string | null> {
+    const url = `${repoApi(location)}/contents/${path}${ref ? `?ref=${encodeURIComponent(ref)}` : ''}`;
+    const data = await fetchOptional<{ content?: string; encoding?: string }>(url, headers);
+    
+    if (data?.content && data.encoding === 'base64') {
+        return decodeBase64(data.content);
+    }
+    return null;
+}
+
+async function fetchBlobContent(location: RepoLocation, sha: string, headers: Record<string, string>): Promise<string | null> {
+    const data = await fetchOptional<{ content?: string; encoding?: string }>(`${repoApi(location)}/git/blobs/${sha}`, headers);
+    
+    if (data?.content && data.encoding === 'base64') {
+        return decodeBase64(data.content);
+    }
+    return null;
+}
+
+async function resolveCommitSha(location: RepoLocation, ref: string, headers: Record<string, string>): Promise<string | null> {
+    const url = `${repoApi(location)}/commits/${encodeURIComponent(ref)}`;
+    try {
+        const sha = (await githubRequest<string>(url, headers, { accept: 'application/vnd.github.sha', responseType: 'text' })).trim();
+        return /^[0-9a-f]{40}$/i.test(sha) ? sha : null;
+    } catch (error) {
+        // GitHub answers 422 rather than 404 for refs that do not exist, and 409 for empty repositories
+        if (error instanceof GitHubError && (error.code === 'not_found' || error.status === 422 || error.status === 409)) {
+            return null;
+        }
+        throw error;
+    }
+}
+
+interface GitTreeResponse {
+    sha: string;
+    tree: Array<{ path: string; type: 'blob' | 'tree' | 'commit'; sha: string; size?: number }>;
+    truncated: boolean;
+}
+
+async function fetchGitTree(location: RepoLocation, treeSha: string, headers: Record<string, string>, recursive: boolean): Promise<GitTreeResponse | null> {
+    const url = `${repoApi(location)}/git/trees/${encodeURIComponent(treeSha)}${recursive ? '?recursive=1' : ''}`;
+    return fetchOptional<GitTreeResponse>(url, headers);
+}
+
+async function fetchFileTree(location: RepoLocation, treeish: string, headers: Record<string, string>): Promise<{ sha: string | null; nodes: FileNode[] }> {
+    let data: GitTreeResponse | null;
+    try {
+        data = await fetchGitTree(location, treeish, headers, true);
+    } catch (error) {
+        if (error instanceof GitHubError && error.status === 409) {
+            return { sha: null, nodes: [] };
+        }
+        throw error;
+    }
+    if (!data) return { sha: null, nodes: [] };
+    
+    if (!data.truncated) {
+        return { sha: data.sha, nodes: toFileNodes(data.tree, '') };
+    }
+    
+    // The recursive listing is capped by GitHub; walk the tree level by level instead,
+    // asking for each subtree recursively and only splitting further when that is truncated too.
+    console.log(`Tree for ${location.owner}/${location.repo} truncated, falling back to per-directory fetching`);
+    const root = await fetchGitTree(location, data.sha, headers, false);
+    if (!root) return { sha: data.sha, nodes: toFileNodes(data.tree, '') };
+    
+    const nodes: FileNode[] = [];
+    const pending: Array<{ prefix: string; sha: string }> = [];
+    let budget = MAX_TREE_FALLBACK_REQUESTS;
+    
+    const addLevel = (entries: GitTreeResponse['tree'], prefix: string) => {
+        for (const node of toFileNodes(entries, prefix)) {
+            nodes.push(node);
+        }
+        for (const entry of entries) {
+            const path = prefix + entry.path;
+            if (entry.type === 'tree' && !shouldSkipDirectory(path)) {
+                pending.push({ prefix: path + '/', sha: entry.sha });
+            }
+        }
+    };
+    
+    addLevel(root.tree, '');
+    
+    while (pending.length > 0 && budget > 0) {
+        const batch = pending.splice(0, Math.min(budget, 10));
+        budget -= batch.length;
+        
+        const results = await Promise.all(batch.map(dir => fetchGitTree(location, dir.sha, headers, true)));
+        
+        for (let i = 0; i < batch.length; i++) {
+            const subtree = results[i];
+            if (!subtree) continue;
+            
+            if (!subtree.truncated) {
+                nodes.push(...toFileNodes(subtree.tree, batch[i].prefix));
+                continue;
+            }
+            
+            const level = await fetchGitTree(location, batch[i].sha, headers, false);
+            budget--;
+            if (level) {
+                addLevel(level.tree, batch[i].prefix);
+            }
+        }
+    }
+    
+    if (pending.length > 0) {
+        console.log(`Tree fallback request budget exhausted, ${pending.length} directories not listed`);
+    }
+    
+    return { sha: data.sha, nodes };
+}
+
+function toFileNodes(entries: GitTreeResponse['tree'], prefix: string): FileNode[] {
+    return entries
+        .filter(entry => entry.type !== 'commit')
+        .filter(entry => !isInSkippedDirectory(prefix + entry.path))
+        .map(entry => ({
+            path: prefix + entry.path,
+            type: entry.type === 'tree' ? 'dir' as const : 'file' as const,
+            size: entry.size,
+            sha: entry.sha
+        }));
+}
+
+// Gitea's API returns issues and pull requests in this same shape, so its provider reuses the mappers below
+interface GitHubIssue {
+    number: number;
+    title: string;
+    body: string | null;
+    state: string;
+    labels: Array<{ name: string }>;
+    assignees?: Array<{ login: string }> | null;
+    user: { login: string };
+    created_at: string;
+    comments: number;
+    html_url: string;
+    pull_request?: unknown;
+}
+
+interface GitHubPullRequest {
+    number: number;
+    title: string;
+    body: string | null;
+    state: string;
+    user: { login: string };
+    created_at: string;
+    updated_at: string;
+    html_url: string;
+    draft?: boolean;
+}
+
+async function fetchIssues(location: RepoLocation, headers: Record<string, string>, limit: number, since?: string): Promise<IssueInfo[]> {
+    const filter = since ? `state=all&since=${encodeURIComponent(since)}` : 'state=open';
+    const data = await fetchOptional<GitHubIssue[]>(`${repoApi(location)}/issues?${filter}&per_page=${limit}&sort=updated`, headers);
+    
+    if (!data) return [];
+    
+    const issues = data.filter(item => !item.pull_request);
+    // A reply often names the failing file when the report itself does not
+    const commented = issues.filter(issue => issue.comments > 0).slice(0, MAX_COMMENTED_ISSUES);
+    const comments = await Promise.all(commented.map(issue =>
+        fetchOptional<Array<{ body: string | null }>>(`${repoApi(location)}/issues/${issue.number}/comments?per_page=${MAX_SIGNAL_COMMENTS}`, headers)
+    ));
+    const commentsByIssue = new Map(commented.map((issue, i) => [issue.number, (comments[i] || []).map(c => c.body || '')]));
+    
+    return issues.map(issue => toIssueInfo(issue, commentsByIssue.get(issue.number)));
+}
+
+// Shared with the webhook handler, whose payloads carry the same issue shape as the REST API
+function toIssueInfo(issue: GitHubIssue, comments: string[] = []): IssueInfo {
+    return {
+        number: issue.number,
+        title: issue.title,
+        body: issue.body ? truncateText(issue.body, 500) : null,
+        state: issue.state,
+        labels: issue.labels.map(l => l.name),
+        assignees: (issue.assignees || []).map(a => a.login),
+        author: issue.user.login,
+        createdAt: issue.created_at,
+        commentsCount: issue.comments,
+        url: issue.html_url,
+        // Stack traces usually sit past the stored excerpt, so signals come from the full body and comments
+        signals: extractIssueSignals([issue.title, issue.body || '', ...comments].join('\n'))
+    };
+}
+
+// The pulls API has no `since` filter, so sort by update time and stop at the cut-off instead
+async function fetchPullRequests(location: RepoLocation, headers: Record<string, string>, limit: number, since?: string): Promise<PRInfo[]> {
+    const filter = since ? 'state=all&direction=desc' : 'state=open';
+    const data = await fetchOptional<GitHubPullRequest[]>(`${repoApi(location)}/pulls?${filter}&per_page=${limit}&sort=updated`, headers);
+    
+    if (!data) return [];
+    
+    const cutoff = since ? new Date(since).getTime() : 0;
+    
+    return data
+        .filter(pr => new Date(pr.updated_at).getTime() >= cutoff)
+        .map(toPullRequestInfo);
+}
+
+function toPullRequestInfo(pr: GitHubPullRequest): PRInfo {
+    return {
+        number: pr.number,
+        title: pr.title,
+        body: pr.body ? truncateText(pr.body, 300) : null,
+        state: pr.state,
+        author: pr.user.login,
+        createdAt: pr.created_at,
+        url: pr.html_url,
+        draft: Boolean(pr.draft)
+    };
+}
+
+async function fetchAllPages<T>(url: string, headers: Record<string, string>): Promise<T[]> {
+    const items: T[] = [];
+    for (let page = 1; page <= MAX_DETAIL_PAGES; page++) {
+        const data = await fetchOptional<T[]>(`${url}${url.includes('?') ? '&' : '?'}per_page=100&page=${page}`, headers);
+        if (!data) break;
+        items.push(...data);
+        if (data.length < 100) break;
+    }
+    return items;
+}
+
+interface GitHubTimelineEvent {
+    event: string;
+    actor?: { login: string } | null;
+    created_at?: string;
+    commit_id?: string | null;
+    label?: { name: string };
+    assignee?: { login: string };
+    rename?: { from: string; to: string };
+    source?: {
+        issue?: {
+            number: number;
+            title: string;
+            state: string;
+            html_url: string;
+            pull_request?: { merged_at: string | null };
+            repository?: { full_name: string };
+        };
+    };
+}
+
+async function fetchIssueDetails(location: RepoLocation, number: number, headers: Record<string, string>): Promise<IssueDetails | null> {
+    const base = `${repoApi(location)}/issues/${number}`;
+    const [issue, comments, timeline] = await Promise.all([
+        fetchOptional<{
+            number: number;
+            title: string;
+            body: string | null;
+            state: string;
+            labels: Array<{ name: string }>;
+            user: { login: string };
+            assignees: Array<{ login: string }>;
+            created_at: string;
+            closed_at: string | null;
+            comments: number;
+            html_url: string;
+            pull_request?: unknown;
+        }>(base, headers),
+        fetchAllPages<{ user: { login: string }; body: string; created_at: string; html_url: string }>(`${base}/comments`, headers),
+        fetchAllPages<GitHubTimelineEvent>(`${base}/timeline`, headers)
+    ]);
+    
+    if (!issue) return null;
+    
+    const linkedPullRequests: LinkedPullRequest[] = [];
+    for (const event of timeline) {
+        const source = event.source?.issue;
+        if (event.event !== 'cross-referenced' || !source?.pull_request) continue;
+        if (linkedPullRequests.some(pr => pr.url === source.html_url)) continue;
+        linkedPullRequests.push({
+            number: source.number,
+            title: source.title,
+            state: source.state,
+            merged: Boolean(source.pull_request.merged_at),
+            url: source.html_url,
+            repository: source.repository?.full_name || `${location.owner}/${location.repo}`
+        });
+    }
+    
+    return {
+        issue: {
+            number: issue.number,
+            title: issue.title,
+            body: issue.body,
+            state: issue.state,
+            labels: issue.labels.map(l => l.name),
+            author: issue.user.login,
+            createdAt: issue.created_at,
+            commentsCount: issue.comments,
+            url: issue.html_url
+        },
+        isPullRequest: Boolean(issue.pull_request),
+        assignees: issue.assignees.map(a => a.login),
+        closedAt: issue.closed_at,
+        comments: comments.map(c => ({ author: c.user.login, body: c.body, createdAt: c.created_at, url: c.html_url })),
+        timeline: timeline
+            .map(describeTimelineEvent)
+            .filter((event): event is IssueTimelineEvent => event !== null),
+        linkedPullRequests
+    };
+}
+
+function describeTimelineEvent(event: GitHubTimelineEvent): IssueTimelineEvent | null {
+    let detail: string;
+    switch (event.event) {
+        case 'cross-referenced': {
+            const source = event.source?.issue;
+            if (!source) return null;
+            detail = `referenced from ${source.pull_request ? 'PR' : 'issue'} #${source.number} "${source.title}"`;
+            break;
+        }
+        case 'referenced':
+            detail = event.commit_id ? `referenced in commit ${event.commit_id.substring(0, 7)}` : 'referenced in a commit';
+            break;
+        case 'closed':
+            detail = event.commit_id ? `closed by commit ${event.commit_id.substring(0, 7)}` : 'closed';
+            break;
+        case 'reopened':
+            detail = 'reopened';
+            break;
+        case 'assigned':
+            detail = `assigned to @${event.assignee?.login}`;
+            break;
+        case 'unassigned':
+            detail = `unassigned @${event.assignee?.login}`;
+            break;
+        case 'labeled':
+            detail = `labeled "${event.label?.name}"`;
+            break;
+        case 'renamed':
+            detail = `renamed from "${event.rename?.from}"`;
+            break;
+        default:
+            return null;
+    }
+    return {
+        event: event.event,
+        actor: event.actor?.login || null,
+        createdAt: event.created_at || '',
+        detail
+    };
+}
+
+async function fetchPullRequestDiff(location: RepoLocation, number: number, headers: Record<string, string>): Promise<string | null> {
+    return fetchOptional<string>(`${repoApi(location)}/pulls/${number}`, headers, { accept: 'application/vnd.github.diff', responseType: 'text' });
+}
+
+async function fetchPullRequestDetails(location: RepoLocation, number: number, headers: Record<string, string>): Promise<PullRequestDetails | null> {
+    const base = repoApi(location);
+    const pr = await fetchOptional<{
+        number: number;
+        title: string;
+        body: string | null;
+        state: string;
+        user: { login: string };
+        created_at: string;
+        html_url: string;
+        draft: boolean;
+        merged: boolean;
+        mergeable_state?: string;
+        additions: number;
+        deletions: number;
+        changed_files: number;
+        head: { sha: string; ref: string };
+        base: { ref: string };
+    }>(`${base}/pulls/${number}`, headers);
+    
+    if (!pr) return null;
+    
+    const [files, reviewComments, checkRuns, status] = await Promise.all([
+        fetchAllPages<{ filename: string; status: string; additions: number; deletions: number; previous_filename?: string }>(`${base}/pulls/${number}/files`, headers),
+        fetchAllPages<{ user: { login: string }; path: string; line: number | null; original_line: number | null; body: string; created_at: string }>(`${base}/pulls/${number}/comments`, headers),
+        fetchOptional<{ check_runs: Array<{ name: string; status: string; conclusion: string | null; html_url: string }> }>(`${base}/commits/${pr.head.sha}/check-runs?per_page=100`, headers),
+        fetchOptional<{ state: string; statuses: Array<{ context: string; state: string; target_url: string | null }> }>(`${base}/commits/${pr.head.sha}/status`, headers)
+    ]);
+    
+    const checks: PullRequestCheck[] = [
+        ...(checkRuns?.check_runs || []).map(run => ({ name: run.name, status: run.status, conclusion: run.conclusion, url: run.html_url })),
+        ...(status?.statuses || []).map(s => ({ name: s.context, status: 'completed', conclusion: s.state, url: s.target_url }))
+    ];
+    
+    return {
+        pullRequest: {
+            number: pr.number,
+            title: pr.title,
+            body: pr.body,
+            state: pr.merged ? 'merged' : pr.state,
+            author: pr.user.login,
+            createdAt: pr.created_at,
+            url: pr.html_url,
+            draft: pr.draft
+        },
+        headSha: pr.head.sha,
+        headRef: pr.head.ref,
+        baseRef: pr.base.ref,
+        additions: pr.additions,
+        deletions: pr.deletions,
+        mergeableState: pr.mergeable_state || null,
+        files: files.map(f => ({
+            path: f.filename,
+            status: f.status,
+            additions: f.additions,
+            deletions: f.deletions,
+            previousPath: f.previous_filename || null
+        })),
+        reviewComments: reviewComments.map(c => ({
+            author: c.user.login,
+            path: c.path,
+            line: c.line ?? c.original_line,
+            body: c.body,
+            createdAt: c.created_at
+        })),
+        checks
+    };
+}
+
+async function fetchLanguages(location: RepoLocation, headers: Record<string, string>): Promise<Record<string, number>> {
+    const data = await fetchOptional<Record<string, number>>(`${repoApi(location)}/languages`, headers);
+    return data || {};
+}
+
+// Code search needs an authenticated request and is rate limited separately (10 requests a minute),
+// so callers should be ready to do without it
+async function searchCode(location: RepoLocation, query: string, headers: Record<string, string>, limit: number): Promise<string[]> {
+    const scope = `repo:${location.owner}/${location.repo}${location.path ? ` path:${location.path}` : ''}`;
+    const q = `"${query.replace(/"/g, '')}" ${scope}`;
+    const data = await githubRequest<{ items: Array<{ path: string }> }>(
+        `${API_BASE}/search/code?q=${encodeURIComponent(q)}&per_page=${Math.min(limit, 100)}`,
+        headers
+    );
+    return data.items.map(item => item.path);
+}
+
+const githubProvider: GitProvider = {
+    kind: 'github',
+    parsePath,
+    fetchRepoMetadata,
+    resolveCommitSha,
+    fetchFileTree,
+    fetchFileContent,
+    fetchBlobContent,
+    fetchLanguages,
+    fetchIssues,
+    fetchPullRequests,
+    fetchIssueDetails,
+    fetchPullRequestDiff,
+    fetchPullRequestDetails,
+    searchCode
+};
+
+export {
+    githubProvider,
+    toIssueInfo,
+    toPullRequestInfo,
+    GitHubIssue,
+    GitHubPullRequest
+};
@@ -0,0 +1,270 @@
+type GitHubErrorCode = 'rate_limited' | 'not_found' | 'unauthorized' | 'upstream_error';
+
+class GitHubError extends Error {
+    readonly status: number;
+    readonly code: GitHubErrorCode;
+    
+    constructor(message: string, status: number, code: GitHubErrorCode = 'upstream_error') {
+        super(message);
+        this.name = 'GitHubError';
+        this.status = status;
+        this.code = code;
+    }
+}
+
+class RateLimitError extends GitHubError {
+    readonly resetAt: string | null;
+    readonly retryAfterSeconds: number | null;
+    
+    constructor(resetAt: string | null, retryAfterSeconds: number | null) {
+        const when = resetAt
+            ? ` Try again after ${new Date(resetAt).toUTCString()}.`
+            : retryAfterSeconds !== null ? ` Try again in ${retryAfterSeconds} seconds.` : '';
+        super(`GitHub API rate limit exceeded.${when}`, 429, 'rate_limited');
+        this.name = 'RateLimitError';
+        this.resetAt = resetAt;
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+}
+
+class NotFoundError extends GitHubError {
+    constructor(message: string = 'The requested GitHub resource was not found. Check the URL, or make sure the repository is public.') {
+        super(message, 404, 'not_found');
+        this.name = 'NotFoundError';
+    }
+}
+
+class UnauthorizedError extends GitHubError {
+    constructor(message: string = 'GitHub rejected the access token. Check that GITHUB_PAT is valid and has access to this repository.') {
+        super(message, 401, 'unauthorized');
+        this.name = 'UnauthorizedError';
+    }
+}
+
+interface RateLimitStatus {
+    limit: number;
+    remaining: number;
+    resetAt: string;
+}
+
+interface GitHubRequestOptions {
+    accept?: string;
+    responseType?: 'json' | 'text';
+}
+
+type HttpTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_RETRY_AFTER_WAIT_SECONDS = 10;
+// Bodies are measured in characters of the raw response. Large ones (full trees, big files) are not kept,
+// so the cache cannot grow past a small share of the isolate's memory.
+const MAX_ETAG_BODY_SIZE = 256 * 1024;
+const MAX_ETAG_CACHE_SIZE = 8 * 1024 * 1024;
+
+// Conditional-request cache, kept per isolate. A 304 answer does not count against the rate limit,
+// so repeated indexing of the same repository mostly costs nothing.
+const etagCache = new Map<string, { etag: string; body: unknown; size: number }>();
+let etagCacheSize = 0;
+
+let lastRateLimit: RateLimitStatus | null = null;
+
+const defaultTransport: HttpTransport = (url, init) => fetch(url, init);
+let transport = defaultTransport;
+
+// Git host API calls go through the transport, so tests can serve recorded fixtures instead of the network.
+// Swapping the transport also drops the ETag cache and rate-limit state gathered from the previous one.
+function setHttpTransport(next: HttpTransport | null): void {
+    transport = next || defaultTransport;
+    etagCache.clear();
+    etagCacheSize = 0;
+    lastRateLimit = null;
+}
+
+// The token itself is not kept in the cache key, only a digest of the whole header
+async function credentialDigest(authorization: string | undefined): Promise<string> {
+    if (!authorization) return '';
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(authorization));
+    return Array.from(new Uint8Array(digest))
+        .map(b => b.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+async function githubRequest<T>(url: string, headers: Record<string, string>, options: GitHubRequestOptions = {}): Promise<T> {
+    const accept = options.accept || 'application/vnd.github+json';
+    // Keyed per token as well, so a cached private response is only ever replayed to the same user
+    const cacheKey = `${accept} ${url} ${await credentialDigest(headers['Authorization'])}`;
+    
+    for (let attempt = 1; ; attempt++) {
+        const cached = etagCache.get(cacheKey);
+        const requestHeaders: Record<string, string> = { ...headers, 'Accept': accept };
+        if (cached) {
+            requestHeaders['If-None-Match'] = cached.etag;
+        }
+        
+        let response: Response;
+        try {
+            response = await transport(url, { headers: requestHeaders });
+        } catch (error) {
+            if (attempt < MAX_ATTEMPTS) {
+                console.log(`Network error for ${url}, retrying (attempt ${attempt}):`, error);
+                await sleep(backoffDelay(attempt));
+                continue;
+            }
+            throw new GitHubError(`Could not reach GitHub: ${error instanceof Error ? error.message : 'network error'}`, 503);
+        }
+        
+        recordRateLimit(response);
+        
+        if (response.status === 304 && cached) {
+            return cached.body as T;
+        }
+        
+        if (response.ok) {
+            const raw = await response.text();
+            const body = options.responseType === 'text' ? raw : JSON.parse(raw);
+            const etag = response.headers.get('ETag');
+            if (etag) {
+                rememberEtag(cacheKey, etag, body, raw.length);
+            }
+            return body as T;
+        }
+        
+        const retryAfter = parseRetryAfter(response);
+        
+        if (isRateLimited(response)) {
+            if (retryAfter !== null && retryAfter <= MAX_RETRY_AFTER_WAIT_SECONDS && attempt < MAX_ATTEMPTS) {
+                console.log(`Secondary rate limit for ${url}, waiting ${retryAfter}s`);
+                await sleep(retryAfter * 1000);
+                continue;
+            }
+            const reset = response.headers.get('X-RateLimit-Reset');
+            throw new RateLimitError(reset ? new Date(Number(reset) * 1000).toISOString() : null, retryAfter);
+        }
+        
+        if (response.status === 401) {
+            throw new UnauthorizedError();
+        }
+        if (response.status === 403) {
+            throw new UnauthorizedError('GitHub denied access to this resource. The repository may be private or the token may lack the required scope.');
+        }
+        if (response.status === 404) {
+            throw new NotFoundError();
+        }
+        
+        if (isTransient(response.status) && attempt < MAX_ATTEMPTS) {
+            console.log(`GitHub API error for ${url}: ${response.status}, retrying (attempt ${attempt})`);
+            await sleep(retryAfter !== null ? retryAfter * 1000 : backoffDelay(attempt));
+            continue;
+        }
+        
+        throw new GitHubError(`GitHub API error ${response.status} for ${new URL(url).pathname}`, response.status);
+    }
+}
+
+// Optional resources (a missing README, an empty issues list) resolve to null;
+// rate limits, auth failures and persistent upstream errors propagate as typed errors.
+async function fetchOptional<T>(url: string, headers: Record<string, string>, options: GitHubRequestOptions = {}): Promise<T | null> {
+    try {
+        return await githubRequest<T>(url, headers, options);
+    } catch (error) {
+        if (error instanceof NotFoundError) {
+            return null;
+        }
+        throw error;
+    }
+}
+
+function isRateLimited(response: Response): boolean {
+    if (response.status === 429) return true;
+    if (response.status !== 403) return false;
+    return response.headers.get('X-RateLimit-Remaining') === '0' || response.headers.has('Retry-After');
+}
+
+function isTransient(status: number): boolean {
+    return status === 500 || status === 502 || status === 503 || status === 504;
+}
+
+function parseRetryAfter(response: Response): number | null {
+    const value = response.headers.get('Retry-After');
+    if (!value) return null;
+    const seconds = Number(value);
+    return Number.isFinite(seconds) ? seconds : null;
+}
+
+function backoffDelay(attempt: number): number {
+    return BASE_BACKOFF_MS * Math.pow(2, attempt - 1) + Math.floor(Math.random() * 100);
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function recordRateLimit(response: Response): void {
+    const limit = response.headers.get('X-RateLimit-Limit');
+    const remaining = response.headers.get('X-RateLimit-Remaining');
+    const reset = response.headers.get('X-RateLimit-Reset');
+    if (!limit || !remaining || !reset) return;
+    
+    lastRateLimit = {
+        limit: Number(limit),
+        remaining: Number(remaining),
+        resetAt: new Date(Number(reset) * 1000).toISOString()
+    };
+    
+    if (lastRateLimit.remaining < lastRateLimit.limit * 0.05) {
+        console.log(`GitHub rate limit low: ${lastRateLimit.remaining}/${lastRateLimit.limit} remaining until ${lastRateLimit.resetAt}`);
+    }
+}
+
+function forgetEtag(key: string): void {
+    const entry = etagCache.get(key);
+    if (entry) {
+        etagCacheSize -= entry.size;
+        etagCache.delete(key);
+    }
+}
+
+function rememberEtag(key: string, etag: string, body: unknown, size: number): void {
+    forgetEtag(key);
+    if (size > MAX_ETAG_BODY_SIZE) return;
+    
+    etagCache.set(key, { etag, body, size });
+    etagCacheSize += size;
+    // Map iteration is in insertion order, so the oldest entries go first
+    while (etagCacheSize > MAX_ETAG_CACHE_SIZE) {
+        const oldest = etagCache.keys().next().value;
+        if (oldest === undefined) break;
+        forgetEtag(oldest);
+    }
+}
+
+function toErrorPayload(error: GitHubError): { code: GitHubErrorCode; message: string; resetAt?: string | null; retryAfterSeconds?: number | null } {
+    if (error instanceof RateLimitError) {
+        return { code: error.code, message: error.message, resetAt: error.resetAt, retryAfterSeconds: error.retryAfterSeconds };
+    }
+    return { code: error.code, message: error.message };
+}
+
+function errorStatus(error: GitHubError): number {
+    switch (error.code) {
+        case 'rate_limited': return 429;
+        case 'not_found': return 404;
+        case 'unauthorized': return 401;
+        default: return 502;
+    }
+}
+
+export {
+    GitHubError,
+    RateLimitError,
+    NotFoundError,
+    UnauthorizedError,
+    githubRequest,
+    fetchOptional,
+    setHttpTransport,
+    toErrorPayload,
+    errorStatus,
+    GitHubErrorCode,
+    HttpTransport
+};
\ No newline at end of file
@@ -0,0 +1,410 @@
+import { FileNode, GitProvider, IssueInfo, IssueDetails, LinkedPullRequest, PRInfo, PullRequestDetails, PullRequestCheck, RepoLocation, RepoMetadata, truncateText, isInSkippedDirectory } from "./utils";
+import { GitHubError, NotFoundError, fetchOptional } from "./github";
+import { extractIssueSignals } from "./issue-mapping";
+
+const PAGE_SIZE = 100;
+const MAX_TREE_PAGES = 50;
+const TREE_PAGE_CONCURRENCY = 5;
+const MAX_DETAIL_PAGES = 3;
+// GitLab has no project-wide notes listing, so only this many recently updated threads are read while indexing
+const MAX_COMMENTED_ISSUES = 10;
+const MAX_SIGNAL_COMMENTS = 30;
+
+// Merge requests use their own iid space, so `number` below is the project-scoped iid for both
+interface GitLabIssue {
+    iid: number;
+    title: string;
+    description: string | null;
+    state: string;
+    labels: string[];
+    assignees?: Array<{ username: string }>;
+    author: { username: string };
+    created_at: string;
+    closed_at?: string | null;
+    user_notes_count: number;
+    web_url: string;
+}
+
+interface GitLabMergeRequest {
+    iid: number;
+    title: string;
+    description: string | null;
+    state: string;
+    author: { username: string };
+    created_at: string;
+    web_url: string;
+    draft?: boolean;
+    work_in_progress?: boolean;
+}
+
+interface GitLabDiff {
+    old_path: string;
+    new_path: string;
+    new_file: boolean;
+    renamed_file: boolean;
+    deleted_file: boolean;
+    diff: string;
+}
+
+interface GitLabNote {
+    id: number;
+    body: string;
+    system: boolean;
+    author: { username: string };
+    created_at: string;
+    position?: { new_path: string; old_path: string; new_line: number | null; old_line: number | null } | null;
+}
+
+function projectApi(location: RepoLocation): string {
+    return `${location.baseUrl}/api/v4/projects/${encodeURIComponent(`${location.owner}/${location.repo}`)}`;
+}
+
+// Projects can sit in nested groups, and everything after `/-/` is a view: `group/sub/project/-/tree/main/src`
+function parsePath(path: string): Pick<RepoLocation, 'owner' | 'repo' | 'ref' | 'path'> | null {
+    const [project, view] = path.split('/-/');
+    const segments = project.split('/').filter(Boolean);
+    if (segments.length < 2) return null;
+    
+    const location = {
+        owner: segments.slice(0, -1).join('/'),
+        repo: segments[segments.length - 1].replace(/\.git$/, ''),
+        ref: null as string | null,
+        path: null as string | null
+    };
+    
+    const match = view ? /^(tree|blob)\/(\S+)/.exec(view) : null;
+    if (!match) return location;
+    
+    const refPath = match[2].split('/').filter(Boolean).map(decodeURIComponent);
+    // A blob URL points at a file; scope the index to the directory containing it
+    if (match[1] === 'blob') {
+        refPath.pop();
+    }
+    location.ref = refPath[0] || null;
+    location.path = refPath.slice(1).join('/') || null;
+    return location;
+}
+
+async function fetchRepoMetadata(location: RepoLocation, headers: Record<string, string>): Promise<RepoMetadata> {
+    const [project, languages] = await Promise.all([
+        gitlabFetch<{
+            name: string;
+            path_with_namespace: string;
+            description: string | null;
+            web_url: string;
+            default_branch: string | null;
+            topics?: string[];
+            tag_list?: string[];
+            star_count: number;
+            forks_count: number;
+            open_issues_count?: number;
+            visibility: string;
+        }>(projectApi(location), headers),
+        fetchLanguages(location, headers)
+    ]);
+    
+    if (!project) {
+        throw new NotFoundError(`Project ${location.owner}/${location.repo} was not found on ${location.baseUrl}. Check the URL, or set GITLAB_TOKEN if it is private.`);
+    }
+    // GitLab has no primary language field; the languages endpoint reports percentages instead
+    const language = Object.keys(languages).sort((a, b) => languages[b] - languages[a])[0] || null;
+    
+    return {
+        name: project.name,
+        fullName: project.path_with_namespace,
+        description: project.description || null,
+        htmlUrl: project.web_url,
+        // Empty projects have no default branch yet
+        defaultBranch: project.default_branch || 'main',
+        language,
+        topics: project.topics || project.tag_list || [],
+        stars: project.star_count,
+        forks: project.forks_count,
+        openIssuesCount: project.open_issues_count || 0,
+        private: project.visibility !== 'public'
+    };
+}
+
+async function resolveCommitSha(location: RepoLocation, ref: string, headers: Record<string, string>): Promise<string | null> {
+    const commit = await gitlabFetch<{ id: string }>(`${projectApi(location)}/repository/commits/${encodeURIComponent(ref)}`, headers);
+    return commit && /^[0-9a-f]{40}$/i.test(commit.id) ? commit.id : null;
+}
+
+// The tree endpoint pages at 100 entries with no overall tree SHA, so pages are fetched a few at a time
+// and the tree is reported without one (a refresh then rebuilds it whenever the head commit moves)
+async function fetchFileTree(location: RepoLocation, treeish: string, headers: Record<string, string>): Promise<{ sha: string | null; nodes: FileNode[] }> {
+    const base = `${projectApi(location)}/repository/tree?recursive=true&per_page=${PAGE_SIZE}&ref=${encodeURIComponent(treeish)}`;
+    const nodes: FileNode[] = [];
+    
+    for (let first = 1; first <= MAX_TREE_PAGES; first += TREE_PAGE_CONCURRENCY) {
+        const pages = Array.from({ length: Math.min(TREE_PAGE_CONCURRENCY, MAX_TREE_PAGES - first + 1) }, (_, i) => first + i);
+        const results = await Promise.all(pages.map(page =>
+            gitlabFetch<Array<{ id: string; path: string; type: string }>>(`${base}&page=${page}`, headers)
+        ));
+        
+        for (const entries of results) {
+            for (const entry of entries || []) {
+                if (entry.type === 'commit' || isInSkippedDirectory(entry.path)) continue;
+                nodes.push({ path: entry.path, type: entry.type === 'tree' ? 'dir' : 'file', sha: entry.id });
+            }
+        }
+        if (results.some(entries => !entries || entries.length < PAGE_SIZE)) {
+            return { sha: null, nodes };
+        }
+    }
+    
+    console.log(`Tree for ${location.owner}/${location.repo} has more than ${MAX_TREE_PAGES} pages, listing truncated`);
+    return { sha: null, nodes };
+}
+
+async function fetchFileContent(location: RepoLocation, path: string, headers: Record<string, string>, ref?: string): Promise<string | null> {
+    const url = `${projectApi(location)}/repository/files/${encodeURIComponent(path)}/raw?ref=${encodeURIComponent(ref || 'HEAD')}`;
+    return gitlabFetch<string>(url, headers, 'text');
+}
+
+async function fetchBlobContent(location: RepoLocation, sha: string, headers: Record<string, string>): Promise<string | null> {
+    return gitlabFetch<string>(`${projectApi(location)}/repository/blobs/${sha}/raw`, headers, 'text');
+}
+
+async function fetchLanguages(location: RepoLocation, headers: Record<string, string>): Promise<Record<string, number>> {
+    const data = await gitlabFetch<Record<string, number>>(`${projectApi(location)}/languages`, headers);
+    return data || {};
+}
+
+async function fetchIssues(location: RepoLocation, headers: Record<string, string>, limit: number, since?: string): Promise<IssueInfo[]> {
+    const filter = since ? `state=all&updated_after=${encodeURIComponent(since)}` : 'state=opened';
+    const data = await gitlabFetch<GitLabIssue[]>(`${projectApi(location)}/issues?${filter}&per_page=${limit}&order_by=updated_at&sort=desc`, headers);
+    
+    if (!data) return [];
+    
+    const commented = data.filter(issue => issue.user_notes_count > 0).slice(0, MAX_COMMENTED_ISSUES);
+    const notes = await Promise.all(commented.map(issue =>
+        gitlabFetch<GitLabNote[]>(`${projectApi(location)}/issues/${issue.iid}/notes?per_page=${MAX_SIGNAL_COMMENTS}&sort=asc&order_by=created_at`, headers)
+    ));
+    const commentsByIssue = new Map(commented.map((issue, i) => [issue.iid, (notes[i] || []).filter(note => !note.system).map(note => note.body)]));
+    
+    return data.map(issue => ({
+        number: issue.iid,
+        title: issue.title,
+        body: issue.description ? truncateText(issue.description, 500) : null,
+        state: normalizeState(issue.state),
+        labels: issue.labels,
+        assignees: (issue.assignees || []).map(a => a.username),
+        author: issue.author.username,
+        createdAt: issue.created_at,
+        commentsCount: issue.user_notes_count,
+        url: issue.web_url,
+        signals: extractIssueSignals([issue.title, issue.description || '', ...(commentsByIssue.get(issue.iid) || [])].join('\n'))
+    }));
+}
+
+async function fetchPullRequests(location: RepoLocation, headers: Record<string, string>, limit: number, since?: string): Promise<PRInfo[]> {
+    const filter = since ? `state=all&updated_after=${encodeURIComponent(since)}` : 'state=opened';
+    const data = await gitlabFetch<GitLabMergeRequest[]>(`${projectApi(location)}/merge_requests?${filter}&per_page=${limit}&order_by=updated_at&sort=desc`, headers);
+    
+    if (!data) return [];
+    
+    return data.map(mr => ({
+        number: mr.iid,
+        title: mr.title,
+        body: mr.description ? truncateText(mr.description, 300) : null,
+        state: normalizeState(mr.state),
+        author: mr.author.username,
+        createdAt: mr.created_at,
+        url: mr.web_url,
+        draft: Boolean(mr.draft ?? mr.work_in_progress)
+    }));
+}
+
+async function fetchAllPages<T>(url: string, headers: Record<string, string>): Promise<T[]> {
+    const items: T[] = [];
+    for (let page = 1; page <= MAX_DETAIL_PAGES; page++) {
+        const data = await gitlabFetch<T[]>(`${url}${url.includes('?') ? '&' : '?'}per_page=${PAGE_SIZE}&page=${page}`, headers);
+        if (!data) break;
+        items.push(...data);
+        if (data.length < PAGE_SIZE) break;
+    }
+    return items;
+}
+
+// GitLab records assignments, closes and cross-references as system notes whose body already reads
+// like a timeline entry ("assigned to @alice", "mentioned in merge request !12")
+async function fetchIssueDetails(location: RepoLocation, number: number, headers: Record<string, string>): Promise<IssueDetails | null> {
+    const base = `${projectApi(location)}/issues/${number}`;
+    const [issue, notes, mergeRequests] = await Promise.all([
+        gitlabFetch<GitLabIssue>(base, headers),
+        fetchAllPages<GitLabNote>(`${base}/notes?sort=asc&order_by=created_at`, headers),
+        gitlabFetch<Array<GitLabMergeRequest & { references?: { full: string } }>>(`${base}/related_merge_requests`, headers)
+    ]);
+    
+    if (!issue) return null;
+    
+    const linkedPullRequests: LinkedPullRequest[] = (mergeRequests || []).map(mr => ({
+        number: mr.iid,
+        title: mr.title,
+        state: normalizeState(mr.state),
+        merged: mr.state === 'merged',
+        url: mr.web_url,
+        repository: mr.references?.full.replace(/!\d+$/, '') || `${location.owner}/${location.repo}`
+    }));
+    
+    return {
+        issue: {
+            number: issue.iid,
+            title: issue.title,
+            body: issue.description,
+            state: normalizeState(issue.state),
+            labels: issue.labels,
+            author: issue.author.username,
+            createdAt: issue.created_at,
+            commentsCount: issue.user_notes_count,
+            url: issue.web_url
+        },
+        isPullRequest: false,
+        assignees: (issue.assignees || []).map(a => a.username),
+        closedAt: issue.closed_at || null,
+        comments: notes
+            .filter(note => !note.system)
+            .map(note => ({ author: note.author.username, body: note.body, createdAt: note.created_at, url: `${issue.web_url}#note_${note.id}` })),
+        timeline: notes
+            .filter(note => note.system)
+            .map(note => ({ event: 'system_note', actor: note.author.username, createdAt: note.created_at, detail: truncateText(note.body.replace(/\n+/g, ' '), 200) })),
+        linkedPullRequests
+    };
+}
+
+async function fetchPullRequestDiff(location: RepoLocation, number: number, headers: Record<string, string>): Promise<string | null> {
+    const diffs = await fetchMergeRequestDiffs(location, number, headers);
+    return diffs ? diffs.map(toUnifiedDiff).join('\n') : null;
+}
+
+async function fetchMergeRequestDiffs(location: RepoLocation, number: number, headers: Record<string, string>): Promise<GitLabDiff[] | null> {
+    const base = `${projectApi(location)}/merge_requests/${number}`;
+    if (!(await gitlabFetch<{ iid: number }>(base, headers))) return null;
+    return fetchAllPages<GitLabDiff>(`${base}/diffs`, headers);
+}
+
+// The diffs endpoint returns bare hunks per file; the headers are rebuilt so the result reads like `git diff`
+function toUnifiedDiff(file: GitLabDiff): string {
+    const from = file.new_file ? '/dev/null' : `a/${file.old_path}`;
+    const to = file.deleted_file ? '/dev/null' : `b/${file.new_path}`;
+    return `diff --git a/${file.old_path} b/${file.new_path}\n--- ${from}\n+++ ${to}\n${file.diff}`;
+}
+
+async function fetchPullRequestDetails(location: RepoLocation, number: number, headers: Record<string, string>): Promise<PullRequestDetails | null> {
+    const base = `${projectApi(location)}/merge_requests/${number}`;
+    const mr = await gitlabFetch<GitLabMergeRequest & {
+        sha: string;
+        source_branch: string;
+        target_branch: string;
+        detailed_merge_status?: string;
+        head_pipeline?: { id: number; status: string; web_url: string } | null;
+    }>(base, headers);
+    
+    if (!mr) return null;
+    
+    const [diffs, discussions, jobs] = await Promise.all([
+        fetchAllPages<GitLabDiff>(`${base}/diffs`, headers),
+        fetchAllPages<{ notes: GitLabNote[] }>(`${base}/discussions`, headers),
+        mr.head_pipeline
+            ? fetchAllPages<{ name: string; status: string; web_url: string }>(`${projectApi(location)}/pipelines/${mr.head_pipeline.id}/jobs`, headers)
+            : Promise.resolve([])
+    ]);
+    
+    const files = diffs.map(file => {
+        const lines = file.diff.split('\n');
+        return {
+            path: file.new_path,
+            status: file.new_file ? 'added' : file.deleted_file ? 'removed' : file.renamed_file ? 'renamed' : 'modified',
+            additions: lines.filter(line => line.startsWith('+') && !line.startsWith('+++')).length,
+            deletions: lines.filter(line => line.startsWith('-') && !line.startsWith('---')).length,
+            previousPath: file.renamed_file ? file.old_path : null
+        };
+    });
+    
+    const reviewComments = discussions
+        .reduce<GitLabNote[]>((all, discussion) => all.concat(discussion.notes), [])
+        .filter(note => !note.system && note.position)
+        .map(note => ({
+            author: note.author.username,
+            path: note.position!.new_path,
+            line: note.position!.new_line ?? note.position!.old_line,
+            body: note.body,
+            createdAt: note.created_at
+        }));
+    
+    const checks: PullRequestCheck[] = jobs.length > 0
+        ? jobs.map(job => ({ name: job.name, ...toCheckState(job.status), url: job.web_url }))
+        : mr.head_pipeline ? [{ name: 'pipeline', ...toCheckState(mr.head_pipeline.status), url: mr.head_pipeline.web_url }] : [];
+    
+    return {
+        pullRequest: {
+            number: mr.iid,
+            title: mr.title,
+            body: mr.description,
+            state: mr.state === 'merged' ? 'merged' : normalizeState(mr.state),
+            author: mr.author.username,
+            createdAt: mr.created_at,
+            url: mr.web_url,
+            draft: Boolean(mr.draft ?? mr.work_in_progress)
+        },
+        headSha: mr.sha,
+        headRef: mr.source_branch,
+        baseRef: mr.target_branch,
+        additions: files.reduce((sum, f) => sum + f.additions, 0),
+        deletions: files.reduce((sum, f) => sum + f.deletions, 0),
+        mergeableState: mr.detailed_merge_status || null,
+        files,
+        reviewComments,
+        checks
+    };
+}
+
+// Maps GitLab job and pipeline statuses onto the check-run vocabulary the reviewer understands
+function toCheckState(status: string): { status: string; conclusion: string | null } {
+    switch (status) {
+        case 'success': return { status: 'completed', conclusion: 'success' };
+        case 'failed': return { status: 'completed', conclusion: 'failure' };
+        case 'canceled': return { status: 'completed', conclusion: 'cancelled' };
+        case 'skipped': return { status: 'completed', conclusion: 'skipped' };
+        case 'manual': return { status: 'completed', conclusion: 'action_required' };
+        default: return { status: 'in_progress', conclusion: null };
+    }
+}
+
+// GitLab reports open issues and merge requests as `opened`
+function normalizeState(state: string): string {
+    return state === 'opened' ? 'open' : state;
+}
+
+async function gitlabFetch<T>(url: string, headers: Record<string, string>, responseType: 'json' | 'text' = 'json'): Promise<T | null> {
+    try {
+        return await fetchOptional<T>(url, headers, { accept: responseType === 'json' ? 'application/json' : 'text/plain', responseType });
+    } catch (error) {
+        // Unknown refs are reported as 400 rather than 404
+        if (error instanceof GitHubError && error.status === 400) {
+            return null;
+        }
+        throw error;
+    }
+}
+
+const gitlabProvider: GitProvider = {
+    kind: 'gitlab',
+    parsePath,
+    fetchRepoMetadata,
+    resolveCommitSha,
+    fetchFileTree,
+    fetchFileContent,
+    fetchBlobContent,
+    fetchLanguages,
+    fetchIssues,
+    fetchPullRequests,
+    fetchIssueDetails,
+    fetchPullRequestDiff,
+    fetchPullRequestDetails
+};
+
+export {
+    gitlabProvider
+};
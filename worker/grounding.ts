@@ -0,0 +1,230 @@
+import { RepoIndex, CodeSnippet, ToolObservation, GroundingProblem, GroundingReport } from "./utils";
+
+interface GroundingSources {
+    files: Record<string, string>;
+    snippets: CodeSnippet[];
+    observations: ToolObservation[];
+}
+
+// Commands and proposed patches are not quotes of the repository, so they are not checked
+const UNCHECKED_LANGUAGES = ['bash', 'sh', 'shell', 'zsh', 'console', 'powershell', 'cmd', 'text', 'txt', 'plaintext', 'diff', 'patch'];
+
+const FILE_EXTENSIONS = [
+    'ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'json', 'md', 'mdx', 'py', 'go', 'rs', 'java', 'kt', 'rb', 'php',
+    'c', 'h', 'cc', 'cpp', 'hpp', 'cs', 'swift', 'scala', 'yml', 'yaml', 'toml', 'lock', 'txt', 'html', 'css',
+    'scss', 'vue', 'svelte', 'sh', 'sql', 'graphql', 'proto', 'xml', 'gradle', 'ini', 'cfg', 'env'
+];
+
+// Lines a model uses to mark skipped code inside a quote, e.g. `// ...` or `# ...`
+const ELISION_LINE = /^\s*(\/\/|#|\/\*|<!--|--)?\s*(\.\.\.|…)\s*(\*\/|-->)?\s*$/;
+
+const UNVERIFIED_CODE_NOTE = '> ⚠️ This code does not appear in the files that were loaded, so treat it as illustrative.';
+
+function checkGrounding(answer: string, index: RepoIndex, sources: GroundingSources): { answer: string; report: GroundingReport } {
+    const problems: GroundingProblem[] = [];
+    const checked = { issueLinks: 0, filePaths: 0, codeBlocks: 0 };
+    const corpus = buildCorpus(index, sources);
+    const knownPaths = new Set([...index.fileTree.map(f => f.path), ...Object.keys(sources.files), ...sources.snippets.map(s => s.path)]);
+    const knownDirectories = directoriesOf(knownPaths);
+    const knownThreads = new Map<number, string>();
+    for (const item of [...index.issues, ...index.pullRequests]) {
+        knownThreads.set(item.number, item.url);
+    }
+    const mentioned = mentionedNumbers(sources.observations);
+    
+    const rewritten = splitFences(answer).map(part => {
+        if (part.fence) {
+            const language = part.language.toLowerCase();
+            if (UNCHECKED_LANGUAGES.includes(language) || part.code.trim() === '') return part.text;
+            
+            checked.codeBlocks++;
+            if (isQuoted(part.code, corpus)) return part.text;
+            problems.push({ kind: 'code_block', text: firstLine(part.code), action: 'flagged', detail: 'Not found in any loaded file' });
+            return `${part.text}\n${UNVERIFIED_CODE_NOTE}`;
+        }
+        
+        let prose = part.text.replace(/\[#(\d+)\]\(([^)\s]+)\)/g, (link: string, number: string, url: string) => {
+            checked.issueLinks++;
+            const known = knownThreads.get(Number(number));
+            if (known === url) return link;
+            if (known) {
+                problems.push({ kind: 'issue_link', text: link, action: 'rewritten', detail: `Link corrected to ${known}` });
+                return `[#${number}](${known})`;
+            }
+            // Closed issues and PRs that loaded threads refer to are real, as long as the link stays in this repository
+            if (mentioned.has(Number(number)) && url.startsWith(`${index.htmlUrl}/`)) return link;
+            problems.push({ kind: 'issue_link', text: link, action: 'removed', detail: `#${number} is not an issue or pull request in the index` });
+            return `#${number}`;
+        });
+        
+        prose = prose.replace(/`([^`\n]+)`/g, (span: string, value: string) => {
+            const path = cleanPath(value);
+            if (!looksLikePath(path, knownDirectories)) return span;
+            
+            checked.filePaths++;
+            if (knownPaths.has(path) || (!path.includes('/') && hasBasename(knownPaths, path))) return span;
+            const match = resolvePath(knownPaths, path);
+            if (match) {
+                problems.push({ kind: 'file_path', text: value, action: 'rewritten', detail: `Path corrected to ${match}` });
+                return span.replace(path, match);
+            }
+            problems.push({ kind: 'file_path', text: value, action: 'flagged', detail: 'Not in the repository file tree' });
+            return `${span} *(not found in this repository)*`;
+        });
+        
+        return prose;
+    }).join('');
+    
+    const total = checked.issueLinks + checked.filePaths + checked.codeBlocks;
+    return {
+        answer: rewritten,
+        report: {
+            score: total === 0 ? 1 : Math.round((total - problems.length) / total * 100) / 100,
+            checked,
+            problems,
+            regenerated: false
+        }
+    };
+}
+
+// Problems that could not be fixed in place are worth one more attempt at the answer
+function needsRegeneration(report: GroundingReport, threshold: number): boolean {
+    return report.score < threshold && report.problems.some(p => p.action !== 'rewritten');
+}
+
+function describeProblems(report: GroundingReport): string {
+    return report.problems
+        .filter(p => p.action !== 'rewritten')
+        .map(p => `- ${p.kind.replace('_', ' ')} \`${p.text}\`: ${p.detail}`)
+        .join('\n');
+}
+
+function splitFences(markdown: string): Array<{ fence: boolean; text: string; language: string; code: string }> {
+    const parts: Array<{ fence: boolean; text: string; language: string; code: string }> = [];
+    const pattern = /^```([^\n`]*)\n([\s\S]*?)^```[ \t]*$/gm;
+    let last = 0;
+    let match: RegExpExecArray | null;
+    
+    while ((match = pattern.exec(markdown)) !== null) {
+        if (match.index > last) {
+            parts.push({ fence: false, text: markdown.substring(last, match.index), language: '', code: '' });
+        }
+        parts.push({ fence: true, text: match[0], language: match[1].trim(), code: match[2] });
+        last = match.index + match[0].length;
+    }
+    if (last < markdown.length) {
+        parts.push({ fence: false, text: markdown.substring(last), language: '', code: '' });
+    }
+    
+    return parts;
+}
+
+// Indentation is ignored on both sides, since models often re-indent what they quote
+function normalizeCode(code: string): string {
+    return code.split('\n').map(line => line.trim()).filter(line => line !== '').join('\n');
+}
+
+function buildCorpus(index: RepoIndex, sources: GroundingSources): string[] {
+    const texts = [
+        ...Object.values(sources.files),
+        ...sources.snippets.map(s => s.content),
+        ...sources.observations.map(o => o.content),
+        // Diff lines quoted without their +/- markers
+        ...sources.observations.map(o => o.content.replace(/^[+-]/gm, '')),
+        index.readme || '',
+        index.contributing || '',
+        ...index.issues.map(i => i.body || '')
+    ];
+    // Wrapped in newlines so quotes only match whole lines
+    return texts.filter(t => t.length > 0).map(t => `\n${normalizeCode(t)}\n`);
+}
+
+function isQuoted(code: string, corpus: string[]): boolean {
+    const segments: string[][] = [[]];
+    for (const line of code.split('\n')) {
+        if (ELISION_LINE.test(line)) {
+            segments.push([]);
+        } else {
+            segments[segments.length - 1].push(line);
+        }
+    }
+    
+    return segments
+        .map(lines => normalizeCode(lines.join('\n')))
+        .filter(segment => segment !== '')
+        .every(segment => corpus.some(text => text.includes(`\n${segment}\n`)));
+}
+
+function mentionedNumbers(observations: ToolObservation[]): Set<number> {
+    const numbers = new Set<number>();
+    const pattern = /#(\d+)\b/g;
+    for (const observation of observations) {
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(observation.content)) !== null) {
+            numbers.add(Number(match[1]));
+        }
+    }
+    return numbers;
+}
+
+// `src/app.ts:42`, `./src/app.ts`, `src/` and `src/app.ts#L10-L20` all refer to an entry in the tree
+function cleanPath(value: string): string {
+    return value.trim()
+        .replace(/^\.\//, '')
+        .replace(/#L\d+(-L?\d+)?$/, '')
+        .replace(/:\d+(-\d+)?$/, '')
+        .replace(/\/$/, '');
+}
+
+// Without an extension `a/b` is as likely to be prose (`and/or`, `client/server`, `owner/repo`), so it only
+// counts as a path when it starts with a directory of the tree, possibly with its parents left out
+function looksLikePath(value: string, directories: Set<string>): boolean {
+    if (/\s/.test(value) || /^(https?:)?\/\//.test(value) || value.startsWith('@')) return false;
+    
+    const name = value.split('/').pop() || '';
+    const extension = name.includes('.') ? (name.split('.').pop() || '').toLowerCase() : '';
+    if (value.includes('/')) {
+        if (!/^[\w.@-]+(\/[\w.@-]+)+$/.test(value)) return false;
+        if (FILE_EXTENSIONS.includes(extension) || /^\./.test(name)) return true;
+        const first = value.split('/')[0];
+        return extension === '' && Array.from(directories).some(d => d === first || d.endsWith(`/${first}`));
+    }
+    return /^[\w.-]+\.\w+$/.test(value) && FILE_EXTENSIONS.includes(extension);
+}
+
+function directoriesOf(paths: Set<string>): Set<string> {
+    const directories = new Set<string>();
+    for (const path of Array.from(paths)) {
+        const segments = path.split('/');
+        for (let i = 1; i < segments.length; i++) {
+            directories.add(segments.slice(0, i).join('/'));
+        }
+    }
+    return directories;
+}
+
+function hasBasename(paths: Set<string>, name: string): boolean {
+    return Array.from(paths).some(p => p === name || p.endsWith(`/${name}`));
+}
+
+// A path with a prefix left out, or a file named the same somewhere else, is only corrected when the match is unambiguous
+function resolvePath(paths: Set<string>, path: string): string | null {
+    const all = Array.from(paths);
+    const suffixMatches = all.filter(p => p.endsWith(`/${path}`));
+    if (suffixMatches.length === 1) return suffixMatches[0];
+    
+    const name = path.split('/').pop() || '';
+    const sameName = all.filter(p => p === name || p.endsWith(`/${name}`));
+    return sameName.length === 1 ? sameName[0] : null;
+}
+
+function firstLine(code: string): string {
+    return (code.split('\n').find(line => line.trim() !== '') || '').trim();
+}
+
+export {
+    checkGrounding,
+    needsRegeneration,
+    describeProblems,
+    GroundingSources
+};
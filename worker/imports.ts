@@ -0,0 +1,258 @@
+import { RepoIndex, FileNode, ImportGraph } from "./utils";
+
+const MAX_IMPORTS_PER_FILE = 60;
+const MAX_NEIGHBOUR_FILES = 4;
+// Fetched files are cut at this many characters, so larger files cost no more than this
+const MAX_NEIGHBOUR_CHARS = 40000;
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+// Static imports and re-exports must start a statement, which keeps `import` inside strings and comments out
+const ES_IMPORT = /(?:^|;)[ \t]*(?:import|export)\s[^'"`;]*?\bfrom\s*['"]([^'"\n]+)['"]|(?:^|;)[ \t]*import\s*['"]([^'"\n]+)['"]|(?:^|[^\w$.])(?:require|import)\s*\(\s*['"]([^'"\n]+)['"]\s*\)/gm;
+
+function extractImports(path: string, content: string): string[] {
+    const extension = path.split('.').pop()?.toLowerCase() || '';
+    let specifiers: string[] = [];
+    if (SCRIPT_EXTENSIONS.includes(`.${extension}`)) specifiers = extractScriptImports(content);
+    else if (extension === 'py') specifiers = extractPythonImports(content);
+    else if (extension === 'go') specifiers = extractGoImports(content);
+    else if (extension === 'rs') specifiers = extractRustImports(content);
+    return Array.from(new Set(specifiers)).slice(0, MAX_IMPORTS_PER_FILE);
+}
+
+function extractScriptImports(content: string): string[] {
+    const specifiers: string[] = [];
+    let match: RegExpExecArray | null;
+    ES_IMPORT.lastIndex = 0;
+    while ((match = ES_IMPORT.exec(content)) !== null) {
+        specifiers.push(match[1] || match[2] || match[3]);
+    }
+    return specifiers;
+}
+
+// `from pkg.mod import name` may import a submodule called `name`, so both are kept and whichever
+// exists in the tree wins
+function extractPythonImports(content: string): string[] {
+    const specifiers: string[] = [];
+    for (const line of content.split('\n')) {
+        const from = line.match(/^\s*from\s+(\.*[\w.]*)\s+import\s+\(?([^#]*)/);
+        if (from) {
+            specifiers.push(from[1]);
+            for (const name of from[2].split(',').map(n => n.trim().split(/\s+/)[0]).filter(n => /^\w+$/.test(n))) {
+                specifiers.push(from[1].endsWith('.') ? `${from[1]}${name}` : `${from[1]}.${name}`);
+            }
+            continue;
+        }
+        const plain = line.match(/^\s*import\s+([\w.]+(?:\s+as\s+\w+)?(?:\s*,\s*[\w.]+(?:\s+as\s+\w+)?)*)/);
+        if (plain) {
+            specifiers.push(...plain[1].split(',').map(part => part.trim().split(/\s+/)[0]));
+        }
+    }
+    return specifiers;
+}
+
+function extractGoImports(content: string): string[] {
+    const specifiers: string[] = [];
+    let inBlock = false;
+    for (const line of content.split('\n')) {
+        if (inBlock) {
+            if (/^\s*\)/.test(line)) inBlock = false;
+            const quoted = line.match(/"([^"]+)"/);
+            if (quoted) specifiers.push(quoted[1]);
+        } else if (/^import\s*\(/.test(line)) {
+            inBlock = true;
+        } else {
+            const single = line.match(/^import\s+(?:[\w.]+\s+)?"([^"]+)"/);
+            if (single) specifiers.push(single[1]);
+        }
+    }
+    return specifiers;
+}
+
+// `mod parser;` declares a child module file; `use crate::a::b` reaches into another module of the crate
+function extractRustImports(content: string): string[] {
+    const specifiers: string[] = [];
+    for (const line of content.split('\n')) {
+        const mod = line.match(/^\s*(?:pub(?:\([^)]*\))?\s+)?mod\s+(\w+)\s*;/);
+        if (mod) specifiers.push(`mod:${mod[1]}`);
+        const use = line.match(/^\s*(?:pub(?:\([^)]*\))?\s+)?use\s+(crate(?:::\w+)+)/);
+        if (use) specifiers.push(use[1]);
+    }
+    return specifiers;
+}
+
+function dirname(path: string): string {
+    const slash = path.lastIndexOf('/');
+    return slash < 0 ? '' : path.substring(0, slash);
+}
+
+function joinPath(directory: string, relative: string): string | null {
+    const parts = directory ? directory.split('/') : [];
+    for (const segment of relative.split('/')) {
+        if (segment === '' || segment === '.') continue;
+        if (segment === '..') {
+            if (parts.length === 0) return null;
+            parts.pop();
+        } else {
+            parts.push(segment);
+        }
+    }
+    return parts.join('/');
+}
+
+function resolveScriptImport(from: string, specifier: string, files: Set<string>): string[] {
+    // Package imports are outside the repository; path aliases are not resolved
+    if (!specifier.startsWith('.')) return [];
+    const target = joinPath(dirname(from), specifier);
+    if (target === null) return [];
+    
+    // ESM TypeScript imports name the compiled file (`./render.js`) of a `.ts` source
+    const base = target.replace(/\.(m|c)?js$/, '');
+    const candidates = [target, ...SCRIPT_EXTENSIONS.map(ext => base + ext), ...SCRIPT_EXTENSIONS.map(ext => `${target}/index${ext}`)];
+    const found = candidates.find(candidate => files.has(candidate));
+    return found ? [found] : [];
+}
+
+function resolvePythonImport(from: string, specifier: string, files: Set<string>): string[] {
+    const dots = specifier.match(/^\.*/)![0].length;
+    const module = specifier.substring(dots).split('.').filter(Boolean).join('/');
+    
+    let roots: string[];
+    if (dots > 0) {
+        let directory: string | null = dirname(from);
+        for (let i = 1; i < dots && directory !== null; i++) {
+            directory = directory ? dirname(directory) : null;
+        }
+        if (directory === null) return [];
+        roots = [directory];
+    } else {
+        roots = ['', 'src', 'lib'];
+    }
+    
+    for (const root of roots) {
+        const base = [root, module].filter(Boolean).join('/');
+        const candidates = module ? [`${base}.py`, `${base}/__init__.py`] : [`${base ? `${base}/` : ''}__init__.py`];
+        const found = candidates.find(candidate => files.has(candidate));
+        if (found) return found === from ? [] : [found];
+    }
+    return [];
+}
+
+// Packages of the module declared in a go.mod are directories; every non-test file in one is a target
+function resolveGoImport(specifier: string, index: RepoIndex, directories: Map<string, string[]>): string[] {
+    for (const manifest of index.manifests) {
+        if (manifest.ecosystem !== 'go' || !manifest.name) continue;
+        if (specifier !== manifest.name && !specifier.startsWith(`${manifest.name}/`)) continue;
+        const directory = [dirname(manifest.path), specifier.substring(manifest.name.length + 1)].filter(Boolean).join('/');
+        return (directories.get(directory) || []).filter(path => path.endsWith('.go') && !path.endsWith('_test.go'));
+    }
+    return [];
+}
+
+function resolveRustImport(from: string, specifier: string, files: Set<string>): string[] {
+    if (specifier.startsWith('mod:')) {
+        const name = specifier.substring(4);
+        const file = from.split('/').pop() || '';
+        const directory = /^(lib|main|mod)\.rs$/.test(file) ? dirname(from) : from.replace(/\.rs$/, '');
+        const base = directory ? `${directory}/${name}` : name;
+        return [`${base}.rs`, `${base}/mod.rs`].filter(candidate => files.has(candidate)).slice(0, 1);
+    }
+    
+    // The crate root is the `src` directory the importing file lives under
+    const srcIndex = from.lastIndexOf('src/');
+    if (srcIndex < 0) return [];
+    const root = from.substring(0, srcIndex + 3);
+    const segments = specifier.split('::').slice(1);
+    // The last segments may name items rather than modules, so the longest module path that exists wins
+    for (let length = segments.length; length > 0; length--) {
+        const base = `${root}/${segments.slice(0, length).join('/')}`;
+        const found = [`${base}.rs`, `${base}/mod.rs`].find(candidate => files.has(candidate));
+        if (found) return found === from ? [] : [found];
+    }
+    return [];
+}
+
+// Only outlined files have their imports recorded, so edges start at those but may end at any file in the tree
+function buildImportGraph(index: RepoIndex): ImportGraph {
+    const files = new Set(index.fileTree.filter(f => f.type === 'file').map(f => f.path));
+    const directories = new Map<string, string[]>();
+    for (const path of Array.from(files)) {
+        const directory = dirname(path);
+        directories.set(directory, [...(directories.get(directory) || []), path]);
+    }
+    
+    const imports = new Map<string, string[]>();
+    const importers = new Map<string, string[]>();
+    for (const outline of index.outlines) {
+        const extension = outline.path.split('.').pop()?.toLowerCase() || '';
+        const targets = new Set<string>();
+        for (const specifier of outline.imports || []) {
+            const resolved = extension === 'py' ? resolvePythonImport(outline.path, specifier, files)
+                : extension === 'go' ? resolveGoImport(specifier, index, directories)
+                : extension === 'rs' ? resolveRustImport(outline.path, specifier, files)
+                : resolveScriptImport(outline.path, specifier, files);
+            resolved.filter(target => target !== outline.path).forEach(target => targets.add(target));
+        }
+        if (targets.size === 0) continue;
+        
+        imports.set(outline.path, Array.from(targets));
+        for (const target of Array.from(targets)) {
+            importers.set(target, [...(importers.get(target) || []), outline.path]);
+        }
+    }
+    return { imports, importers };
+}
+
+function isTestPath(path: string): boolean {
+    return /(^|\/)(tests?|__tests__|spec)\/|\.(test|spec)\.\w+$|_test\.go$/.test(path);
+}
+
+// Direct imports of the selected files come before their importers, and tests last. Neighbours are added
+// while their (truncated) size fits in `availableTokens`.
+function pickNeighbours(graph: ImportGraph, selected: string[], fileTree: FileNode[], availableTokens: number, limit: number = MAX_NEIGHBOUR_FILES): Array<{ path: string; reason: string }> {
+    const sizes = new Map(fileTree.map(f => [f.path, f.size]));
+    const candidates: Array<{ path: string; reason: string; rank: number }> = [];
+    const seen = new Set(selected);
+    
+    selected.forEach((path, order) => {
+        const add = (neighbour: string, reason: string, rank: number) => {
+            if (seen.has(neighbour)) return;
+            seen.add(neighbour);
+            candidates.push({ path: neighbour, reason, rank: rank + (isTestPath(neighbour) ? 100 : 0) + order });
+        };
+        (graph.imports.get(path) || []).forEach(neighbour => add(neighbour, `imported by \`${path}\``, 0));
+        (graph.importers.get(path) || []).forEach(neighbour => add(neighbour, `imports \`${path}\``, 10));
+    });
+    
+    const picked: Array<{ path: string; reason: string }> = [];
+    let remaining = availableTokens;
+    for (const candidate of candidates.sort((a, b) => a.rank - b.rank)) {
+        if (picked.length >= limit) break;
+        // Matches `estimateTokens` without building the text
+        const cost = Math.ceil(Math.min(sizes.get(candidate.path) ?? MAX_NEIGHBOUR_CHARS, MAX_NEIGHBOUR_CHARS) / 4);
+        if (cost > remaining) continue;
+        remaining -= cost;
+        picked.push({ path: candidate.path, reason: candidate.reason });
+    }
+    return picked;
+}
+
+function describeConnections(graph: ImportGraph, path: string): string | null {
+    const imports = graph.imports.get(path) || [];
+    const importers = graph.importers.get(path) || [];
+    if (imports.length === 0 && importers.length === 0) return null;
+    
+    const list = (paths: string[]) => paths.map(p => `\`${p}\``).join(', ');
+    return [
+        `- \`${path}\``,
+        imports.length > 0 ? `  imports: ${list(imports)}` : null,
+        importers.length > 0 ? `  imported by: ${list(importers)}` : '  imported by: no indexed file'
+    ].filter(Boolean).join('\n');
+}
+
+export {
+    extractImports,
+    buildImportGraph,
+    pickNeighbours,
+    describeConnections
+};
@@ -1,18 +1,51 @@
-import { Env, RepoIndex, CACHE_TTL, SYSTEM_PROMPT, QUERY_ANALYZER_PROMPT, createHeaders } from "./utils";
-import { ExecutionContext } from "@cloudflare/workers-types/experimental";
+import { Env, RepoIndex, FileOutline, DependencyManifest, SetupGuide, Conversation, CodeSnippet, IssueDetails, PullRequestReview, Viewer, ToolObservation, ThinkingStep, StepListener, IndexJob, IndexJobMessage, BuiltContext, GroundingReport, ModelConfig, ModelSelection, CodeSearchOptions, CodeSearchResult, SYSTEM_PROMPT, GROUNDING_FEEDBACK_PROMPT, QUERY_ANALYZER_PROMPT, createHeaders, estimateTokens, extractResponseText } from "./utils";
+import { ExecutionContext, MessageBatch, ReadableStream as AiStream } from "@cloudflare/workers-types/experimental";
 import { 
-    parseGitHubUrl, 
+    repoCacheKey,
+    assertViewerCanRead,
     indexRepository, 
+    refreshRepository,
     fetchFilesContent, 
     buildContext,
     parseQueryAnalysis
 } from "./tools";
+import { parseRepoUrl } from "./providers";
+import { getOrCreateConversation, saveTurn, summarizeHistory } from "./conversations";
+import { GitHubError, NotFoundError, toErrorPayload, errorStatus } from "./github";
+import { getRepoIndex, saveRepoIndex, isIndexStale, summarizeIndex } from "./storage";
+import { getIndexJob, findActiveJob, startIndexJob, runIndexJob } from "./jobs";
+import { embedRepository, retrieveSnippets } from "./retrieval";
+import { runAgentLoop } from "./agent";
+import { classifyIntent, isIssueQuestion } from "./context-budget";
+import { checkGrounding, needsRegeneration, describeProblems } from "./grounding";
+import { CodeSearchError, searchCode } from "./code-search";
+import { outlineRepository, findDefinitions } from "./outlines";
+import { buildImportGraph, pickNeighbours } from "./imports";
+import { formatSetupGuide } from "./setup-guide";
+import { MODELS, DEFAULT_MODELS, UnknownModelError, ModelUnavailableError, modelsFor, selectModels, runModel } from "./models";
+import { AuthConfigError, getViewer, handleLogin, handleCallback, handleLogout, handleSessionInfo } from "./auth";
+import { WebhookConfigError, handleWebhook } from "./webhooks";
+import { getIssueDetails, extractIssueMentions, findLikelyFiles, linkIssuesToCode, formatIssueDetails } from "./issues";
+import { getPullRequestDetails, reviewPullRequest, formatPullRequestReview, formatPullRequestDetails } from "./reviews";
+
+const ANSWER_MAX_TOKENS = 2048;
+// Headings and instructions wrapped around the context in the answer prompt
+const PROMPT_OVERHEAD_TOKENS = 200;
+const MIN_CONTEXT_TOKENS = 2000;
+// Answers scoring below this with problems that cannot be fixed in place are generated once more
+const REGENERATE_BELOW_SCORE = 0.8;
+// Files and names per file listed for the query analyzer
+const MAX_ANALYZER_OUTLINES = 60;
+const MAX_ANALYZER_SYMBOLS = 8;
+// Connected files only fill up to this share of the context budget, so the files asked about keep most of it
+const NEIGHBOUR_BUDGET_SHARE = 0.5;
+const EMPTY_ANSWER = "I apologize, but I couldn't generate a response. Please try rephrasing your question.";
 
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
     console.log("Received request for:", url.pathname);
-        
+    
         const corsHeaders = {
             'Access-Control-Allow-Origin': '*',
             'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
@@ -22,33 +55,122 @@ export default {
         if (request.method === 'OPTIONS') {
             return new Response(null, { headers: corsHeaders });
         }
-        
+    
     if (url.pathname.startsWith("/api/")) {
             try {
+      switch (url.pathname) {
+                    case "/api/auth/login":
+                        return await handleLogin(request, env);
+                    case "/api/auth/callback":
+                        return await handleCallback(request, env);
+                    case "/api/auth/logout":
+                        return await handleLogout(request, env);
+                    case "/api/webhooks/github":
+                        return await handleWebhook(request, env);
+                    case "/api/models":
+                        return new Response(JSON.stringify({
+                            planning: modelsFor('planning'),
+                            answering: modelsFor('answering'),
+                            defaults: DEFAULT_MODELS
+                        }), {
+                            status: 200,
+                            headers: { 'Content-Type': 'application/json', ...corsHeaders }
+                        });
+                    case "/api/auth/me": {
+                        const result = await handleSessionInfo(request, env);
+                        return new Response(JSON.stringify(result), {
+                            status: 200,
+                            headers: { 'Content-Type': 'application/json', ...corsHeaders }
+                        });
+                    }
+                }
+                
+                const viewer = await getViewer(request, env);
+      
       switch (url.pathname) {
         case "/api/index-repo": {
-                        const result = await handleRepoIndexing(request, env);
+                        const result = await handleRepoIndexing(request, env, ctx, viewer);
                         return new Response(JSON.stringify(result), {
-                            status: result.success ? 200 : 500,
+                            status: result.job ? 202 : 200,
                             headers: { 'Content-Type': 'application/json', ...corsHeaders }
                         });
         }
         case "/api/ask": {
-                        const body = await request.json() as { url: string; question: string };
-                        const result = await handleQuestion(body.url, body.question, env);
+                        const body = await request.json() as AskRequest;
+                        const models = selectModels({ answering: body.model, planning: body.planningModel });
+                        const result = await handleQuestion(body.url, body.question, env, ctx, viewer, models, body.conversationId);
                         return new Response(JSON.stringify(result), {
                             status: 200,
                             headers: { 'Content-Type': 'application/json', ...corsHeaders }
                         });
                     }
-                    case "/api/repo-status": {
+                    case "/api/ask/stream": {
+                        const body = await request.json() as AskRequest;
+                        const models = selectModels({ answering: body.model, planning: body.planningModel });
+                        const stream = handleQuestionStream(body.url, body.question, env, ctx, viewer, models, body.conversationId);
+                        return new Response(stream, {
+                            status: 200,
+                            headers: { 
+                                'Content-Type': 'text/event-stream',
+                                'Cache-Control': 'no-cache',
+                                ...corsHeaders 
+                            }
+                        });
+                    }
+                    case "/api/issue": {
+                        const body = await request.json() as { url: string; number: number };
+                        const result = await handleIssueDeepDive(body.url, Number(body.number), env, viewer);
+                        return new Response(JSON.stringify(result), {
+                            status: 200,
+                            headers: { 'Content-Type': 'application/json', ...corsHeaders }
+                        });
+                    }
+                    case "/api/search-code": {
+                        const body = await request.json() as CodeSearchOptions & { url: string };
+                        const result = await handleCodeSearch(body.url, body, env, viewer);
+                        return new Response(JSON.stringify(result), {
+                            status: 200,
+                            headers: { 'Content-Type': 'application/json', ...corsHeaders }
+                        });
+                    }
+                    case "/api/setup-guide": {
                         const body = await request.json() as { url: string };
-                        const index = await getRepoIndex(body.url, env);
+                        const result = await handleSetupGuide(body.url, env, viewer);
+                        return new Response(JSON.stringify(result), {
+                            status: 200,
+                            headers: { 'Content-Type': 'application/json', ...corsHeaders }
+                        });
+                    }
+                    case "/api/dependencies": {
+                        const body = await request.json() as { url: string };
+                        const result = await handleDependencies(body.url, env, viewer);
+                        return new Response(JSON.stringify(result), {
+                            status: 200,
+                            headers: { 'Content-Type': 'application/json', ...corsHeaders }
+                        });
+                    }
+                    case "/api/review-pr": {
+                        const body = await request.json() as { url: string; number: number };
+                        const result = await handlePullRequestReview(body.url, Number(body.number), env, viewer);
+                        return new Response(JSON.stringify(result), {
+                            status: 200,
+                            headers: { 'Content-Type': 'application/json', ...corsHeaders }
+                        });
+                    }
+                    case "/api/repo-status": {
+                        const body = await request.json() as { url: string; jobId?: string };
+                        const [index, found] = await Promise.all([
+                            getRepoIndex(body.url, env, viewer, []),
+                            body.jobId ? getIndexJob(body.jobId, env) : findActiveJob(body.url, env, viewer)
+                        ]);
+                        const job = found && (found.userId ?? null) === viewer.userId ? found : null;
                         return new Response(JSON.stringify({
                             indexed: !!index,
                             indexedAt: index?.indexedAt || null,
-                            issuesCount: index?.issues.length || 0,
-                            filesCount: index?.fileTree.length || 0
+                            issuesCount: index?.summary?.issues || 0,
+                            filesCount: index?.summary?.files || 0,
+                            stats: index ? buildIndexStats(index) : null,
+                            job
                         }), {
                             status: 200,
                             headers: { 'Content-Type': 'application/json', ...corsHeaders }
@@ -57,6 +179,28 @@ export default {
                 }
             } catch (error) {
                 console.error("API Error:", error);
+                if (error instanceof UnknownModelError || error instanceof CodeSearchError) {
+                    return new Response(JSON.stringify({ success: false, message: error.message }), {
+                        status: 400,
+                        headers: { 'Content-Type': 'application/json', ...corsHeaders }
+                    });
+                }
+                if (error instanceof AuthConfigError || error instanceof WebhookConfigError) {
+                    return new Response(JSON.stringify({ success: false, message: error.message }), {
+                        status: 501,
+                        headers: { 'Content-Type': 'application/json', ...corsHeaders }
+                    });
+                }
+                if (error instanceof GitHubError) {
+                    return new Response(JSON.stringify({
+                        success: false,
+                        message: error.message,
+                        error: toErrorPayload(error)
+                    }), {
+                        status: errorStatus(error),
+                        headers: { 'Content-Type': 'application/json', ...corsHeaders }
+                    });
+                }
                 return new Response(JSON.stringify({ 
                     error: error instanceof Error ? error.message : 'Unknown error' 
                 }), {
@@ -65,210 +209,580 @@ export default {
                 });
             }
         }
-        
+    
     return new Response(null, { status: 404 });
+  },
+  
+  async queue(batch: MessageBatch<IndexJobMessage>, env: Env): Promise<void> {
+    for (const message of batch.messages) {
+      await runIndexJob(message.body.jobId, env);
+      message.ack();
+    }
   }
 };
 
-async function getRepoIndex(url: string, env: Env): Promise<RepoIndex | null> {
-    const cacheKey = `repo:${url}`;
-    const cached = await env.CACHE_KV.get(cacheKey);
-    if (cached) {
-        return JSON.parse(cached) as RepoIndex;
+async function scheduleRefresh(url: string, index: RepoIndex, env: Env, ctx: ExecutionContext, viewer: Viewer): Promise<boolean> {
+    const location = parseRepoUrl(url, env);
+    const lockKey = `refresh:${repoCacheKey(location, index.cacheScope)}`;
+    if (await env.CACHE_KV.get(lockKey)) {
+        return false;
     }
-    return null;
+    await env.CACHE_KV.put(lockKey, new Date().toISOString(), { expirationTtl: 60 });
+    
+    ctx.waitUntil((async () => {
+        try {
+            const headers = createHeaders(env, viewer, location);
+            let refreshed = await refreshRepository(location, index, headers);
+            await saveRepoIndex(url, refreshed, env, viewer);
+            refreshed = await outlineRepository(location, refreshed, env, headers);
+            await saveRepoIndex(url, refreshed, env, viewer);
+            await embedRepository(url, refreshed, env, headers);
+            await saveRepoIndex(url, await linkIssuesToCode(url, refreshed, env), env, viewer);
+        } catch (error) {
+            console.error("Background refresh failed:", error);
+        } finally {
+            await env.CACHE_KV.delete(lockKey);
+        }
+    })());
+    return true;
 }
 
-async function handleRepoIndexing(request: Request, env: Env): Promise<{ success: boolean; message: string; stats?: object }> {
+// Counts come from the stored summary, so this works on an index loaded with metadata only
+function buildIndexStats(index: RepoIndex) {
+    const summary = index.summary || summarizeIndex(index);
+    
+    return {
+        name: index.name,
+        fullName: index.fullName,
+        ref: index.ref,
+        commitSha: index.commitSha,
+        scopePath: index.scopePath,
+        description: index.description,
+        language: index.language,
+        stars: index.stars,
+        forks: index.forks,
+        openIssues: index.openIssuesCount,
+        filesIndexed: summary.files,
+        recentIssuesLoaded: summary.issues,
+        recentPRsLoaded: summary.pullRequests,
+        goodFirstIssues: summary.goodFirstIssues > 0 ? summary.goodFirstIssues : null,
+        helpWantedIssues: summary.helpWantedIssues > 0 ? summary.helpWantedIssues : null,
+        hasReadme: summary.hasReadme,
+        hasContributing: summary.hasContributing,
+        indexedAt: index.indexedAt
+    };
+}
+
+async function handleRepoIndexing(request: Request, env: Env, ctx: ExecutionContext, viewer: Viewer): Promise<{ success: boolean; message: string; stats?: object; job?: IndexJob }> {
     const body = await request.json() as { url: string };
     const url = body.url;
     
     console.log("Indexing repository:", url);
     
-    const existing = await getRepoIndex(url, env);
+    const existing = await getRepoIndex(url, env, viewer);
+    await assertViewerCanRead(parseRepoUrl(url, env), viewer, env, existing);
     if (existing) {
-        const indexedTime = new Date(existing.indexedAt).getTime();
-        const now = Date.now();
-        const age = (now - indexedTime) / 1000;
-        
-        if (age < CACHE_TTL) {
-            console.log("Using cached index, age:", age, "seconds");
-            const goodFirstCount = existing.issues.filter(i => 
-                i.labels.some(l => l.toLowerCase().includes('good first'))
-            ).length;
-            const helpWantedCount = existing.issues.filter(i => 
-                i.labels.some(l => l.toLowerCase().includes('help wanted'))
-            ).length;
-            
+        if (!isIndexStale(existing)) {
+            console.log("Using cached index from", existing.indexedAt);
             return {
                 success: true,
                 message: "Repository already indexed",
-                stats: {
-                    name: existing.name,
-                    fullName: existing.fullName,
-                    description: existing.description,
-                    language: existing.language,
-                    stars: existing.stars,
-                    forks: existing.forks,
-                    openIssues: existing.openIssuesCount,
-                    filesIndexed: existing.fileTree.length,
-                    recentIssuesLoaded: existing.issues.length,
-                    recentPRsLoaded: existing.pullRequests.length,
-                    goodFirstIssues: goodFirstCount > 0 ? goodFirstCount : null,
-                    helpWantedIssues: helpWantedCount > 0 ? helpWantedCount : null,
-                    hasReadme: !!existing.readme,
-                    hasContributing: !!existing.contributing,
-                    cached: true,
-                    indexedAt: existing.indexedAt
-                }
+                stats: { ...buildIndexStats(existing), cached: true }
             };
         }
+        
+        console.log("Serving stale index from", existing.indexedAt, "while refreshing");
+        const refreshing = await scheduleRefresh(url, existing, env, ctx, viewer);
+        return {
+            success: true,
+            message: "Repository already indexed, refreshing in the background",
+            stats: { ...buildIndexStats(existing), cached: true, stale: true, refreshing }
+        };
+    }
+    
+    const job = await startIndexJob(url, env, ctx, viewer);
+    return {
+        success: true,
+        message: "Indexing started",
+        job
+    };
+}
+
+async function handleIssueDeepDive(url: string, number: number, env: Env, viewer: Viewer): Promise<{ success: boolean; issue: IssueDetails; likelyFiles: string[] }> {
+    if (!Number.isInteger(number) || number <= 0) {
+        throw new NotFoundError(`"${number}" is not a valid issue number.`);
     }
     
-    const headers = createHeaders(env);
-    const index = await indexRepository(url, headers);
+    const index = await getRepoIndex(url, env, viewer, ['tree', 'issues']);
+    await assertViewerCanRead(parseRepoUrl(url, env), viewer, env, index);
+    const details = await getIssueDetails(url, number, index, env, viewer);
+    if (!details) {
+        throw new NotFoundError(`Issue #${number} was not found in this repository.`);
+    }
     
+    const likelyFiles = index ? await findLikelyFiles(details, index, url, env) : [];
+    return { success: true, issue: details, likelyFiles };
+}
+
+async function handlePullRequestReview(url: string, number: number, env: Env, viewer: Viewer): Promise<{ success: boolean; review: PullRequestReview }> {
+    if (!Number.isInteger(number) || number <= 0) {
+        throw new NotFoundError(`"${number}" is not a valid pull request number.`);
+    }
+    
+    const index = await getRepoIndex(url, env, viewer, ['docs']);
+    await assertViewerCanRead(parseRepoUrl(url, env), viewer, env, index);
+    const review = await reviewPullRequest(url, number, index, env, viewer);
+    if (!review) {
+        throw new NotFoundError(`Pull request #${number} was not found in this repository.`);
+    }
+    return { success: true, review };
+}
+
+async function handleCodeSearch(url: string, options: CodeSearchOptions, env: Env, viewer: Viewer): Promise<{ success: boolean } & CodeSearchResult> {
+    const index = await getRepoIndex(url, env, viewer, ['tree']);
     if (!index) {
+        throw new NotFoundError("This repository has not been indexed yet. Index it before searching its code.");
+    }
+    
+    const location = parseRepoUrl(url, env);
+    const result = await searchCode(location, index, {
+        query: options.query,
+        mode: options.mode,
+        backend: options.backend,
+        path: options.path,
+        caseSensitive: options.caseSensitive,
+        contextLines: options.contextLines
+    }, createHeaders(env, viewer, location), env);
+    return { success: true, ...result };
+}
+
+async function handleDependencies(url: string, env: Env, viewer: Viewer): Promise<{ success: boolean; fullName: string; ref: string; manifests: DependencyManifest[] }> {
+    const index = await getRepoIndex(url, env, viewer, ['manifests']);
+    if (!index) {
+        throw new NotFoundError("This repository has not been indexed yet. Index it before listing its dependencies.");
+    }
+    return { success: true, fullName: index.fullName, ref: index.ref, manifests: index.manifests };
+}
+
+// The guide is built at index time; `markdown` is the same rendering the chat answer sees
+async function handleSetupGuide(url: string, env: Env, viewer: Viewer): Promise<{ success: boolean; fullName: string; ref: string; guide: SetupGuide; markdown: string }> {
+    const index = await getRepoIndex(url, env, viewer, ['setup']);
+    if (!index) {
+        throw new NotFoundError("This repository has not been indexed yet. Index it before asking for setup instructions.");
+    }
+    return { success: true, fullName: index.fullName, ref: index.ref, guide: index.setupGuide, markdown: formatSetupGuide(index.setupGuide, index.fullName) };
+}
+
+interface AskRequest {
+    url: string;
+    question: string;
+    conversationId?: string;
+    // Model ids from /api/models; the defaults are used when left out
+    model?: string;
+    planningModel?: string;
+}
+
+// A previous answer and what was wrong with it, for a second attempt
+interface AnswerFeedback {
+    answer: string;
+    problems: string;
+}
+
+interface PreparedQuestion {
+    index: RepoIndex;
+    context: BuiltContext;
+    history: string;
+    additionalFiles: Record<string, string>;
+    snippets: CodeSnippet[];
+    observations: ToolObservation[];
+}
+
+async function handleQuestion(url: string, question: string, env: Env, ctx: ExecutionContext, viewer: Viewer, models: ModelSelection, conversationId?: string): Promise<{ answer: string; conversationId: string; thinking: ThinkingStep[]; grounding?: GroundingReport; debug?: object; error?: object }> {
+    console.log("Question:", question);
+    
+    const conversation = await getOrCreateConversation(conversationId, url, env, viewer);
+    const thinking: ThinkingStep[] = [];
+    
+    let prepared: PreparedQuestion;
+    try {
+        prepared = await prepareQuestion(url, question, conversation, env, ctx, viewer, models, step => thinking.push(step));
+    } catch (error) {
+        if (!(error instanceof GitHubError)) throw error;
         return {
-            success: false,
-            message: "Failed to index repository. Check if the URL is correct and the repository is public."
+            answer: `I couldn't access this repository. ${error.message}`,
+            conversationId: conversation.id,
+            thinking: [...thinking, { step: "Error", detail: "Failed to access repository", status: 'done' }],
+            error: toErrorPayload(error)
         };
     }
     
-    const cacheKey = `repo:${url}`;
-    await env.CACHE_KV.put(cacheKey, JSON.stringify(index), { expirationTtl: CACHE_TTL });
+    const { index, context, history, additionalFiles, snippets, observations } = prepared;
+    const sources = { files: additionalFiles, snippets, observations };
+    const onStep = (step: ThinkingStep) => thinking.push(step);
+    const answer = await generateAnswer(question, context.text, history, env, models, onStep) ?? generationFailure(models);
+    let grounded = checkGrounding(answer, index, sources);
     
-    const goodFirstCount = index.issues.filter(i => 
-        i.labels.some(l => l.toLowerCase().includes('good first'))
-    ).length;
-    const helpWantedCount = index.issues.filter(i => 
-        i.labels.some(l => l.toLowerCase().includes('help wanted'))
-    ).length;
+    if (needsRegeneration(grounded.report, REGENERATE_BELOW_SCORE)) {
+        thinking.push({ 
+            step: "Checking references", 
+            detail: `${grounded.report.problems.length} could not be verified, answering again`, 
+            status: 'done' 
+        });
+        const retry = await generateAnswer(question, context.text, history, env, models, onStep, { answer, problems: describeProblems(grounded.report) });
+        const regrounded = retry && retry !== EMPTY_ANSWER ? checkGrounding(retry, index, sources) : null;
+        if (regrounded && regrounded.report.score > grounded.report.score) {
+            grounded = { answer: regrounded.answer, report: { ...regrounded.report, regenerated: true } };
+        }
+    }
+    
+    await recordTurn(conversation, question, grounded.answer, additionalFiles, env);
     
     return {
-        success: true,
-        message: "Repository indexed successfully",
-        stats: {
-            name: index.name,
-            fullName: index.fullName,
-            description: index.description,
-                    language: index.language,
-                    stars: index.stars,
-                    forks: index.forks,
-                    openIssues: index.openIssuesCount,
-                    filesIndexed: index.fileTree.length,
-            recentIssuesLoaded: index.issues.length,
-            recentPRsLoaded: index.pullRequests.length,
-            goodFirstIssues: goodFirstCount > 0 ? goodFirstCount : null,
-            helpWantedIssues: helpWantedCount > 0 ? helpWantedCount : null,
-            hasReadme: !!index.readme,
-            hasContributing: !!index.contributing,
-            indexedAt: index.indexedAt
-        }
+        answer: grounded.answer,
+        conversationId: conversation.id,
+        thinking,
+        grounding: grounded.report,
+        debug: buildDebugInfo(index, additionalFiles, snippets, context, models)
     };
 }
 
-interface ThinkingStep {
-    step: string;
-    detail: string;
-    status: 'done' | 'working';
-}
-
-async function handleQuestion(url: string, question: string, env: Env): Promise<{ answer: string; thinking: ThinkingStep[]; debug?: object }> {
-    console.log("Question:", question);
+function handleQuestionStream(url: string, question: string, env: Env, ctx: ExecutionContext, viewer: Viewer, models: ModelSelection, conversationId?: string): ReadableStream<Uint8Array> {
+    console.log("Question (stream):", question);
     
-    const thinking: ThinkingStep[] = [];
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    const encoder = new TextEncoder();
     
-    thinking.push({ step: "Loading repository data", detail: "Checking cached index", status: 'done' });
+    const send = (event: string, data: unknown) => 
+        writer.write(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
     
-    let index = await getRepoIndex(url, env);
+    const run = async () => {
+        try {
+            const conversation = await getOrCreateConversation(conversationId, url, env, viewer);
+            await send('conversation', { conversationId: conversation.id });
+            
+            // Step listeners cannot wait for the write; a client that went away must not leave an unhandled rejection
+            const sendStep = (step: ThinkingStep) => {
+                send('thinking', step).catch(() => {});
+            };
+            const prepared = await prepareQuestion(url, question, conversation, env, ctx, viewer, models, sendStep);
+            
+            const { index, context, history, additionalFiles, snippets, observations } = prepared;
+            let answer = '';
+            
+            for await (const token of generateAnswerStream(question, context.text, history, env, models, sendStep)) {
+                answer += token;
+                await send('token', { text: token });
+            }
+            
+            if (!answer) {
+                answer = EMPTY_ANSWER;
+                await send('token', { text: answer });
+            }
+            
+            // Tokens are already on screen, so instead of answering again the corrected answer replaces them
+            const grounded = checkGrounding(answer, index, { files: additionalFiles, snippets, observations });
+            if (grounded.report.problems.length > 0) {
+                await send('thinking', { 
+                    step: "Checking references", 
+                    detail: `${grounded.report.problems.length} could not be verified`, 
+                    status: 'done' 
+                });
+            }
+            await send('grounding', { report: grounded.report, answer: grounded.answer });
+            
+            await recordTurn(conversation, question, grounded.answer, additionalFiles, env);
+            
+            await send('done', { debug: buildDebugInfo(index, additionalFiles, snippets, context, models) });
+        } catch (error) {
+            console.error("Stream error:", error);
+            // The error may be that the client went away, in which case these writes fail as well
+            if (error instanceof GitHubError) {
+                await send('thinking', { step: "Error", detail: "Failed to access repository", status: 'done' }).catch(() => {});
+                await send('error', toErrorPayload(error)).catch(() => {});
+            } else {
+                await send('error', { message: error instanceof Error ? error.message : 'Unknown error' }).catch(() => {});
+            }
+        } finally {
+            await writer.close().catch(() => {});
+        }
+    };
+    
+    ctx.waitUntil(run());
+    return readable;
+}
+
+async function prepareQuestion(url: string, question: string, conversation: Conversation, env: Env, ctx: ExecutionContext, viewer: Viewer, models: ModelSelection, onStep: StepListener): Promise<PreparedQuestion> {
+    onStep({ step: "Loading repository data", detail: "Checking cached index", status: 'done' });
+    
+    const location = parseRepoUrl(url, env);
+    // Every part is read: the context has a share for each of them whatever the intent, and a refresh starts from this index
+    let index = await getRepoIndex(url, env, viewer);
     
     if (!index) {
-        thinking.push({ step: "Rebuilding index", detail: "Cache expired, fetching fresh data", status: 'done' });
+        onStep({ step: "Rebuilding index", detail: "No cached index, fetching fresh data", status: 'done' });
         console.log("Index not found, rebuilding...");
-        const headers = createHeaders(env);
-        index = await indexRepository(url, headers);
-        
-        if (!index) {
-            return {
-                answer: "I couldn't access this repository. Please make sure the URL is correct and the repository is public, then try indexing it again.",
-                thinking: [{ step: "Error", detail: "Failed to access repository", status: 'done' }]
-            };
-        }
-        
-        const cacheKey = `repo:${url}`;
-        await env.CACHE_KV.put(cacheKey, JSON.stringify(index), { expirationTtl: CACHE_TTL });
+        await assertViewerCanRead(location, viewer, env, null);
+        const headers = createHeaders(env, viewer, location);
+        index = await indexRepository(location, headers);
+        await saveRepoIndex(url, index, env, viewer);
+    } else if (isIndexStale(index) && await scheduleRefresh(url, index, env, ctx, viewer)) {
+        onStep({ step: "Refreshing index", detail: "Using cached data while recent changes are fetched in the background", status: 'working' });
     }
     
-    thinking.push({ 
+    onStep({ 
         step: "Repository loaded", 
         detail: `${index.fileTree.length} files, ${index.issues.length} issues indexed`, 
         status: 'done' 
     });
     
-    const { owner, repo } = parseGitHubUrl(url);
+    const history = summarizeHistory(conversation);
+    if (history) {
+        onStep({ 
+            step: "Recalling conversation", 
+            detail: `${conversation.turns.length} previous ${conversation.turns.length === 1 ? 'turn' : 'turns'}`, 
+            status: 'done' 
+        });
+    }
     
-    thinking.push({ step: "Analyzing question", detail: "Determining what data is needed", status: 'done' });
+    onStep({ step: "Searching code", detail: "Looking up semantically related code", status: 'working' });
+    const snippets = await findRelatedCode(question, url, index, env);
+    const definitions = findDefinitions(question, index.outlines);
+    if (definitions.length > 0) {
+        onStep({ 
+            step: "Symbols found", 
+            detail: definitions.map(d => `\`${d.symbol.name}\` in \`${d.path}\``).join(', '), 
+            status: 'done' 
+        });
+    }
+    const definitionPaths = definitions.map(d => d.path);
+    const relatedPaths = Array.from(new Set(snippets.map(s => s.path)));
+    if (relatedPaths.length > 0) {
+        onStep({ 
+            step: "Related code found", 
+            detail: relatedPaths.map(f => `\`${f}\``).join(', '), 
+            status: 'done' 
+        });
+    }
     
+    const issueContext = await loadMentionedThreads(question, index, url, env, viewer, models, onStep);
+    
+    onStep({ step: "Analyzing question", detail: "Determining what data is needed", status: 'done' });
+    
+    const budget = contextBudget(question, history, models.answering);
     let additionalFiles: Record<string, string> = {};
-    const shouldFetchFiles = await analyzeQuery(question, index, env);
+    const shouldFetchFiles = await analyzeQuery(question, index, history, Array.from(new Set([...definitionPaths, ...relatedPaths])), env, models, onStep);
+    // Files that define what the question names are fetched whatever the analysis picked
+    const knownFiles = [...definitionPaths, ...issueContext.likelyFiles];
+    if (knownFiles.length > 0) {
+        shouldFetchFiles.needsFiles = true;
+        shouldFetchFiles.files = Array.from(new Set([...knownFiles, ...shouldFetchFiles.files])).slice(0, 6);
+    }
     
     if (shouldFetchFiles.needsFiles && shouldFetchFiles.files.length > 0) {
-        thinking.push({ 
-            step: "Fetching source files", 
-            detail: shouldFetchFiles.files.map(f => f.split('/').pop()).join(', '), 
-            status: 'done' 
-        });
-        console.log("Fetching additional files:", shouldFetchFiles.files);
-        const headers = createHeaders(env);
-        additionalFiles = await fetchFilesContent(owner, repo, shouldFetchFiles.files, headers);
+        const reused = shouldFetchFiles.files.filter(f => f in conversation.fileContents);
+        const toFetch = shouldFetchFiles.files.filter(f => !(f in conversation.fileContents));
+        
+        for (const path of reused) {
+            additionalFiles[path] = conversation.fileContents[path];
+        }
+        if (reused.length > 0) {
+            onStep({ 
+                step: "Reusing files from conversation", 
+                detail: reused.map(f => `\`${f}\``).join(', '), 
+                status: 'done' 
+            });
+        }
+        
+        if (toFetch.length > 0) {
+            onStep({ 
+                step: "Fetching source files", 
+                detail: toFetch.map(f => f.split('/').pop()).join(', '), 
+                status: 'done' 
+            });
+            console.log("Fetching additional files:", toFetch);
+            const headers = createHeaders(env, viewer, location);
+            const fetched = await fetchFilesContent(location, index.commitSha || index.ref, toFetch, headers, path => {
+                onStep({ step: "Reading file", detail: `\`${path}\``, status: 'working' });
+            });
+            additionalFiles = { ...additionalFiles, ...fetched };
+        }
+        
+        // Direct imports and importers of the selected files, so the answer sees both sides of a call
+        const loadedTokens = Object.values(additionalFiles).reduce((sum, content) => sum + estimateTokens(content), 0);
+        const neighbours = pickNeighbours(buildImportGraph(index), Object.keys(additionalFiles), index.fileTree, Math.floor(budget * NEIGHBOUR_BUDGET_SHARE) - loadedTokens);
+        if (neighbours.length > 0) {
+            onStep({ 
+                step: "Adding connected files", 
+                detail: neighbours.map(n => `\`${n.path}\` (${n.reason})`).join(', '), 
+                status: 'done' 
+            });
+            const cached = neighbours.filter(n => n.path in conversation.fileContents).map(n => n.path);
+            cached.forEach(path => additionalFiles[path] = conversation.fileContents[path]);
+            const missing = neighbours.map(n => n.path).filter(path => !cached.includes(path));
+            if (missing.length > 0) {
+                const fetched = await fetchFilesContent(location, index.commitSha || index.ref, missing, createHeaders(env, viewer, location));
+                additionalFiles = { ...additionalFiles, ...fetched };
+            }
+        }
         
         const fetchedFiles = Object.keys(additionalFiles);
         if (fetchedFiles.length > 0) {
-            thinking.push({ 
+            onStep({ 
                 step: "Files loaded", 
                 detail: fetchedFiles.map(f => `\`${f}\``).join(', '), 
                 status: 'done' 
             });
         }
     } else {
-        thinking.push({ 
+        onStep({ 
             step: "Using indexed data", 
             detail: "No additional file fetching needed", 
             status: 'done' 
         });
     }
     
-    thinking.push({ step: "Building context", detail: "Preparing repository context for analysis", status: 'done' });
-    const context = buildContext(index, additionalFiles);
+    // Code questions and questions about a specific issue or PR get a bounded tool loop
+    // so the model can look further than the first set of files
+    let observations: ToolObservation[] = issueContext.observations;
+    if (shouldFetchFiles.needsFiles || /#\d+/.test(question)) {
+        onStep({ step: "Investigating", detail: "Deciding what else to look at", status: 'working' });
+        const agent = await runAgentLoop(question, index, url, history, additionalFiles, observations, env, viewer, models, onStep);
+        additionalFiles = { ...additionalFiles, ...agent.files };
+        observations = [...observations, ...agent.observations];
+    }
     
-    thinking.push({ step: "Generating response", detail: "Analyzing with AI", status: 'done' });
-    const answer = await generateAnswer(question, context, env);
+    // Whole files win over snippets of the same file
+    const extraSnippets = snippets.filter(s => !(s.path in additionalFiles));
     
-    return {
-        answer,
-        thinking,
-        debug: {
-            filesInIndex: index.fileTree.length,
-            issuesInIndex: index.issues.length,
-            additionalFilesFetched: Object.keys(additionalFiles).length,
-            contextLength: context.length
+    onStep({ step: "Building context", detail: "Preparing repository context for analysis", status: 'done' });
+    const intent = classifyIntent(question, shouldFetchFiles.needsFiles);
+    const context = buildContext(index, additionalFiles, extraSnippets, observations, { intent, maxTokens: budget, question });
+    const trimmed = context.budget.sections.filter(s => s.trimmed > 0 || s.dropped > 0).map(s => s.section);
+    if (trimmed.length > 0) {
+        onStep({ 
+            step: "Fitting context", 
+            detail: `Trimmed ${trimmed.join(', ')} to fit ${context.budget.limit} tokens`, 
+            status: 'done' 
+        });
+    }
+    
+    onStep({ step: "Generating response", detail: `Answering with ${models.answering.label}`, status: 'done' });
+    
+    return { index, context, history, additionalFiles, snippets: extraSnippets, observations };
+}
+
+// Issues and pull requests mentioned in the question are loaded in full, together with the files they most likely involve
+async function loadMentionedThreads(question: string, index: RepoIndex, url: string, env: Env, viewer: Viewer, models: ModelSelection, onStep: StepListener): Promise<{ observations: ToolObservation[]; likelyFiles: string[] }> {
+    const observations: ToolObservation[] = [];
+    const likelyFiles: string[] = [];
+    
+    for (const number of extractIssueMentions(question)) {
+        try {
+            const knownPR = index.pullRequests.some(pr => pr.number === number);
+            const details = knownPR ? null : await loadIssue(number, index, url, env, viewer, onStep);
+            
+            if (details && !details.isPullRequest) {
+                const files = await findLikelyFiles(details, index, url, env);
+                onStep({ 
+                    step: "Issue loaded", 
+                    detail: `#${number}: ${details.comments.length} comments, ${details.linkedPullRequests.length} linked PRs${files.length > 0 ? `; likely files ${files.map(f => `\`${f}\``).join(', ')}` : ''}`, 
+                    status: 'done' 
+                });
+                observations.push({ title: `Issue #${number} in full`, content: formatIssueDetails(details) });
+                likelyFiles.push(...files);
+            } else if (knownPR || details?.isPullRequest) {
+                const loaded = await loadPullRequest(question, number, index, url, env, viewer, models, onStep);
+                if (loaded) {
+                    observations.push(loaded.observation);
+                    likelyFiles.push(...loaded.files);
+                }
+            }
+        } catch (error) {
+            if (!(error instanceof GitHubError)) throw error;
+            console.log(`#${number} lookup failed:`, error);
         }
-    };
+    }
+    
+    return { observations, likelyFiles };
+}
+
+async function loadIssue(number: number, index: RepoIndex, url: string, env: Env, viewer: Viewer, onStep: StepListener): Promise<IssueDetails | null> {
+    onStep({ step: "Reading issue", detail: `#${number} with comments, timeline and linked PRs`, status: 'working' });
+    return getIssueDetails(url, number, index, env, viewer);
 }
 
-async function analyzeQuery(question: string, index: RepoIndex, env: Env): Promise<{ needsFiles: boolean; files: string[] }> {
-    const lowerQuestion = question.toLowerCase();
+async function loadPullRequest(question: string, number: number, index: RepoIndex, url: string, env: Env, viewer: Viewer, models: ModelSelection, onStep: StepListener): Promise<{ observation: ToolObservation; files: string[] } | null> {
+    if (/\breview/i.test(question)) {
+        onStep({ step: "Reviewing pull request", detail: `#${number}: diff, review comments and checks`, status: 'working' });
+        const review = await reviewPullRequest(url, number, index, env, viewer, models);
+        if (!review) return null;
+        onStep({ 
+            step: "Review ready", 
+            detail: `#${number}: ${review.riskyHunks.length} risky changes, ${review.missingTests.length} missing tests`, 
+            status: 'done' 
+        });
+        return { observation: { title: `Review of pull request #${number}`, content: formatPullRequestReview(review) }, files: [] };
+    }
     
-    const issueOnlyPatterns = [
-        /^(find|list|show).*(issue|bug|pr|pull request)/i,
-        /good first issue/i,
-        /help wanted/i,
-        /how (do i|can i|to) contribute/i,
-        /contribution guide/i
-    ];
+    onStep({ step: "Reading pull request", detail: `#${number} with changed files and checks`, status: 'working' });
+    const details = await getPullRequestDetails(url, number, index, env, viewer);
+    if (!details) return null;
     
-    if (issueOnlyPatterns.some(p => p.test(question))) {
+    const indexed = new Set(index.fileTree.map(f => f.path));
+    const files = details.files
+        .filter(f => f.status !== 'removed' && indexed.has(f.path))
+        .slice(0, 3)
+        .map(f => f.path);
+    return { observation: { title: `Pull request #${number}`, content: formatPullRequestDetails(details) }, files };
+}
+
+async function findRelatedCode(question: string, url: string, index: RepoIndex, env: Env): Promise<CodeSnippet[]> {
+    try {
+        return await retrieveSnippets(question, url, index, env);
+    } catch (error) {
+        console.log("Retrieval error:", error);
+        return [];
+    }
+}
+
+async function recordTurn(conversation: Conversation, question: string, answer: string, files: Record<string, string>, env: Env): Promise<void> {
+    try {
+        await saveTurn(conversation, {
+            question,
+            answer,
+            files: Object.keys(files),
+            askedAt: new Date().toISOString()
+        }, files, env);
+    } catch (error) {
+        console.error("Failed to save conversation turn:", error);
+    }
+}
+
+function buildDebugInfo(index: RepoIndex, additionalFiles: Record<string, string>, snippets: CodeSnippet[], context: BuiltContext, models: ModelSelection) {
+    return {
+        filesInIndex: index.fileTree.length,
+        issuesInIndex: index.issues.length,
+        additionalFilesFetched: Object.keys(additionalFiles).length,
+        snippetsRetrieved: snippets.length,
+        contextLength: context.text.length,
+        contextBudget: context.budget,
+        models: {
+            planning: models.planning.id,
+            answering: models.answering.id,
+            calls: models.usage
+        }
+    };
+}
+
+// Whatever the answer model's window has left after the prompt around the context and room for the reply
+function contextBudget(question: string, history: string, model: ModelConfig): number {
+    const reserved = estimateTokens(SYSTEM_PROMPT) + estimateTokens(history) + estimateTokens(question) + Math.min(ANSWER_MAX_TOKENS, model.maxTokens) + PROMPT_OVERHEAD_TOKENS;
+    return Math.max(MIN_CONTEXT_TOKENS, model.contextWindow - reserved);
+}
+
+async function analyzeQuery(question: string, index: RepoIndex, history: string, relatedPaths: string[], env: Env, models: ModelSelection, onStep: StepListener): Promise<{ needsFiles: boolean; files: string[] }> {
+    if (isIssueQuestion(question)) {
         return { needsFiles: false, files: [] };
     }
     
@@ -291,29 +805,35 @@ async function analyzeQuery(question: string, index: RepoIndex, env: Env): Promi
     
     const likelyNeedsCode = needsCodePatterns.some(p => p.test(question));
     
-    if (!likelyNeedsCode) {
+    // Follow-ups like "show me that one" carry no keywords, so let the LLM resolve them against history
+    if (!likelyNeedsCode && !history) {
         return { needsFiles: false, files: [] };
     }
     
-    // Use LLM to determine specific files needed
-    const fileList = index.fileTree
+    // Use LLM to determine specific files needed; semantically related files go first
+    // so they are offered even when they sit far down the tree
+    const treePaths = index.fileTree
         .filter(f => f.type === 'file')
         .map(f => f.path)
-        .slice(0, 100)
-        .join('\n');
+        .filter(p => !relatedPaths.includes(p))
+        .slice(0, 100);
+    const fileList = [...relatedPaths, ...treePaths].join('\n');
+    const symbolList = describeSymbols(index, [...relatedPaths, ...treePaths]);
     
+    const historySection = history ? `\nConversation so far:\n${history}\n` : '';
+    const symbolSection = symbolList ? `\nTop-level symbols defined in these files:\n${symbolList}\n` : '';
     const prompt = `Question: ${question}
-
+${historySection}
 Available files:
 ${fileList}
-
+${symbolSection}
 ${QUERY_ANALYZER_PROMPT}`;
-    
+
     try {
-        const response = await env.AI.run("@cf/meta/llama-3.3-70b-instruct-fp8-fast", {
+        const response = await runModel(env, models, 'planning', {
             messages: [{ role: "user", content: prompt }],
             max_tokens: 256
-        });
+        }, onStep);
         
         const responseText = extractResponseText(response);
         return parseQueryAnalysis(responseText);
@@ -323,40 +843,109 @@ ${QUERY_ANALYZER_PROMPT}`;
     }
 }
 
-async function generateAnswer(question: string, context: string, env: Env): Promise<string> {
-    const userMessage = `${context}
+function describeSymbols(index: RepoIndex, paths: string[]): string {
+    const outlines = new Map(index.outlines.map(outline => [outline.path, outline]));
+    return paths
+        .map(path => outlines.get(path))
+        .filter((outline): outline is FileOutline => !!outline && outline.symbols.length > 0)
+        .slice(0, MAX_ANALYZER_OUTLINES)
+        .map(outline => {
+            const names = outline.symbols.slice(0, MAX_ANALYZER_SYMBOLS).map(s => s.name);
+            const more = outline.symbols.length > names.length ? `, ... (${outline.symbols.length - names.length} more)` : '';
+            return `${outline.path}: ${names.join(', ')}${more}`;
+        })
+        .join('\n');
+}
+
+function buildAnswerMessages(question: string, context: string, history: string, feedback?: AnswerFeedback) {
+    const historySection = history ? `\n\n---\n\n**Conversation so far:**\n${history}` : '';
+    const userMessage = `${context}${historySection}
 
 ---
 
 **User Question:** ${question}
 
 Please provide a helpful, well-structured response. Use markdown formatting appropriately.`;
-    
+
+    const messages = [
+        { role: "system", content: SYSTEM_PROMPT },
+        { role: "user", content: userMessage }
+    ];
+    if (feedback) {
+        messages.push(
+            { role: "assistant", content: feedback.answer },
+            { role: "user", content: GROUNDING_FEEDBACK_PROMPT.replace('{problems}', feedback.problems) }
+        );
+    }
+    return messages;
+}
+
+// Resolves to null when no model in the fallback chain answered
+async function generateAnswer(question: string, context: string, history: string, env: Env, models: ModelSelection, onStep: StepListener, feedback?: AnswerFeedback): Promise<string | null> {
     try {
-        const response = await env.AI.run("@cf/meta/llama-3.3-70b-instruct-fp8-fast", {
-            messages: [
-                { role: "system", content: SYSTEM_PROMPT },
-                { role: "user", content: userMessage }
-            ],
-            max_tokens: 2048
-        });
+        const response = await runModel(env, models, 'answering', {
+            messages: buildAnswerMessages(question, context, history, feedback),
+            max_tokens: ANSWER_MAX_TOKENS
+        }, onStep);
         
-        return extractResponseText(response) || "I apologize, but I couldn't generate a response. Please try rephrasing your question.";
+        return extractResponseText(response) || EMPTY_ANSWER;
     } catch (error) {
-        console.error("LLM Error:", error);
-        return "An error occurred while generating the response. Please try again.";
+        if (!(error instanceof ModelUnavailableError)) throw error;
+        return null;
     }
 }
 
-function extractResponseText(response: unknown): string {
-    if (typeof response === 'string') {
-        return response;
+async function* generateAnswerStream(question: string, context: string, history: string, env: Env, models: ModelSelection, onStep: StepListener): AsyncGenerator<string> {
+    let stream: AiStream;
+    try {
+        stream = await runModel(env, models, 'answering', {
+            messages: buildAnswerMessages(question, context, history),
+            max_tokens: ANSWER_MAX_TOKENS,
+            stream: true
+        }, onStep) as AiStream;
+    } catch (error) {
+        if (!(error instanceof ModelUnavailableError)) throw error;
+        yield generationFailure(models);
+        return;
     }
-    if (response && typeof response === 'object') {
-        const resp = response as Record<string, unknown>;
-        if (typeof resp.response === 'string') {
-            return resp.response;
+    
+    yield* readAIStream(stream);
+}
+
+function generationFailure(models: ModelSelection): string {
+    const failed = models.usage.filter(u => u.role === 'answering' && u.model === null).pop();
+    const tried = (failed?.attempts || []).map(a => MODELS.find(m => m.id === a.model)?.label || a.model);
+    return `None of the answer models responded${tried.length > 0 ? ` (tried ${tried.join(', ')})` : ''}. Please try again in a moment, or pick a different model.`;
+}
+
+// Workers AI streams its output as SSE lines of the form `data: {"response":"..."}`,
+// terminated by `data: [DONE]`.
+async function* readAIStream(stream: AiStream): AsyncGenerator<string> {
+    const reader = stream.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        
+        for (const line of lines) {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith('data:')) continue;
+            
+            const payload = trimmed.slice(5).trim();
+            if (payload === '[DONE]') return;
+            
+            try {
+                const text = extractResponseText(JSON.parse(payload));
+                if (text) yield text;
+            } catch {
+                console.log("Skipping malformed stream chunk:", payload);
+            }
         }
     }
-    return '';
 }
@@ -0,0 +1,124 @@
+import { FileNode, IssueInfo, IssueSignals } from "./utils";
+
+const MAX_SIGNAL_PATHS = 10;
+const MAX_SIGNAL_SYMBOLS = 15;
+const MAX_SIGNAL_ERRORS = 5;
+const MAX_LIKELY_FILES_PER_ISSUE = 3;
+const MIN_FILE_SCORE = 2;
+// A basename that matches this many files (index.ts, utils.py) says little about which one is meant
+const MAX_AMBIGUOUS_MATCHES = 3;
+
+const SYMBOL_STOPWORDS = new Set([
+    'javascript', 'typescript', 'github', 'readme', 'todo', 'fixme', 'error', 'exception', 'undefined',
+    'null', 'true', 'false', 'object', 'function', 'string', 'number', 'promise', 'console', 'window', 'document'
+]);
+
+function extractIssueSignals(text: string): IssueSignals {
+    const paths = new Set<string>();
+    const symbols = new Set<string>();
+    const errors = new Set<string>();
+    
+    // Links to files on GitHub carry the path after /blob/<ref>/
+    for (const match of allMatches(text, /github\.com\/[^/\s]+\/[^/\s]+\/blob\/[^/\s]+\/([^\s#?)]+)/g)) {
+        paths.add(match[1]);
+    }
+    const withoutUrls = text.replace(/https?:\/\/\S+/g, ' ');
+    
+    // Stack frames (`at fn (src/a.ts:10:5)`, `File "app/b.py", line 3`) and paths written inline
+    for (const match of allMatches(withoutUrls, /(?:^|[\s("'`[])(?:[\w-]+:\/\/)?\/?((?:[\w@.-]+\/)*[\w@-][\w@.-]*\.[a-zA-Z][a-zA-Z0-9]{0,5})(?=[:\s)"'`\],]|\.(?:\s|$)|$)/gm)) {
+        const path = match[1].replace(/^(\.\.?\/)+/, '');
+        if (path.includes('/') || /\.(ts|tsx|js|jsx|mjs|cjs|py|go|rs|java|kt|rb|php|c|h|cc|cpp|hpp|cs|swift|scala|vue|svelte|json|ya?ml|toml|md)$/i.test(path)) {
+            paths.add(path);
+        }
+    }
+    
+    for (const match of allMatches(withoutUrls, /\bat (?:new |async )?([\w$]+(?:\.[\w$]+)*) \(|\bin ([\w$]+)\s*$|`([\w$.]+)(?:\(\))?`|\b([A-Z][a-z0-9]+(?:[A-Z][a-z0-9]*)+|[a-z]+(?:[A-Z][a-z0-9]*)+|[a-z][a-z0-9]*(?:_[a-z0-9]+)+)\b/gm)) {
+        const symbol = (match[1] || match[2] || match[3] || match[4]).split('.').pop() || '';
+        if (symbol.length >= 4 && !SYMBOL_STOPWORDS.has(symbol.toLowerCase()) && !/\.\w+$/.test(match[3] || '')) {
+            symbols.add(symbol);
+        }
+    }
+    
+    for (const line of withoutUrls.split('\n')) {
+        if (/\b\w*(Error|Exception)\b[:\s]|\bpanic:|^Traceback|\bFATAL\b/.test(line)) {
+            errors.add(line.trim().substring(0, 200));
+        }
+    }
+    
+    return {
+        paths: Array.from(paths).slice(0, MAX_SIGNAL_PATHS),
+        symbols: Array.from(symbols).slice(0, MAX_SIGNAL_SYMBOLS),
+        errors: Array.from(errors).slice(0, MAX_SIGNAL_ERRORS)
+    };
+}
+
+function rankIssueFiles(signals: IssueSignals, fileTree: FileNode[], codeScores?: Map<string, number>, limit: number = MAX_LIKELY_FILES_PER_ISSUE): string[] {
+    const files = fileTree.filter(f => f.type === 'file').map(f => f.path);
+    const scores = new Map<string, number>();
+    const add = (path: string, score: number) => scores.set(path, (scores.get(path) || 0) + score);
+    
+    for (const signal of signals.paths) {
+        const segments = signal.split('/').filter(Boolean);
+        // Absolute or foreign prefixes (/home/ci/app/src/a.ts) are dropped until a suffix matches the tree
+        for (let start = 0; start < segments.length; start++) {
+            const suffix = segments.slice(start).join('/');
+            const matches = files.filter(path => path === suffix || path.endsWith(`/${suffix}`));
+            if (matches.length === 0) continue;
+            if (matches.length <= MAX_AMBIGUOUS_MATCHES) {
+                const matchedSegments = segments.length - start;
+                matches.forEach(path => add(path, 3 + matchedSegments));
+            }
+            break;
+        }
+    }
+    
+    for (const symbol of signals.symbols) {
+        const wanted = normalizeName(symbol);
+        const matches = files.filter(path => normalizeName(baseName(path)) === wanted);
+        if (matches.length > 0 && matches.length <= MAX_AMBIGUOUS_MATCHES) {
+            matches.forEach(path => add(path, 3));
+        }
+    }
+    
+    if (codeScores) {
+        codeScores.forEach((score, path) => add(path, score * 4));
+    }
+    
+    return Array.from(scores.entries())
+        .filter(([, score]) => score >= MIN_FILE_SCORE)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, limit)
+        .map(([path]) => path);
+}
+
+function mapIssuesToFiles(issues: IssueInfo[], fileTree: FileNode[]): IssueInfo[] {
+    return issues.map(issue => issue.signals
+        ? { ...issue, likelyFiles: rankIssueFiles(issue.signals, fileTree) }
+        : issue);
+}
+
+function allMatches(text: string, pattern: RegExp): RegExpExecArray[] {
+    const matches: RegExpExecArray[] = [];
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        matches.push(match);
+        if (match[0] === '') pattern.lastIndex++;
+    }
+    return matches;
+}
+
+function baseName(path: string): string {
+    const name = path.split('/').pop() || path;
+    const dot = name.indexOf('.');
+    return dot > 0 ? name.substring(0, dot) : name;
+}
+
+function normalizeName(name: string): string {
+    return name.toLowerCase().replace(/[-_.]/g, '');
+}
+
+export {
+    extractIssueSignals,
+    rankIssueFiles,
+    mapIssuesToFiles
+};
@@ -0,0 +1,133 @@
+import { Env, RepoIndex, IssueDetails, Viewer, CACHE_TTL, createHeaders, truncateText } from "./utils";
+import { repoCacheKey } from "./tools";
+import { parseRepoUrl, providerFor } from "./providers";
+import { retrieveSnippets } from "./retrieval";
+import { cacheScopeFor } from "./storage";
+import { extractIssueSignals, rankIssueFiles } from "./issue-mapping";
+
+const MAX_ISSUE_MENTIONS = 2;
+const MAX_LIKELY_FILES = 5;
+const MAX_CODE_LINKED_ISSUES = 10;
+const MAX_FORMATTED_COMMENTS = 15;
+const MAX_FORMATTED_EVENTS = 20;
+
+async function getIssueDetails(url: string, number: number, index: RepoIndex | null, env: Env, viewer: Viewer): Promise<IssueDetails | null> {
+    const location = parseRepoUrl(url, env);
+    const cacheKey = `issue:${repoCacheKey(location, cacheScopeFor(index, viewer, location))}#${number}`;
+    
+    const cached = await env.CACHE_KV.get(cacheKey);
+    if (cached) {
+        return JSON.parse(cached) as IssueDetails;
+    }
+    
+    const details = await providerFor(location).fetchIssueDetails(location, number, createHeaders(env, viewer, location));
+    if (details) {
+        await env.CACHE_KV.put(cacheKey, JSON.stringify(details), { expirationTtl: CACHE_TTL });
+    }
+    return details;
+}
+
+function extractIssueMentions(text: string): number[] {
+    const numbers: number[] = [];
+    const pattern = /(?:^|[^\w&])#(\d+)\b|\b(?:issue|pr|pull request)\s+(?:number\s+)?#?(\d+)\b/gi;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null && numbers.length < MAX_ISSUE_MENTIONS) {
+        const number = Number(match[1] || match[2]);
+        if (!numbers.includes(number)) {
+            numbers.push(number);
+        }
+    }
+    return numbers;
+}
+
+// The deep-dive also has the comments, so its signals are re-extracted from the whole thread
+async function findLikelyFiles(details: IssueDetails, index: RepoIndex, url: string, env: Env): Promise<string[]> {
+    const text = [details.issue.title, details.issue.body || '', ...details.comments.map(c => c.body)].join('\n');
+    const signals = extractIssueSignals(text);
+    const codeScores = await findCodeMatches(`${details.issue.title}\n${truncateText(details.issue.body || '', 1000)}`, url, index, env);
+    return rankIssueFiles(signals, index.fileTree, codeScores, MAX_LIKELY_FILES);
+}
+
+// Runs once embeddings exist: issues naming errors or symbols are matched against code content too
+async function linkIssuesToCode(url: string, index: RepoIndex, env: Env): Promise<RepoIndex> {
+    const candidates = index.issues
+        .filter(issue => issue.signals && (issue.signals.errors.length > 0 || issue.signals.symbols.length > 0))
+        .slice(0, MAX_CODE_LINKED_ISSUES);
+    if (candidates.length === 0) return index;
+    
+    const linked = new Map<number, string[]>();
+    for (const issue of candidates) {
+        const signals = issue.signals!;
+        const query = [issue.title, ...signals.errors, ...signals.symbols].join('\n');
+        const codeScores = await findCodeMatches(query, url, index, env);
+        linked.set(issue.number, rankIssueFiles(signals, index.fileTree, codeScores));
+    }
+    
+    return {
+        ...index,
+        issues: index.issues.map(issue => linked.has(issue.number) ? { ...issue, likelyFiles: linked.get(issue.number) } : issue)
+    };
+}
+
+async function findCodeMatches(query: string, url: string, index: RepoIndex, env: Env): Promise<Map<string, number>> {
+    const scores = new Map<string, number>();
+    try {
+        const snippets = await retrieveSnippets(query, url, index, env, 8);
+        for (const snippet of snippets) {
+            scores.set(snippet.path, Math.max(scores.get(snippet.path) || 0, snippet.score));
+        }
+    } catch (error) {
+        console.log("Issue code matching error:", error);
+    }
+    return scores;
+}
+
+function formatIssueDetails(details: IssueDetails): string {
+    const { issue } = details;
+    const lines: string[] = [];
+    
+    lines.push(`[#${issue.number}](${issue.url}) **${issue.title}**`);
+    lines.push(`State: ${issue.state}${details.closedAt ? ` (closed ${details.closedAt})` : ''} | Opened by @${issue.author} on ${issue.createdAt}`);
+    if (issue.labels.length > 0) {
+        lines.push(`Labels: ${issue.labels.join(', ')}`);
+    }
+    lines.push(`Assignees: ${details.assignees.length > 0 ? details.assignees.map(a => `@${a}`).join(', ') : 'none'}`);
+    
+    lines.push('\n**Description:**');
+    lines.push(truncateText(issue.body || 'No description', 4000));
+    
+    if (details.linkedPullRequests.length > 0) {
+        lines.push('\n**Linked pull requests:**');
+        for (const pr of details.linkedPullRequests) {
+            const state = pr.merged ? 'merged' : pr.state;
+            const elsewhere = !issue.url.includes(`/${pr.repository}/`);
+            lines.push(`- [#${pr.number}](${pr.url}) ${pr.title} (${state}${elsewhere ? `, ${pr.repository}` : ''})`);
+        }
+    }
+    
+    if (details.comments.length > 0) {
+        const shown = details.comments.slice(-MAX_FORMATTED_COMMENTS);
+        const skipped = details.comments.length - shown.length;
+        lines.push(`\n**Comments (${details.comments.length}${skipped > 0 ? `, showing the last ${shown.length}` : ''}):**`);
+        for (const comment of shown) {
+            lines.push(`- @${comment.author} (${comment.createdAt}): ${truncateText(comment.body, 800).replace(/\n+/g, ' ')}`);
+        }
+    }
+    
+    if (details.timeline.length > 0) {
+        lines.push('\n**Timeline:**');
+        for (const event of details.timeline.slice(-MAX_FORMATTED_EVENTS)) {
+            lines.push(`- ${event.createdAt}${event.actor ? ` @${event.actor}` : ''}: ${event.detail}`);
+        }
+    }
+    
+    return lines.join('\n');
+}
+
+export {
+    getIssueDetails,
+    extractIssueMentions,
+    findLikelyFiles,
+    linkIssuesToCode,
+    formatIssueDetails
+};
@@ -0,0 +1,155 @@
+import { ExecutionContext } from "@cloudflare/workers-types/experimental";
+import { Env, IndexJob, IndexPhase, PhaseStatus, Viewer, ANONYMOUS_VIEWER, createHeaders } from "./utils";
+import { indexRepository, repoCacheKey } from "./tools";
+import { parseRepoUrl } from "./providers";
+import { saveRepoIndex, viewerScope } from "./storage";
+import { loadViewer } from "./auth";
+import { GitHubError } from "./github";
+import { embedRepository } from "./retrieval";
+import { linkIssuesToCode } from "./issues";
+import { outlineRepository } from "./outlines";
+
+const INDEX_PHASES: IndexPhase[] = ['metadata', 'tree', 'docs', 'manifests', 'setup', 'issues', 'prs', 'outlines', 'embeddings'];
+const JOB_TTL = 3600;
+// KV allows roughly one write per second to the same key
+const PROGRESS_FLUSH_INTERVAL_MS = 1000;
+
+async function getIndexJob(id: string, env: Env): Promise<IndexJob | null> {
+    const cached = await env.CACHE_KV.get(`job:${id}`);
+    if (cached) {
+        return JSON.parse(cached) as IndexJob;
+    }
+    return null;
+}
+
+async function saveIndexJob(job: IndexJob, env: Env): Promise<void> {
+    job.updatedAt = new Date().toISOString();
+    await env.CACHE_KV.put(`job:${job.id}`, JSON.stringify(job), { expirationTtl: JOB_TTL });
+}
+
+async function findActiveJob(url: string, env: Env, viewer: Viewer): Promise<IndexJob | null> {
+    const jobId = await env.CACHE_KV.get(activeJobKey(url, env, viewer));
+    if (!jobId) return null;
+    
+    const job = await getIndexJob(jobId, env);
+    return job && (job.status === 'queued' || job.status === 'running') ? job : null;
+}
+
+// Whether a repository is private is only known once it is indexed, so jobs are always tracked per viewer
+function activeJobKey(url: string, env: Env, viewer: Viewer): string {
+    const location = parseRepoUrl(url, env);
+    return `job-for:${repoCacheKey(location, viewerScope(viewer, location))}`;
+}
+
+// Jobs go to INDEX_QUEUE when it is bound; otherwise (local dev) they run after the response via waitUntil
+async function startIndexJob(url: string, env: Env, ctx: ExecutionContext, viewer: Viewer): Promise<IndexJob> {
+    const existing = await findActiveJob(url, env, viewer);
+    if (existing) {
+        return existing;
+    }
+    
+    const now = new Date().toISOString();
+    const job: IndexJob = {
+        id: crypto.randomUUID(),
+        url,
+        status: 'queued',
+        phases: INDEX_PHASES.map(phase => ({ phase, status: 'pending', detail: null })),
+        error: null,
+        userId: viewer.userId,
+        createdAt: now,
+        updatedAt: now
+    };
+    
+    await saveIndexJob(job, env);
+    await env.CACHE_KV.put(activeJobKey(url, env, viewer), job.id, { expirationTtl: JOB_TTL });
+    
+    if (env.INDEX_QUEUE) {
+        await env.INDEX_QUEUE.send({ jobId: job.id });
+    } else {
+        ctx.waitUntil(runIndexJob(job.id, env));
+    }
+    
+    return job;
+}
+
+async function runIndexJob(jobId: string, env: Env): Promise<void> {
+    const job = await getIndexJob(jobId, env);
+    if (!job || job.status === 'done') return;
+    
+    job.status = 'running';
+    await saveIndexJob(job, env);
+    
+    // Queue consumers only get the job id, so the user's token is looked up again here
+    const viewer = job.userId ? await loadViewer(job.userId, env) : ANONYMOUS_VIEWER;
+    
+    let lastFlush = Date.now();
+    let saving: Promise<void> = Promise.resolve();
+    
+    const onPhase = (phase: IndexPhase, status: PhaseStatus, detail?: string) => {
+        const entry = job.phases.find(p => p.phase === phase);
+        if (entry) {
+            entry.status = status;
+            entry.detail = detail || null;
+        }
+        if (Date.now() - lastFlush >= PROGRESS_FLUSH_INTERVAL_MS) {
+            lastFlush = Date.now();
+            saving = saving
+                .then(() => saveIndexJob(job, env))
+                .catch(error => console.log("Failed to save job progress:", error));
+        }
+    };
+    
+    try {
+        const location = parseRepoUrl(job.url, env);
+        const headers = createHeaders(env, viewer, location);
+        let index = await indexRepository(location, headers, onPhase);
+        await saveRepoIndex(job.url, index, env, viewer);
+        
+        // Like embeddings, outlines only add to an index that already answers questions
+        onPhase('outlines', 'running');
+        try {
+            index = await outlineRepository(location, index, env, headers);
+            await saveRepoIndex(job.url, index, env, viewer);
+            const symbols = index.outlines.reduce((sum, outline) => sum + outline.symbols.length, 0);
+            onPhase('outlines', 'done', `${symbols} symbols in ${index.outlines.length} files`);
+        } catch (error) {
+            console.error("Outlining failed:", error);
+            onPhase('outlines', 'failed', error instanceof Error ? error.message : undefined);
+        }
+        
+        // Semantic search is an enhancement; the index is usable even if embedding fails
+        onPhase('embeddings', 'running');
+        try {
+            const result = await embedRepository(job.url, index, env, headers);
+            await saveRepoIndex(job.url, await linkIssuesToCode(job.url, index, env), env, viewer);
+            onPhase('embeddings', 'done', `${result.files} files, ${result.chunks} chunks`);
+        } catch (error) {
+            console.error("Embedding failed:", error);
+            onPhase('embeddings', 'failed', error instanceof Error ? error.message : undefined);
+        }
+        
+        job.status = 'done';
+    } catch (error) {
+        console.error("Index job failed:", error);
+        job.status = 'failed';
+        job.error = error instanceof GitHubError
+            ? { code: error.code, message: error.message }
+            : { message: error instanceof Error ? error.message : 'Unknown error' };
+    }
+    
+    await saving;
+    // Stay clear of KV's per-key write limit for the final state
+    const wait = PROGRESS_FLUSH_INTERVAL_MS - (Date.now() - lastFlush);
+    if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait));
+    }
+    await saveIndexJob(job, env);
+    await env.CACHE_KV.delete(activeJobKey(job.url, env, { ...ANONYMOUS_VIEWER, userId: job.userId }));
+}
+
+export {
+    getIndexJob,
+    findActiveJob,
+    startIndexJob,
+    runIndexJob
+};
@@ -0,0 +1,494 @@
+import { RepoLocation, FileNode, Dependency, DependencyScope, DependencyManifest, isInSkippedDirectory } from "./utils";
+import { providerFor } from "./providers";
+
+const MAX_MANIFESTS = 25;
+const MAX_MANIFEST_SIZE = 200000;
+// Per scope in the model context; the API returns every dependency
+const MAX_LISTED_DEPENDENCIES = 40;
+
+type TomlValue = string | number | boolean | TomlValue[] | TomlTable;
+
+interface TomlTable {
+    [key: string]: TomlValue;
+}
+
+type ManifestParser = (path: string, text: string) => DependencyManifest;
+
+const SCOPE_LABELS: Record<DependencyScope, string> = {
+    runtime: 'Dependencies',
+    dev: 'Dev dependencies',
+    peer: 'Peer dependencies',
+    optional: 'Optional dependencies',
+    build: 'Build dependencies',
+    indirect: 'Indirect dependencies'
+};
+
+// Optional dependency groups with these names are development tooling rather than features
+const DEV_GROUPS = /^(dev|develop|development|test|tests|testing|lint|linting|typing|docs)$/i;
+
+function parserFor(path: string): ManifestParser | null {
+    const name = path.split('/').pop() || '';
+    if (name === 'package.json') return parsePackageJson;
+    if (name === 'pnpm-workspace.yaml') return parsePnpmWorkspace;
+    if (name === 'Cargo.toml') return parseCargoToml;
+    if (name === 'pyproject.toml') return parsePyproject;
+    if (/^requirements([-_.][\w-]+)?\.txt$|^[\w-]+-requirements\.txt$/.test(name)) return parseRequirements;
+    if (name === 'go.mod') return parseGoMod;
+    if (name === 'go.work') return parseGoWork;
+    return null;
+}
+
+function isManifest(node: FileNode): boolean {
+    if (node.type !== 'file' || !node.sha) return false;
+    if (node.size !== undefined && node.size > MAX_MANIFEST_SIZE) return false;
+    if (isInSkippedDirectory(node.path) || /(^|\/)(vendor|third_party|fixtures?|testdata)\//.test(node.path)) return false;
+    return parserFor(node.path) !== null;
+}
+
+// Manifests nearest the root come first. One that cannot be read or parsed is left out
+// rather than failing the whole index.
+async function loadManifests(location: RepoLocation, fileTree: FileNode[], headers: Record<string, string>): Promise<DependencyManifest[]> {
+    const files = fileTree
+        .filter(isManifest)
+        .sort((a, b) => a.path.split('/').length - b.path.split('/').length || a.path.localeCompare(b.path))
+        .slice(0, MAX_MANIFESTS);
+    
+    const parsed = await Promise.all(files.map(async file => {
+        try {
+            const text = await providerFor(location).fetchBlobContent(location, file.sha!, headers);
+            return text === null ? null : parseManifest(file.path, text);
+        } catch (error) {
+            console.log(`Skipping manifest ${file.path}:`, error);
+            return null;
+        }
+    }));
+    return parsed.filter((m): m is DependencyManifest => m !== null);
+}
+
+function parseManifest(path: string, text: string): DependencyManifest | null {
+    const parser = parserFor(path);
+    return parser ? parser(path, text) : null;
+}
+
+function emptyManifest(path: string, ecosystem: DependencyManifest['ecosystem']): DependencyManifest {
+    return { path, ecosystem, name: null, dependencies: [], scripts: {}, engines: {}, workspaces: [] };
+}
+
+// The same dependency can be spread over several keys (`serde.version`, `serde.features`); the first
+// version found wins
+function addDependency(manifest: DependencyManifest, name: string, version: string | null, scope: DependencyScope): void {
+    const existing = manifest.dependencies.find(d => d.name === name && d.scope === scope);
+    if (existing) {
+        existing.version = existing.version ?? version;
+    } else {
+        manifest.dependencies.push({ name, version, scope });
+    }
+}
+
+function stringEntries(value: unknown): Array<[string, string]> {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return [];
+    return Object.entries(value as Record<string, unknown>)
+        .filter((entry): entry is [string, string] => typeof entry[1] === 'string');
+}
+
+function stringArray(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+function parsePackageJson(path: string, text: string): DependencyManifest {
+    const pkg = JSON.parse(text) as Record<string, unknown>;
+    const manifest = emptyManifest(path, 'npm');
+    manifest.name = typeof pkg.name === 'string' ? pkg.name : null;
+    
+    const scopes: Array<[string, DependencyScope]> = [
+        ['dependencies', 'runtime'],
+        ['devDependencies', 'dev'],
+        ['peerDependencies', 'peer'],
+        ['optionalDependencies', 'optional']
+    ];
+    for (const [field, scope] of scopes) {
+        for (const [name, version] of stringEntries(pkg[field])) {
+            addDependency(manifest, name, version, scope);
+        }
+    }
+    
+    for (const [name, command] of stringEntries(pkg.scripts)) {
+        manifest.scripts[name] = command;
+    }
+    for (const [name, version] of stringEntries(pkg.engines)) {
+        manifest.engines[name] = version;
+    }
+    // "packageManager": "pnpm@9.1.0" pins the package manager through corepack
+    const packageManager = typeof pkg.packageManager === 'string' ? pkg.packageManager.match(/^(@?[^@]+)@(.+)$/) : null;
+    if (packageManager) {
+        manifest.engines[packageManager[1]] = packageManager[2].split('+')[0];
+    }
+    
+    const workspaces = pkg.workspaces as unknown;
+    manifest.workspaces = Array.isArray(workspaces)
+        ? stringArray(workspaces)
+        : stringArray((workspaces as { packages?: unknown } | undefined)?.packages);
+    return manifest;
+}
+
+// Only the `packages` list is read; the rest of the file is pnpm settings
+function parsePnpmWorkspace(path: string, text: string): DependencyManifest {
+    const manifest = emptyManifest(path, 'npm');
+    let inPackages = false;
+    for (const line of text.split('\n')) {
+        if (/^packages\s*:/.test(line)) {
+            inPackages = true;
+        } else if (inPackages && /^\s+-\s*/.test(line)) {
+            manifest.workspaces.push(line.replace(/^\s+-\s*/, '').replace(/\s+#.*$/, '').replace(/^["']|["']$/g, '').trim());
+        } else if (/^\S/.test(line)) {
+            inPackages = false;
+        }
+    }
+    return manifest;
+}
+
+function parseCargoToml(path: string, text: string): DependencyManifest {
+    const tables = parseToml(text);
+    const manifest = emptyManifest(path, 'cargo');
+    const pkg = tables['package'] || {};
+    manifest.name = typeof pkg.name === 'string' ? pkg.name : null;
+    if (typeof pkg['rust-version'] === 'string') manifest.engines.rust = pkg['rust-version'];
+    if (typeof pkg.edition === 'string') manifest.engines.edition = pkg.edition;
+    manifest.workspaces = stringArray(tables['workspace']?.members);
+    
+    for (const [table, entries] of Object.entries(tables)) {
+        // [dependencies], [dev-dependencies], [target.'cfg(unix)'.dependencies], [workspace.dependencies]
+        const list = table.match(/^(?:target\..+\.|workspace\.)?(dependencies|dev-dependencies|build-dependencies)$/);
+        if (list) {
+            for (const [key, value] of Object.entries(entries)) {
+                const [name, field] = splitDottedKey(key);
+                const version = field ? (field === 'version' && typeof value === 'string' ? value : null) : cargoVersion(value);
+                addDependency(manifest, name, version, cargoScope(list[1]));
+            }
+        }
+        // [dependencies.serde] with the details as keys
+        const detailed = table.match(/^(?:target\..+\.)?(dependencies|dev-dependencies|build-dependencies)\.([^.]+)$/);
+        if (detailed) {
+            addDependency(manifest, detailed[2], cargoVersion(entries), cargoScope(detailed[1]));
+        }
+    }
+    return manifest;
+}
+
+function splitDottedKey(key: string): [string, string | null] {
+    const dot = key.indexOf('.');
+    return dot < 0 ? [key, null] : [key.substring(0, dot), key.substring(dot + 1)];
+}
+
+function cargoScope(table: string): DependencyScope {
+    if (table === 'dev-dependencies') return 'dev';
+    if (table === 'build-dependencies') return 'build';
+    return 'runtime';
+}
+
+function cargoVersion(value: TomlValue): string | null {
+    if (typeof value === 'string') return value;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+        if (typeof value.version === 'string') return value.version;
+        if (typeof value.git === 'string') return `git ${value.git}`;
+        if (typeof value.path === 'string') return `path ${value.path}`;
+    }
+    return null;
+}
+
+// Handles both PEP 621 `[project]` tables and Poetry's `[tool.poetry]` ones
+function parsePyproject(path: string, text: string): DependencyManifest {
+    const tables = parseToml(text);
+    const manifest = emptyManifest(path, 'python');
+    const project = tables['project'] || {};
+    const poetry = tables['tool.poetry'] || {};
+    manifest.name = typeof project.name === 'string' ? project.name : typeof poetry.name === 'string' ? poetry.name : null;
+    if (typeof project['requires-python'] === 'string') manifest.engines.python = project['requires-python'];
+    
+    for (const requirement of stringArray(project.dependencies)) {
+        addRequirement(manifest, requirement, 'runtime');
+    }
+    for (const [group, requirements] of Object.entries(tables['project.optional-dependencies'] || {})) {
+        for (const requirement of stringArray(requirements)) {
+            addRequirement(manifest, requirement, DEV_GROUPS.test(group) ? 'dev' : 'optional');
+        }
+    }
+    for (const requirements of Object.values(tables['dependency-groups'] || {})) {
+        for (const requirement of stringArray(requirements)) {
+            addRequirement(manifest, requirement, 'dev');
+        }
+    }
+    for (const requirement of stringArray(tables['build-system']?.requires)) {
+        addRequirement(manifest, requirement, 'build');
+    }
+    
+    for (const [table, entries] of Object.entries(tables)) {
+        const scope: DependencyScope | null = table === 'tool.poetry.dependencies' ? 'runtime'
+            : table === 'tool.poetry.dev-dependencies' || /^tool\.poetry\.group\.[^.]+\.dependencies$/.test(table) ? 'dev'
+            : null;
+        if (!scope) continue;
+        for (const [name, value] of Object.entries(entries)) {
+            if (name === 'python') {
+                if (typeof value === 'string') manifest.engines.python = value;
+                continue;
+            }
+            addDependency(manifest, name, cargoVersion(value), scope);
+        }
+    }
+    
+    for (const [name, target] of [...stringEntries(tables['project.scripts']), ...stringEntries(tables['tool.poetry.scripts'])]) {
+        manifest.scripts[name] = target;
+    }
+    manifest.workspaces = stringArray(tables['tool.uv.workspace']?.members);
+    return manifest;
+}
+
+function parseRequirements(path: string, text: string): DependencyManifest {
+    const manifest = emptyManifest(path, 'python');
+    const scope: DependencyScope = /(^|[-_.])(dev|test|tests|lint|docs)([-_.]|$)/i.test(path.split('/').pop()!.replace(/\.txt$/, '')) ? 'dev' : 'runtime';
+    for (const raw of text.split('\n')) {
+        const line = raw.replace(/(^|\s)#.*$/, '').trim();
+        // Options (-r other.txt, -e ., --index-url) and bare URLs are not dependencies we can name
+        if (!line || line.startsWith('-') || /^\w+:\/\//.test(line)) continue;
+        addRequirement(manifest, line, scope);
+    }
+    return manifest;
+}
+
+// PEP 508: `name[extras] >=1.0, <2 ; python_version < "3.11"` or `name @ https://...`
+function addRequirement(manifest: DependencyManifest, requirement: string, scope: DependencyScope): void {
+    const match = requirement.match(/^\s*([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*([^;]*)/);
+    if (!match) return;
+    const version = match[2].replace(/^@\s*/, '').trim();
+    addDependency(manifest, match[1], version || null, scope);
+}
+
+function parseGoMod(path: string, text: string): DependencyManifest {
+    const manifest = emptyManifest(path, 'go');
+    let inRequire = false;
+    for (const raw of text.split('\n')) {
+        const indirect = /\/\/\s*indirect\b/.test(raw);
+        const line = raw.replace(/\/\/.*$/, '').trim();
+        if (!line) continue;
+        
+        if (inRequire) {
+            if (line === ')') {
+                inRequire = false;
+            } else {
+                addGoRequirement(manifest, line, indirect);
+            }
+            continue;
+        }
+        
+        const [directive, ...rest] = line.split(/\s+/);
+        if (directive === 'module') manifest.name = rest[0] || null;
+        else if (directive === 'go') manifest.engines.go = rest[0];
+        else if (directive === 'toolchain') manifest.engines.toolchain = rest[0];
+        else if (directive === 'require' && rest[0] === '(') inRequire = true;
+        else if (directive === 'require') addGoRequirement(manifest, rest.join(' '), indirect);
+    }
+    return manifest;
+}
+
+function addGoRequirement(manifest: DependencyManifest, line: string, indirect: boolean): void {
+    const [name, version] = line.split(/\s+/);
+    if (name) {
+        addDependency(manifest, name, version || null, indirect ? 'indirect' : 'runtime');
+    }
+}
+
+function parseGoWork(path: string, text: string): DependencyManifest {
+    const manifest = emptyManifest(path, 'go');
+    let inUse = false;
+    for (const raw of text.split('\n')) {
+        const line = raw.replace(/\/\/.*$/, '').trim();
+        if (inUse) {
+            if (line === ')') inUse = false;
+            else if (line) manifest.workspaces.push(line);
+        } else if (/^use\s*\($/.test(line)) {
+            inUse = true;
+        } else if (/^use\s+\S/.test(line)) {
+            manifest.workspaces.push(line.replace(/^use\s+/, ''));
+        } else if (/^go\s+\S/.test(line)) {
+            manifest.engines.go = line.replace(/^go\s+/, '');
+        }
+    }
+    return manifest;
+}
+
+// Enough TOML for manifests: tables, dotted keys, strings, numbers, booleans, arrays and inline tables.
+// Arrays of tables ([[bin]]) are skipped, and multi-line strings are not supported.
+function parseToml(text: string): Record<string, TomlTable> {
+    const tables: Record<string, TomlTable> = { '': {} };
+    let current: TomlTable | null = tables[''];
+    const lines = text.split('\n');
+    
+    for (let i = 0; i < lines.length; i++) {
+        const line = stripTomlComment(lines[i]).trim();
+        if (!line) continue;
+        
+        if (line.startsWith('[[')) {
+            current = null;
+            continue;
+        }
+        const header = line.match(/^\[\s*(.+?)\s*\]$/);
+        if (header) {
+            const name = normalizeTomlKey(header[1]);
+            current = tables[name] = tables[name] || {};
+            continue;
+        }
+        
+        const equals = line.indexOf('=');
+        if (equals < 0 || !current) continue;
+        let value = line.substring(equals + 1).trim();
+        while (bracketDepth(value) > 0 && i + 1 < lines.length) {
+            value += ' ' + stripTomlComment(lines[++i]).trim();
+        }
+        try {
+            current[normalizeTomlKey(line.substring(0, equals))] = parseTomlValue(value);
+        } catch {
+            // A value this parser does not understand only loses that key
+        }
+    }
+    return tables;
+}
+
+function normalizeTomlKey(key: string): string {
+    return key.split('.').map(part => part.trim().replace(/^["']|["']$/g, '')).join('.');
+}
+
+function stripTomlComment(line: string): string {
+    let quote: string | null = null;
+    for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+        if (quote) {
+            if (ch === '\\' && quote === '"') i++;
+            else if (ch === quote) quote = null;
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if (ch === '#') {
+            return line.substring(0, i);
+        }
+    }
+    return line;
+}
+
+function bracketDepth(text: string): number {
+    let depth = 0;
+    let quote: string | null = null;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quote) {
+            if (ch === '\\' && quote === '"') i++;
+            else if (ch === quote) quote = null;
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if (ch === '[' || ch === '{') {
+            depth++;
+        } else if (ch === ']' || ch === '}') {
+            depth--;
+        }
+    }
+    return depth;
+}
+
+function parseTomlValue(text: string): TomlValue {
+    let pos = 0;
+    
+    const skipSeparators = () => {
+        while (pos < text.length && /[\s,]/.test(text[pos])) pos++;
+    };
+    
+    const readString = (): string => {
+        const quote = text[pos++];
+        let result = '';
+        while (pos < text.length && text[pos] !== quote) {
+            if (text[pos] === '\\' && quote === '"') {
+                pos++;
+                result += text[pos] === 'n' ? '\n' : text[pos] === 't' ? '\t' : text[pos];
+            } else {
+                result += text[pos];
+            }
+            pos++;
+        }
+        if (pos >= text.length) throw new Error('Unterminated string');
+        pos++;
+        return result;
+    };
+    
+    const readValue = (): TomlValue => {
+        skipSeparators();
+        const ch = text[pos];
+        if (ch === '"' || ch === "'") return readString();
+        if (ch === '[') {
+            pos++;
+            const items: TomlValue[] = [];
+            for (skipSeparators(); text[pos] !== ']'; skipSeparators()) {
+                if (pos >= text.length) throw new Error('Unterminated array');
+                items.push(readValue());
+            }
+            pos++;
+            return items;
+        }
+        if (ch === '{') {
+            pos++;
+            const table: TomlTable = {};
+            for (skipSeparators(); text[pos] !== '}'; skipSeparators()) {
+                const equals = text.indexOf('=', pos);
+                if (equals < 0) throw new Error('Expected a key');
+                const key = normalizeTomlKey(text.substring(pos, equals));
+                pos = equals + 1;
+                table[key] = readValue();
+            }
+            pos++;
+            return table;
+        }
+        
+        const bare = text.substring(pos).match(/^[^,\]}]+/)?.[0] || '';
+        pos += bare.length;
+        const value = bare.trim();
+        if (value === 'true' || value === 'false') return value === 'true';
+        if (/^[+-]?\d[\d_]*(\.\d+)?$/.test(value)) return Number(value.replace(/_/g, ''));
+        return value;
+    };
+    
+    return readValue();
+}
+
+// One line per fact so a long manifest can be cut between lines
+function formatManifest(manifest: DependencyManifest): string[] {
+    const lines: string[] = [];
+    const engines = Object.entries(manifest.engines);
+    if (engines.length > 0) {
+        lines.push(`- Requires: ${engines.map(([name, version]) => `${name} ${version}`).join(', ')}`);
+    }
+    if (manifest.workspaces.length > 0) {
+        lines.push(`- Workspaces: ${manifest.workspaces.join(', ')}`);
+    }
+    for (const [name, command] of Object.entries(manifest.scripts)) {
+        lines.push(`- Script \`${name}\`: \`${command}\``);
+    }
+    
+    for (const scope of Object.keys(SCOPE_LABELS) as DependencyScope[]) {
+        const dependencies = manifest.dependencies.filter(d => d.scope === scope);
+        if (dependencies.length === 0) continue;
+        if (scope === 'indirect') {
+            lines.push(`- ${SCOPE_LABELS[scope]}: ${dependencies.length} not listed`);
+            continue;
+        }
+        const listed = dependencies.slice(0, MAX_LISTED_DEPENDENCIES).map(formatDependency);
+        const more = dependencies.length > listed.length ? `, and ${dependencies.length - listed.length} more` : '';
+        lines.push(`- ${SCOPE_LABELS[scope]}: ${listed.join(', ')}${more}`);
+    }
+    return lines;
+}
+
+function formatDependency(dependency: Dependency): string {
+    return dependency.version ? `${dependency.name} ${dependency.version}` : dependency.name;
+}
+
+export {
+    loadManifests,
+    parseManifest,
+    formatManifest
+};
@@ -0,0 +1,123 @@
+import { AiModels } from "@cloudflare/workers-types/experimental";
+import { Env, ModelAttempt, ModelConfig, ModelRole, ModelSelection, StepListener } from "./utils";
+
+type ChatInputs = {
+    messages: Array<{ role: string; content: string }>;
+    max_tokens: number;
+    stream?: boolean;
+};
+
+// Listed in fallback order: when a model fails, the next one for the same role with at least as large a window is tried
+const MODELS: ModelConfig[] = [
+    { id: "@cf/meta/llama-3.3-70b-instruct-fp8-fast", label: "Llama 3.3 70B", contextWindow: 24000, maxTokens: 2048, roles: ['planning', 'answering'] },
+    { id: "@cf/qwen/qwen2.5-coder-32b-instruct", label: "Qwen 2.5 Coder 32B", contextWindow: 32768, maxTokens: 2048, roles: ['answering'] },
+    { id: "@cf/mistralai/mistral-small-3.1-24b-instruct", label: "Mistral Small 3.1 24B", contextWindow: 128000, maxTokens: 2048, roles: ['planning', 'answering'] },
+    { id: "@cf/meta/llama-4-scout-17b-16e-instruct", label: "Llama 4 Scout 17B", contextWindow: 131000, maxTokens: 2048, roles: ['answering'] },
+    { id: "@cf/meta/llama-3.1-8b-instruct-fp8", label: "Llama 3.1 8B", contextWindow: 32000, maxTokens: 2048, roles: ['planning', 'answering'] }
+];
+
+const DEFAULT_MODELS: Record<ModelRole, string> = {
+    planning: "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
+    answering: "@cf/meta/llama-3.3-70b-instruct-fp8-fast"
+};
+
+// Planning calls are short, so a slow one is better abandoned for the next model
+const MODEL_TIMEOUTS_MS: Record<ModelRole, number> = {
+    planning: 15000,
+    answering: 45000
+};
+
+class UnknownModelError extends Error {
+    constructor(id: string, role: ModelRole) {
+        super(`"${id}" is not available for ${role}. Choose one of: ${modelsFor(role).map(m => m.id).join(', ')}`);
+        this.name = 'UnknownModelError';
+    }
+}
+
+class ModelUnavailableError extends Error {
+    readonly attempts: ModelAttempt[];
+    
+    constructor(role: ModelRole, attempts: ModelAttempt[]) {
+        super(`No ${role} model responded (${attempts.map(a => `${a.model}: ${a.error}`).join('; ')})`);
+        this.name = 'ModelUnavailableError';
+        this.attempts = attempts;
+    }
+}
+
+function modelsFor(role: ModelRole): ModelConfig[] {
+    return MODELS.filter(m => m.roles.includes(role));
+}
+
+function findModel(role: ModelRole, id?: string | null): ModelConfig {
+    const wanted = id || DEFAULT_MODELS[role];
+    const model = modelsFor(role).find(m => m.id === wanted);
+    if (!model) {
+        throw new UnknownModelError(wanted, role);
+    }
+    return model;
+}
+
+function selectModels(requested: { planning?: string | null; answering?: string | null } = {}): ModelSelection {
+    return {
+        planning: findModel('planning', requested.planning),
+        answering: findModel('answering', requested.answering),
+        usage: []
+    };
+}
+
+// Fallbacks must fit whatever was sized for the chosen model, so smaller windows are skipped
+function fallbackChain(role: ModelRole, primary: ModelConfig): ModelConfig[] {
+    return [primary, ...modelsFor(role).filter(m => m.id !== primary.id && m.contextWindow >= primary.contextWindow)];
+}
+
+// Runs a chat call on the selected model for `role`, moving down the fallback chain on errors and timeouts.
+// Every call is recorded in `selection.usage`; a switch to another model is reported as a thinking step.
+async function runModel(env: Env, selection: ModelSelection, role: ModelRole, inputs: ChatInputs, onStep?: StepListener): Promise<unknown> {
+    const chain = fallbackChain(role, selection[role]);
+    const attempts: ModelAttempt[] = [];
+    
+    for (let i = 0; i < chain.length; i++) {
+        const model = chain[i];
+        try {
+            const result = await withTimeout(
+                env.AI.run(model.id as keyof AiModels, { ...inputs, max_tokens: Math.min(inputs.max_tokens, model.maxTokens) }),
+                MODEL_TIMEOUTS_MS[role]
+            );
+            attempts.push({ model: model.id, error: null });
+            selection.usage.push({ role, model: model.id, attempts });
+            return result;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`${role} model ${model.id} failed:`, message);
+            attempts.push({ model: model.id, error: message });
+            
+            const next = chain[i + 1];
+            if (next) {
+                onStep?.({ step: "Switching model", detail: `${model.label} failed, trying ${next.label}`, status: 'done' });
+            }
+        }
+    }
+    
+    selection.usage.push({ role, model: null, attempts });
+    throw new ModelUnavailableError(role, attempts);
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${ms / 1000}s`)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+export {
+    MODELS,
+    DEFAULT_MODELS,
+    MODEL_TIMEOUTS_MS,
+    UnknownModelError,
+    ModelUnavailableError,
+    modelsFor,
+    findModel,
+    selectModels,
+    runModel
+};
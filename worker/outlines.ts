@@ -0,0 +1,341 @@
+import { Env, RepoIndex, RepoLocation, FileNode, FileOutline, OutlineSymbol, SymbolKind, isInSkippedDirectory } from "./utils";
+import { readBlobs } from "./code-search";
+import { extractIssueSignals } from "./issue-mapping";
+import { extractImports } from "./imports";
+
+const MAX_OUTLINE_FILES = 150;
+const MAX_OUTLINE_FILE_SIZE = 200000;
+const MAX_SYMBOLS_PER_FILE = 80;
+const MAX_SIGNATURE_CHARS = 160;
+// Parameter lists longer than this are cut off in the signature
+const MAX_SIGNATURE_LINES = 6;
+const MAX_DEFINITION_FILES = 3;
+const MIN_PLAIN_WORD_LENGTH = 5;
+
+type Syntax = 'ecmascript' | 'python' | 'go' | 'rust';
+
+interface Declaration {
+    kind: SymbolKind;
+    // Matched against lines that start at column 0; the first group is the symbol's name
+    pattern: RegExp;
+}
+
+const SYNTAX_BY_EXTENSION: Record<string, Syntax> = {
+    ts: 'ecmascript', tsx: 'ecmascript', mts: 'ecmascript', cts: 'ecmascript',
+    js: 'ecmascript', jsx: 'ecmascript', mjs: 'ecmascript', cjs: 'ecmascript',
+    py: 'python',
+    go: 'go',
+    rs: 'rust'
+};
+
+const RUST_VISIBILITY = String.raw`^(?:pub(?:\([^)]*\))?\s+)?`;
+
+const DECLARATIONS: Record<Syntax, Declaration[]> = {
+    ecmascript: [
+        { kind: 'function', pattern: /^(?:export\s+(?:default\s+)?)?(?:declare\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/ },
+        { kind: 'class', pattern: /^(?:export\s+(?:default\s+)?)?(?:declare\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/ },
+        { kind: 'interface', pattern: /^(?:export\s+)?(?:declare\s+)?interface\s+([A-Za-z_$][\w$]*)/ },
+        { kind: 'type', pattern: /^(?:export\s+)?(?:declare\s+)?type\s+([A-Za-z_$][\w$]*)\s*(?:<.*>)?\s*=/ },
+        { kind: 'enum', pattern: /^(?:export\s+)?(?:declare\s+)?(?:const\s+)?enum\s+([A-Za-z_$][\w$]*)/ },
+        { kind: 'module', pattern: /^(?:export\s+)?(?:declare\s+)?namespace\s+([A-Za-z_$][\w$.]*)/ },
+        { kind: 'variable', pattern: /^(?:export\s+)?(?:declare\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)/ }
+    ],
+    python: [
+        { kind: 'function', pattern: /^(?:async\s+)?def\s+([A-Za-z_]\w*)/ },
+        { kind: 'class', pattern: /^class\s+([A-Za-z_]\w*)/ },
+        // Only constants; other module-level assignments are mostly incidental
+        { kind: 'variable', pattern: /^([A-Z_][A-Z0-9_]*)\s*(?::[^=]+)?=(?!=)/ }
+    ],
+    go: [
+        { kind: 'method', pattern: /^func\s+\([^)]*\)\s*([A-Za-z_]\w*)/ },
+        { kind: 'function', pattern: /^func\s+([A-Za-z_]\w*)/ },
+        { kind: 'struct', pattern: /^type\s+([A-Za-z_]\w*)(?:\[[^\]]*\])?\s+struct\b/ },
+        { kind: 'interface', pattern: /^type\s+([A-Za-z_]\w*)(?:\[[^\]]*\])?\s+interface\b/ },
+        { kind: 'type', pattern: /^type\s+([A-Za-z_]\w*)/ },
+        { kind: 'variable', pattern: /^(?:const|var)\s+([A-Za-z_]\w*)/ }
+    ],
+    rust: [
+        { kind: 'function', pattern: new RegExp(RUST_VISIBILITY + String.raw`(?:const\s+)?(?:async\s+)?(?:unsafe\s+)?(?:extern\s+"[^"]*"\s+)?fn\s+([A-Za-z_]\w*)`) },
+        { kind: 'struct', pattern: new RegExp(RUST_VISIBILITY + String.raw`struct\s+([A-Za-z_]\w*)`) },
+        { kind: 'enum', pattern: new RegExp(RUST_VISIBILITY + String.raw`enum\s+([A-Za-z_]\w*)`) },
+        { kind: 'trait', pattern: new RegExp(RUST_VISIBILITY + String.raw`(?:unsafe\s+)?trait\s+([A-Za-z_]\w*)`) },
+        { kind: 'type', pattern: new RegExp(RUST_VISIBILITY + String.raw`type\s+([A-Za-z_]\w*)`) },
+        { kind: 'module', pattern: new RegExp(RUST_VISIBILITY + String.raw`mod\s+([A-Za-z_]\w*)`) },
+        { kind: 'variable', pattern: new RegExp(RUST_VISIBILITY + String.raw`(?:const|static(?:\s+mut)?)\s+([A-Za-z_]\w*)`) },
+        // Named after what is implemented, e.g. "Display for Widget"
+        { kind: 'impl', pattern: /^(?:unsafe\s+)?impl\b(?:\s*<[^>]*>)?\s+([^{]+?)\s*(?:\{|\bwhere\b|$)/ },
+        { kind: 'macro', pattern: /^macro_rules!\s*([A-Za-z_]\w*)/ }
+    ]
+};
+
+const ARROW_FUNCTION = /=\s*(?:async\s+)?(?:function\b|(?:<[^>]*>)?\([^)]*\)?\s*(?::[^=]+)?=>|[A-Za-z_$][\w$]*\s*=>)/;
+
+// Plain words in a question only count as symbol names when spelled exactly like one, and not these
+const QUESTION_STOPWORDS = new Set([
+    'where', 'which', 'there', 'these', 'those', 'about', 'would', 'could', 'should', 'using',
+    'defined', 'define', 'declared', 'function', 'method', 'class', 'works', 'called'
+]);
+
+function syntaxFor(path: string): Syntax | null {
+    return SYNTAX_BY_EXTENSION[path.split('.').pop()?.toLowerCase() || ''] || null;
+}
+
+function isOutlinable(node: FileNode): boolean {
+    if (node.type !== 'file' || !node.sha) return false;
+    if (node.size !== undefined && node.size > MAX_OUTLINE_FILE_SIZE) return false;
+    if (isInSkippedDirectory(node.path) || /(^|\/)(vendor|third_party)\//.test(node.path)) return false;
+    if (/\.(min|bundle)\.js$/.test(node.path)) return false;
+    return syntaxFor(node.path) !== null;
+}
+
+function outlinePriority(path: string): number {
+    const isTest = /(^|\/)(tests?|__tests__|spec)\/|\.(test|spec)\.\w+$|_test\.go$/.test(path);
+    return (isTest ? 100 : 0) + path.split('/').length;
+}
+
+function extractSymbols(path: string, content: string): OutlineSymbol[] {
+    const syntax = syntaxFor(path);
+    if (!syntax) return [];
+    
+    const lines = content.split('\n');
+    const symbols: OutlineSymbol[] = [];
+    for (let i = 0; i < lines.length && symbols.length < MAX_SYMBOLS_PER_FILE; i++) {
+        const declaration = matchDeclaration(lines[i], syntax);
+        if (!declaration) continue;
+        
+        const end = syntax === 'python' ? indentedBlockEnd(lines, i) : bracedBlockEnd(lines, i, syntax);
+        const signature = readSignature(lines, i, syntax, declaration.kind);
+        const kind = declaration.kind === 'variable' && syntax === 'ecmascript' && ARROW_FUNCTION.test(signature)
+            ? 'function'
+            : declaration.kind;
+        symbols.push({ name: declaration.name, kind, signature, startLine: startWithDecorators(lines, i, syntax) + 1, endLine: end + 1 });
+        // Anything inside the declaration is not top level, even where it starts at column 0
+        i = end;
+    }
+    return symbols;
+}
+
+function matchDeclaration(line: string, syntax: Syntax): { name: string; kind: SymbolKind } | null {
+    if (/^\s/.test(line)) return null;
+    for (const { kind, pattern } of DECLARATIONS[syntax]) {
+        const match = line.match(pattern);
+        if (match) {
+            return { name: match[1].trim(), kind };
+        }
+    }
+    return null;
+}
+
+// Python decorators belong to the definition below them
+function startWithDecorators(lines: string[], start: number, syntax: Syntax): number {
+    if (syntax !== 'python') return start;
+    let first = start;
+    while (first > 0 && lines[first - 1].startsWith('@')) {
+        first--;
+    }
+    return first;
+}
+
+// A Python block runs until the next line at column 0; closing brackets of a multi-line signature or
+// literal and comments do not end it
+function indentedBlockEnd(lines: string[], start: number): number {
+    let end = start;
+    for (let i = start + 1; i < lines.length; i++) {
+        const line = lines[i];
+        if (line.trim() === '' || line.startsWith('#')) continue;
+        if (/^[^\s)\]}]/.test(line)) break;
+        end = i;
+    }
+    return end;
+}
+
+// Counts brackets outside strings, comments and (in JavaScript) regex literals. The declaration ends on
+// the line where they balance again, unless the next line continues the statement.
+function bracedBlockEnd(lines: string[], start: number, syntax: Syntax): number {
+    let depth = 0;
+    let inBlockComment = false;
+    let inRawString = false;
+    
+    for (let i = start; i < lines.length; i++) {
+        const line = lines[i];
+        let quote: string | null = null;
+        let last = '';
+        
+        for (let j = 0; j < line.length; j++) {
+            const ch = line[j];
+            if (inBlockComment) {
+                if (ch === '*' && line[j + 1] === '/') {
+                    inBlockComment = false;
+                    j++;
+                }
+                continue;
+            }
+            if (inRawString) {
+                if (ch === '\\' && syntax === 'ecmascript') j++;
+                else if (ch === '`') inRawString = false;
+                continue;
+            }
+            if (quote) {
+                if (ch === '\\') j++;
+                else if (ch === quote) quote = null;
+                continue;
+            }
+            
+            if (ch === '/' && line[j + 1] === '/') break;
+            if (ch === '/' && line[j + 1] === '*') {
+                inBlockComment = true;
+                j++;
+                continue;
+            }
+            if (ch === '`' && syntax !== 'rust') {
+                inRawString = true;
+            } else if (ch === '"') {
+                quote = ch;
+            } else if (ch === "'") {
+                // Rust lifetimes ('a) share the quote with character literals
+                if (syntax !== 'rust' || /^'(\\.|[^\\'])'/.test(line.substring(j))) quote = ch;
+            } else if (ch === '/' && syntax === 'ecmascript' && (last === '' || '(,=:[!&|?{};'.includes(last))) {
+                j = skipRegexLiteral(line, j);
+            } else if ('([{'.includes(ch)) {
+                depth++;
+            } else if (')]}'.includes(ch)) {
+                depth--;
+            }
+            if (ch.trim()) last = ch;
+        }
+        
+        if (depth > 0 || inBlockComment || inRawString) continue;
+        if (depth < 0 || last === ';' || i + 1 >= lines.length) return i;
+        const next = lines[i + 1];
+        const continues = /^\s+\S/.test(next) || /^[.|&?:]/.test(next) || /[=,(+\-*/|&<>:?]$/.test(last);
+        if (!continues) return i;
+    }
+    return lines.length - 1;
+}
+
+function skipRegexLiteral(line: string, start: number): number {
+    let inClass = false;
+    for (let j = start + 1; j < line.length; j++) {
+        const ch = line[j];
+        if (ch === '\\') j++;
+        else if (ch === '[') inClass = true;
+        else if (ch === ']') inClass = false;
+        else if (ch === '/' && !inClass) return j;
+    }
+    return line.length;
+}
+
+// The declaration up to where its body starts; parameter lists spread over several lines are joined
+function readSignature(lines: string[], start: number, syntax: Syntax, kind: SymbolKind): string {
+    const bodyStart = syntax === 'python' ? (kind === 'variable' ? null : ':') : '{';
+    let text = '';
+    let parens = 0;
+    
+    for (let i = start; i < Math.min(lines.length, start + MAX_SIGNATURE_LINES); i++) {
+        for (const ch of lines[i].trim()) {
+            if (ch === '(') parens++;
+            else if (ch === ')') parens--;
+            else if (parens <= 0 && (ch === bodyStart || ch === ';')) return cleanSignature(text);
+            text += ch;
+        }
+        if (parens <= 0) break;
+        text += ' ';
+    }
+    return cleanSignature(text);
+}
+
+function cleanSignature(text: string): string {
+    const cleaned = text
+        .replace(/\s+/g, ' ')
+        .replace(/\( /g, '(')
+        .replace(/,? \)/g, ')')
+        .replace(/\s*=$/, '')
+        .trim();
+    return cleaned.length > MAX_SIGNATURE_CHARS ? `${cleaned.substring(0, MAX_SIGNATURE_CHARS - 3)}...` : cleaned;
+}
+
+// Only files whose blob changed are read; the rest keep the outline they already have
+async function outlineRepository(location: RepoLocation, index: RepoIndex, env: Env, headers: Record<string, string>): Promise<RepoIndex> {
+    const previous = new Map(index.outlines.map(outline => [outline.path, outline]));
+    const candidates = index.fileTree
+        .filter(isOutlinable)
+        .sort((a, b) => outlinePriority(a.path) - outlinePriority(b.path) || a.path.localeCompare(b.path))
+        .slice(0, MAX_OUTLINE_FILES);
+    const changed = candidates.filter(f => previous.get(f.path)?.sha !== f.sha);
+    const { contents } = await readBlobs(location, changed, headers, env, Infinity);
+    
+    const outlines: FileOutline[] = [];
+    for (const file of candidates) {
+        const existing = previous.get(file.path);
+        if (existing && existing.sha === file.sha) {
+            outlines.push(existing);
+        } else if (contents[file.path] !== undefined) {
+            outlines.push({
+                path: file.path,
+                sha: file.sha!,
+                symbols: extractSymbols(file.path, contents[file.path]),
+                imports: extractImports(file.path, contents[file.path])
+            });
+        }
+    }
+    
+    console.log(`Outlines: ${changed.length} files read, ${outlines.length} outlined`);
+    return { ...index, outlines };
+}
+
+// Identifiers are recognised the same way as in issues (camelCase, snake_case, `quoted`) and match
+// regardless of case; other words only match a symbol spelled exactly the same
+function questionTerms(question: string): { identifiers: Set<string>; words: Set<string> } {
+    const identifiers = new Set(extractIssueSignals(question).symbols.map(s => s.toLowerCase()));
+    const words = new Set((question.match(/[A-Za-z_$][\w$]*/g) || [])
+        .filter(w => w.length >= MIN_PLAIN_WORD_LENGTH && !QUESTION_STOPWORDS.has(w.toLowerCase())));
+    return { identifiers, words };
+}
+
+function namedIn(symbol: OutlineSymbol, terms: { identifiers: Set<string>; words: Set<string> }): boolean {
+    return terms.identifiers.has(symbol.name.toLowerCase()) || terms.words.has(symbol.name);
+}
+
+// Files defining a symbol the question names, source files before tests, at most one entry per file
+function findDefinitions(question: string, outlines: FileOutline[], limit: number = MAX_DEFINITION_FILES): Array<{ path: string; symbol: OutlineSymbol }> {
+    const terms = questionTerms(question);
+    if (terms.identifiers.size === 0 && terms.words.size === 0) return [];
+    
+    const found: Array<{ path: string; symbol: OutlineSymbol }> = [];
+    for (const outline of outlines) {
+        const symbol = outline.symbols.find(s => namedIn(s, terms));
+        if (symbol) {
+            found.push({ path: outline.path, symbol });
+        }
+    }
+    return found
+        .sort((a, b) => outlinePriority(a.path) - outlinePriority(b.path))
+        .slice(0, limit);
+}
+
+// Files with symbols the question mentions (even as part of a longer name) come first
+function rankOutlines(outlines: FileOutline[], question: string): FileOutline[] {
+    const words = (question.toLowerCase().match(/[a-z_$][\w$]*/g) || []).filter(w => w.length >= 4 && !QUESTION_STOPWORDS.has(w));
+    const score = (outline: FileOutline) => outline.symbols
+        .filter(s => words.some(w => s.name.toLowerCase().includes(w)))
+        .length;
+    
+    return outlines
+        .filter(outline => outline.symbols.length > 0)
+        .map(outline => ({ outline, score: score(outline) }))
+        .sort((a, b) => b.score - a.score || outlinePriority(a.outline.path) - outlinePriority(b.outline.path))
+        .map(({ outline }) => outline);
+}
+
+function formatSymbol(symbol: OutlineSymbol): string {
+    const lines = symbol.startLine === symbol.endLine ? `L${symbol.startLine}` : `L${symbol.startLine}-${symbol.endLine}`;
+    return `- ${lines} \`${symbol.signature}\``;
+}
+
+export {
+    extractSymbols,
+    outlineRepository,
+    findDefinitions,
+    rankOutlines,
+    formatSymbol
+};
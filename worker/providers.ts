@@ -0,0 +1,69 @@
+import { Env, GitProvider, ProviderKind, RepoLocation, normalizeBaseUrl } from "./utils";
+import { githubProvider } from "./github-provider";
+import { gitlabProvider } from "./gitlab-provider";
+import { giteaProvider } from "./gitea-provider";
+
+const PROVIDERS: Record<ProviderKind, GitProvider> = {
+    github: githubProvider,
+    gitlab: gitlabProvider,
+    gitea: giteaProvider
+};
+
+// Public hosts recognised without any configuration; Codeberg runs Forgejo, which speaks the Gitea API
+const PUBLIC_HOSTS: Array<{ host: string; provider: ProviderKind }> = [
+    { host: 'github.com', provider: 'github' },
+    { host: 'gitlab.com', provider: 'gitlab' },
+    { host: 'codeberg.org', provider: 'gitea' },
+    { host: 'gitea.com', provider: 'gitea' }
+];
+
+function providerFor(location: Pick<RepoLocation, 'provider'>): GitProvider {
+    return PROVIDERS[location.provider];
+}
+
+// Accepts full URLs for any supported host and bare `owner/repo`, which is taken to mean GitHub
+function parseRepoUrl(url: string, env: Env): RepoLocation {
+    const cleaned = url.trim().replace(/[?#].*$/, '').replace(/\/+$/, '');
+    const withoutScheme = cleaned.replace(/^https?:\/\//i, '');
+    
+    // Self-hosted instances are matched on their full base URL, so they may live under a path prefix
+    const configured: Array<{ baseUrl: string | undefined; provider: ProviderKind }> = [
+        { baseUrl: env.GITLAB_BASE_URL, provider: 'gitlab' },
+        { baseUrl: env.GITEA_BASE_URL, provider: 'gitea' }
+    ];
+    for (const { baseUrl, provider } of configured) {
+        if (!baseUrl) continue;
+        const base = normalizeBaseUrl(baseUrl);
+        const prefix = base.replace(/^https?:\/\//i, '');
+        if (withoutScheme.toLowerCase().startsWith(`${prefix.toLowerCase()}/`)) {
+            return locate(provider, base, withoutScheme.substring(prefix.length + 1), url);
+        }
+    }
+    
+    const [host, ...rest] = withoutScheme.split('/');
+    const hostname = host.toLowerCase().replace(/^www\./, '');
+    const known = PUBLIC_HOSTS.find(entry => entry.host === hostname);
+    if (known) {
+        return locate(known.provider, `https://${known.host}`, rest.join('/'), url);
+    }
+    
+    // A bare `owner/repo` has no dot in its first segment, unlike a hostname
+    if (!host.includes('.') && rest.length >= 1) {
+        return locate('github', 'https://github.com', withoutScheme, url);
+    }
+    
+    throw new Error(`Unsupported repository host "${host}". GitHub, GitLab, Codeberg and Gitea URLs are supported; for a self-hosted instance set GITLAB_BASE_URL or GITEA_BASE_URL.`);
+}
+
+function locate(provider: ProviderKind, baseUrl: string, path: string, url: string): RepoLocation {
+    const parsed = PROVIDERS[provider].parsePath(path);
+    if (!parsed) {
+        throw new Error(`Invalid repository URL: ${url}`);
+    }
+    return { provider, baseUrl, ...parsed };
+}
+
+export {
+    providerFor,
+    parseRepoUrl
+};
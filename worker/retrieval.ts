@@ -0,0 +1,266 @@
+import { Env, RepoIndex, FileNode, CodeSnippet } from "./utils";
+import { repoCacheKey } from "./tools";
+import { parseRepoUrl } from "./providers";
+import { readBlobs } from "./code-search";
+
+const EMBEDDING_MODEL = "@cf/baai/bge-base-en-v1.5";
+const MAX_EMBED_FILES = 80;
+const MAX_EMBED_FILE_SIZE = 60000;
+const CHUNK_LINES = 40;
+const CHUNK_OVERLAP = 8;
+const MAX_CHUNK_CHARS = 1500;
+const MAX_CHUNKS_PER_FILE = 12;
+const EMBED_BATCH_SIZE = 50;
+const FETCH_CONCURRENCY = 8;
+const MIN_SCORE = 0.55;
+
+const EMBEDDABLE_EXTENSIONS = [
+    'ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'py', 'go', 'rs', 'java', 'kt', 'rb', 'php',
+    'c', 'h', 'cc', 'cpp', 'hpp', 'cs', 'swift', 'scala', 'vue', 'svelte', 'md'
+];
+
+interface VectorRecord {
+    id: string;
+    values: number[];
+    metadata: { path: string; startLine: number; endLine: number; content: string };
+}
+
+interface VectorMatch {
+    score: number;
+    metadata: VectorRecord['metadata'];
+}
+
+interface EmbeddingManifest {
+    model: string;
+    files: Record<string, { sha: string; chunks: number }>;
+}
+
+interface VectorStore {
+    upsert(namespace: string, records: VectorRecord[]): Promise<void>;
+    remove(namespace: string, ids: string[]): Promise<void>;
+    query(namespace: string, vector: number[], topK: number): Promise<VectorMatch[]>;
+    loadManifest(namespace: string): Promise<EmbeddingManifest | null>;
+    saveManifest(namespace: string, manifest: EmbeddingManifest): Promise<void>;
+}
+
+// Vectorize in production; without the binding (local dev) vectors live in this isolate's memory
+function createVectorStore(env: Env): VectorStore {
+    return env.VECTORIZE ? createVectorizeStore(env) : memoryStore;
+}
+
+function createVectorizeStore(env: Env): VectorStore {
+    const index = env.VECTORIZE!;
+    return {
+        async upsert(namespace, records) {
+            await index.upsert(records.map(record => ({ ...record, namespace })));
+        },
+        async remove(_namespace, ids) {
+            if (ids.length > 0) {
+                await index.deleteByIds(ids);
+            }
+        },
+        async query(namespace, vector, topK) {
+            const result = await index.query(vector, { topK, namespace, returnMetadata: 'all' });
+            return result.matches
+                .filter(match => match.metadata)
+                .map(match => ({ score: match.score, metadata: match.metadata as unknown as VectorRecord['metadata'] }));
+        },
+        async loadManifest(namespace) {
+            const cached = await env.CACHE_KV.get(`embeddings:${namespace}`);
+            return cached ? JSON.parse(cached) as EmbeddingManifest : null;
+        },
+        async saveManifest(namespace, manifest) {
+            await env.CACHE_KV.put(`embeddings:${namespace}`, JSON.stringify(manifest));
+        }
+    };
+}
+
+const memoryVectors = new Map<string, Map<string, VectorRecord>>();
+const memoryManifests = new Map<string, EmbeddingManifest>();
+
+const memoryStore: VectorStore = {
+    async upsert(namespace, records) {
+        const vectors = memoryVectors.get(namespace) || new Map<string, VectorRecord>();
+        for (const record of records) {
+            vectors.set(record.id, record);
+        }
+        memoryVectors.set(namespace, vectors);
+    },
+    async remove(namespace, ids) {
+        const vectors = memoryVectors.get(namespace);
+        for (const id of ids) {
+            vectors?.delete(id);
+        }
+    },
+    async query(namespace, vector, topK) {
+        const vectors = memoryVectors.get(namespace);
+        if (!vectors) return [];
+        return Array.from(vectors.values())
+            .map(record => ({ score: cosineSimilarity(vector, record.values), metadata: record.metadata }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK);
+    },
+    async loadManifest(namespace) {
+        return memoryManifests.get(namespace) || null;
+    },
+    async saveManifest(namespace, manifest) {
+        memoryManifests.set(namespace, manifest);
+    }
+};
+
+function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+async function embedTexts(texts: string[], env: Env): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+        const response = await env.AI.run(EMBEDDING_MODEL, { text: texts.slice(i, i + EMBED_BATCH_SIZE) });
+        const data = 'data' in response ? response.data : undefined;
+        if (!data) {
+            throw new Error("Embedding model returned no vectors");
+        }
+        vectors.push(...data);
+    }
+    return vectors;
+}
+
+// Vectorize caps namespaces and ids at 64 bytes, so both are derived from hashes
+async function hashKey(value: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    return Array.from(new Uint8Array(digest).slice(0, 20))
+        .map(b => b.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+async function namespaceFor(url: string, index: RepoIndex, env: Env): Promise<string> {
+    return hashKey(repoCacheKey(parseRepoUrl(url, env), index.cacheScope));
+}
+
+async function chunkIds(namespace: string, path: string, from: number, to: number): Promise<string[]> {
+    const ids: string[] = [];
+    for (let i = from; i < to; i++) {
+        ids.push(await hashKey(`${namespace}:${path}#${i}`));
+    }
+    return ids;
+}
+
+function isEmbeddable(node: FileNode): boolean {
+    if (node.type !== 'file' || !node.sha) return false;
+    if (node.size !== undefined && node.size > MAX_EMBED_FILE_SIZE) return false;
+    if (/(^|\/)(vendor|third_party|fixtures?|__snapshots__)\//.test(node.path)) return false;
+    if (/\.(min|bundle)\.js$|\.d\.ts$|\.lock$/.test(node.path)) return false;
+    const ext = node.path.split('.').pop()?.toLowerCase() || '';
+    return EMBEDDABLE_EXTENSIONS.includes(ext);
+}
+
+function embeddingPriority(path: string): number {
+    const isTest = /(^|\/)(tests?|__tests__|spec)\/|\.(test|spec)\.\w+$/.test(path);
+    const isDoc = path.endsWith('.md');
+    return (isTest ? 100 : 0) + (isDoc ? 50 : 0) + path.split('/').length;
+}
+
+function chunkFile(content: string): Array<{ startLine: number; endLine: number; content: string }> {
+    const lines = content.split('\n');
+    const chunks: Array<{ startLine: number; endLine: number; content: string }> = [];
+    
+    for (let start = 0; start < lines.length && chunks.length < MAX_CHUNKS_PER_FILE; start += CHUNK_LINES - CHUNK_OVERLAP) {
+        const end = Math.min(start + CHUNK_LINES, lines.length);
+        const text = lines.slice(start, end).join('\n');
+        if (text.trim()) {
+            chunks.push({ startLine: start + 1, endLine: end, content: text.substring(0, MAX_CHUNK_CHARS) });
+        }
+        if (end === lines.length) break;
+    }
+    
+    return chunks;
+}
+
+async function embedRepository(url: string, index: RepoIndex, env: Env, headers: Record<string, string>): Promise<{ files: number; embedded: number; chunks: number }> {
+    const location = parseRepoUrl(url, env);
+    const store = createVectorStore(env);
+    const namespace = await namespaceFor(url, index, env);
+    
+    const stored = await store.loadManifest(namespace);
+    const manifest: EmbeddingManifest = stored && stored.model === EMBEDDING_MODEL
+        ? stored
+        : { model: EMBEDDING_MODEL, files: {} };
+    
+    const candidates = index.fileTree
+        .filter(isEmbeddable)
+        .sort((a, b) => embeddingPriority(a.path) - embeddingPriority(b.path))
+        .slice(0, MAX_EMBED_FILES);
+    const candidatePaths = new Set(candidates.map(f => f.path));
+    
+    // Blob SHAs tell us exactly which files changed since they were last embedded
+    const changed = candidates.filter(f => manifest.files[f.path]?.sha !== f.sha);
+    const removed = Object.keys(manifest.files).filter(path => !candidatePaths.has(path));
+    
+    let chunkCount = 0;
+    for (let i = 0; i < changed.length; i += FETCH_CONCURRENCY) {
+        const batch = changed.slice(i, i + FETCH_CONCURRENCY);
+        const { contents } = await readBlobs(location, batch, headers, env, Infinity);
+        
+        const records: Omit<VectorRecord, 'values'>[] = [];
+        for (let j = 0; j < batch.length; j++) {
+            const file = batch[j];
+            const chunks = contents[file.path] ? chunkFile(contents[file.path]) : [];
+            const ids = await chunkIds(namespace, file.path, 0, chunks.length);
+            
+            chunks.forEach((chunk, k) => records.push({ id: ids[k], metadata: { path: file.path, ...chunk } }));
+            
+            const previous = manifest.files[file.path]?.chunks || 0;
+            if (previous > chunks.length) {
+                await store.remove(namespace, await chunkIds(namespace, file.path, chunks.length, previous));
+            }
+            manifest.files[file.path] = { sha: file.sha!, chunks: chunks.length };
+        }
+        
+        if (records.length > 0) {
+            const vectors = await embedTexts(records.map(r => `${r.metadata.path}\n${r.metadata.content}`), env);
+            await store.upsert(namespace, records.map((r, k) => ({ ...r, values: vectors[k] })));
+            chunkCount += records.length;
+        }
+    }
+    
+    for (const path of removed) {
+        await store.remove(namespace, await chunkIds(namespace, path, 0, manifest.files[path].chunks));
+        delete manifest.files[path];
+    }
+    
+    await store.saveManifest(namespace, manifest);
+    console.log(`Embeddings: ${changed.length} files re-embedded (${chunkCount} chunks), ${removed.length} removed`);
+    
+    return { files: candidates.length, embedded: changed.length, chunks: chunkCount };
+}
+
+async function retrieveSnippets(question: string, url: string, index: RepoIndex, env: Env, topK: number = 8): Promise<CodeSnippet[]> {
+    const store = createVectorStore(env);
+    const namespace = await namespaceFor(url, index, env);
+    
+    const [vector] = await embedTexts([question], env);
+    const matches = await store.query(namespace, vector, topK);
+    
+    return matches
+        .filter(match => match.score >= MIN_SCORE)
+        .map(match => ({
+            path: match.metadata.path,
+            startLine: match.metadata.startLine,
+            endLine: match.metadata.endLine,
+            content: match.metadata.content,
+            score: match.score
+        }));
+}
+
+export {
+    embedRepository,
+    retrieveSnippets
+};
@@ -0,0 +1,272 @@
+import { Env, RepoIndex, Viewer, ModelSelection, PullRequestDetails, PullRequestReview, RiskyHunk, ProviderKind, CACHE_TTL, PR_REVIEW_PROMPT, createHeaders, extractResponseText, truncateText } from "./utils";
+import { repoCacheKey } from "./tools";
+import { parseRepoUrl, providerFor } from "./providers";
+import { cacheScopeFor } from "./storage";
+import { runModel, selectModels } from "./models";
+
+const MAX_REVIEW_DIFF_CHARS = 24000;
+const MAX_RISKY_HUNKS = 6;
+const MAX_MISSING_TESTS = 8;
+
+const SOURCE_EXTENSIONS = /\.(ts|tsx|js|jsx|mjs|cjs|py|go|rs|java|kt|rb|php|c|h|cc|cpp|hpp|cs|swift|scala|vue|svelte)$/i;
+const TEST_PATH = /(^|\/)(tests?|__tests__|spec|specs)\/|[._-](test|spec)\.\w+$|_test\.go$|(^|\/)test_[^/]+\.py$/i;
+
+async function getPullRequestDetails(url: string, number: number, index: RepoIndex | null, env: Env, viewer: Viewer): Promise<PullRequestDetails | null> {
+    const location = parseRepoUrl(url, env);
+    const cacheKey = `pr:${repoCacheKey(location, cacheScopeFor(index, viewer, location))}#${number}`;
+    
+    const cached = await env.CACHE_KV.get(cacheKey);
+    if (cached) {
+        return JSON.parse(cached) as PullRequestDetails;
+    }
+    
+    const details = await providerFor(location).fetchPullRequestDetails(location, number, createHeaders(env, viewer, location));
+    if (details) {
+        await env.CACHE_KV.put(cacheKey, JSON.stringify(details), { expirationTtl: CACHE_TTL });
+    }
+    return details;
+}
+
+async function reviewPullRequest(url: string, number: number, index: RepoIndex | null, env: Env, viewer: Viewer, models: ModelSelection = selectModels()): Promise<PullRequestReview | null> {
+    const details = await getPullRequestDetails(url, number, index, env, viewer);
+    if (!details) return null;
+    
+    // A review only goes stale when new commits are pushed
+    const location = parseRepoUrl(url, env);
+    const cacheKey = `review:${repoCacheKey(location, cacheScopeFor(index, viewer, location))}#${number}@${details.headSha}`;
+    const cached = await env.CACHE_KV.get(cacheKey);
+    if (cached) {
+        return JSON.parse(cached) as PullRequestReview;
+    }
+    
+    const diff = await providerFor(location).fetchPullRequestDiff(location, number, createHeaders(env, viewer, location)) || '';
+    const prompt = buildReviewPrompt(details, annotateDiff(diff), index?.contributing || null);
+    
+    let parsed: ReturnType<typeof parseReview> = null;
+    try {
+        const response = await runModel(env, models, 'answering', {
+            messages: [{ role: "user", content: prompt }],
+            max_tokens: 1024
+        });
+        parsed = parseReview(extractResponseText(response));
+    } catch (error) {
+        console.error("PR review generation failed:", error);
+    }
+    
+    const changedPaths = new Set(details.files.map(f => f.path));
+    const riskyHunks: RiskyHunk[] = [];
+    for (const hunk of parsed?.riskyHunks || []) {
+        if (!changedPaths.has(hunk.path) || riskyHunks.length >= MAX_RISKY_HUNKS) continue;
+        riskyHunks.push({ ...hunk, url: await diffAnchor(location.provider, details.pullRequest.url, hunk.path, hunk.line) });
+    }
+    
+    const review: PullRequestReview = {
+        number: details.pullRequest.number,
+        title: details.pullRequest.title,
+        url: details.pullRequest.url,
+        summary: parsed?.summary || 'The review could not be generated for this pull request.',
+        riskyHunks,
+        missingTests: Array.from(new Set([...findUntestedFiles(details), ...(parsed?.missingTests || [])])).slice(0, MAX_MISSING_TESTS),
+        contributing: parsed?.contributing || { follows: null, notes: index?.contributing ? 'Not assessed' : 'No contributing guidelines found' },
+        checks: summarizeChecks(details),
+        reviewedAt: new Date().toISOString()
+    };
+    
+    if (parsed) {
+        await env.CACHE_KV.put(cacheKey, JSON.stringify(review), { expirationTtl: CACHE_TTL });
+    }
+    return review;
+}
+
+function buildReviewPrompt(details: PullRequestDetails, diff: string, contributing: string | null): string {
+    const pr = details.pullRequest;
+    const files = details.files
+        .map(f => `- ${f.path} (${f.status}, +${f.additions}/-${f.deletions})`)
+        .join('\n');
+    const comments = details.reviewComments
+        .slice(-15)
+        .map(c => `- @${c.author} on ${c.path}${c.line ? `:${c.line}` : ''}: ${truncateText(c.body, 300).replace(/\n+/g, ' ')}`)
+        .join('\n');
+    const checks = details.checks
+        .map(c => `- ${c.name}: ${c.conclusion || c.status}`)
+        .join('\n');
+    
+    return `Pull request #${pr.number}: ${pr.title}
+Author: @${pr.author} | ${details.headRef} -> ${details.baseRef} | +${details.additions}/-${details.deletions}${pr.draft ? ' | draft' : ''}
+
+Description:
+${truncateText(pr.body || 'No description', 2000)}
+
+Changed files:
+${files}
+
+Checks:
+${checks || 'No checks reported'}
+
+Existing review comments:
+${comments || 'None'}
+
+Contributing guidelines:
+${contributing ? truncateText(contributing, 3000) : 'Not provided'}
+
+Diff (new-file line numbers on the left):
+${truncateText(diff, MAX_REVIEW_DIFF_CHARS)}
+
+${PR_REVIEW_PROMPT}`;
+}
+
+// Prefixes each added or context line with its line number in the new file so findings can be anchored.
+// `---`/`+++` only name files between a `diff --git` line and the first hunk; inside a hunk they are a
+// removed `--` line or an added `++` line.
+function annotateDiff(diff: string): string {
+    const output: string[] = [];
+    let newLine = 0;
+    let inFileHeader = false;
+    
+    for (const line of diff.split('\n')) {
+        const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(line);
+        if (line.startsWith('diff --git')) {
+            inFileHeader = true;
+            output.push(line);
+        } else if (hunk) {
+            inFileHeader = false;
+            newLine = Number(hunk[1]);
+            output.push(line);
+        } else if (inFileHeader) {
+            output.push(line);
+        } else if (line.startsWith('+')) {
+            output.push(`${newLine++} ${line}`);
+        } else if (line.startsWith('-')) {
+            output.push(`   ${line}`);
+        } else if (line.startsWith(' ')) {
+            output.push(`${newLine++} ${line}`);
+        } else {
+            output.push(line);
+        }
+    }
+    
+    return output.join('\n');
+}
+
+function parseReview(response: string): { summary: string; riskyHunks: Array<{ path: string; line: number | null; reason: string }>; missingTests: string[]; contributing: { follows: boolean | null; notes: string } } | null {
+    try {
+        const cleaned = response.replace(/```json\s*/gi, '').replace(/```\s*/g, '').trim();
+        const parsed = JSON.parse(cleaned.substring(cleaned.indexOf('{'), cleaned.lastIndexOf('}') + 1));
+        if (typeof parsed.summary !== 'string') return null;
+        
+        return {
+            summary: parsed.summary,
+            riskyHunks: Array.isArray(parsed.riskyHunks)
+                ? parsed.riskyHunks
+                    .filter((h: { path?: unknown; reason?: unknown }) => typeof h?.path === 'string' && typeof h?.reason === 'string')
+                    .map((h: { path: string; line?: unknown; reason: string }) => ({
+                        path: h.path.replace(/^[ab]\//, ''),
+                        line: typeof h.line === 'number' && h.line > 0 ? h.line : null,
+                        reason: h.reason
+                    }))
+                : [],
+            missingTests: Array.isArray(parsed.missingTests) ? parsed.missingTests.filter((t: unknown) => typeof t === 'string') : [],
+            contributing: {
+                follows: typeof parsed.contributing?.follows === 'boolean' ? parsed.contributing.follows : null,
+                notes: typeof parsed.contributing?.notes === 'string' ? parsed.contributing.notes : ''
+            }
+        };
+    } catch {
+        return null;
+    }
+}
+
+function findUntestedFiles(details: PullRequestDetails): string[] {
+    const changed = details.files.filter(f => f.status !== 'removed');
+    if (changed.some(f => TEST_PATH.test(f.path))) return [];
+    
+    return changed
+        .filter(f => SOURCE_EXTENSIONS.test(f.path) && !f.path.endsWith('.d.ts'))
+        .slice(0, 5)
+        .map(f => `\`${f.path}\` changed without any test changes`);
+}
+
+function summarizeChecks(details: PullRequestDetails): PullRequestReview['checks'] {
+    const failing = ['failure', 'error', 'timed_out', 'cancelled', 'action_required'];
+    return {
+        passed: details.checks.filter(c => c.conclusion === 'success' || c.conclusion === 'neutral' || c.conclusion === 'skipped').length,
+        failed: details.checks.filter(c => c.conclusion !== null && failing.includes(c.conclusion)).map(c => c.name),
+        pending: details.checks.filter(c => c.status !== 'completed' || c.conclusion === 'pending').length
+    };
+}
+
+// GitHub anchors file diffs by the SHA-256 of the path, with R<line> for a line on the new side.
+// GitLab and Gitea have no stable per-file anchor, so those link to the changes tab.
+async function diffAnchor(provider: ProviderKind, prUrl: string, path: string, line: number | null): Promise<string> {
+    if (provider === 'gitlab') return `${prUrl}/diffs`;
+    if (provider === 'gitea') return `${prUrl}/files`;
+    
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(path));
+    const hash = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+    return `${prUrl}/files#diff-${hash}${line ? `R${line}` : ''}`;
+}
+
+function formatPullRequestReview(review: PullRequestReview): string {
+    const lines: string[] = [];
+    
+    lines.push(`[#${review.number}](${review.url}) **${review.title}**`);
+    lines.push(`\n**Summary:** ${review.summary}`);
+    
+    lines.push('\n**Risky changes:**');
+    if (review.riskyHunks.length > 0) {
+        for (const hunk of review.riskyHunks) {
+            lines.push(`- [\`${hunk.path}${hunk.line ? `:${hunk.line}` : ''}\`](${hunk.url}): ${hunk.reason}`);
+        }
+    } else {
+        lines.push('- None identified');
+    }
+    
+    lines.push('\n**Missing tests:**');
+    lines.push(review.missingTests.length > 0 ? review.missingTests.map(t => `- ${t}`).join('\n') : '- None identified');
+    
+    const follows = review.contributing.follows === null ? 'unknown' : review.contributing.follows ? 'yes' : 'no';
+    lines.push(`\n**Follows CONTRIBUTING:** ${follows}${review.contributing.notes ? ` - ${review.contributing.notes}` : ''}`);
+    
+    const { passed, failed, pending } = review.checks;
+    lines.push(`\n**Checks:** ${passed} passed, ${failed.length} failed${failed.length > 0 ? ` (${failed.join(', ')})` : ''}, ${pending} pending`);
+    
+    return lines.join('\n');
+}
+
+function formatPullRequestDetails(details: PullRequestDetails): string {
+    const pr = details.pullRequest;
+    const lines: string[] = [];
+    
+    lines.push(`[#${pr.number}](${pr.url}) **${pr.title}** by @${pr.author} (${pr.draft ? 'draft, ' : ''}${pr.state})`);
+    lines.push(`${details.headRef} -> ${details.baseRef} | +${details.additions}/-${details.deletions} in ${details.files.length} files`);
+    lines.push('\n**Description:**');
+    lines.push(truncateText(pr.body || 'No description', 2000));
+    
+    lines.push('\n**Changed files:**');
+    for (const file of details.files.slice(0, 30)) {
+        lines.push(`- \`${file.path}\` (${file.status}, +${file.additions}/-${file.deletions})`);
+    }
+    
+    if (details.checks.length > 0) {
+        lines.push('\n**Checks:**');
+        for (const check of details.checks) {
+            lines.push(`- ${check.name}: ${check.conclusion || check.status}`);
+        }
+    }
+    
+    if (details.reviewComments.length > 0) {
+        lines.push('\n**Review comments:**');
+        for (const comment of details.reviewComments.slice(-10)) {
+            lines.push(`- @${comment.author} on \`${comment.path}${comment.line ? `:${comment.line}` : ''}\`: ${truncateText(comment.body, 300).replace(/\n+/g, ' ')}`);
+        }
+    }
+    
+    return lines.join('\n');
+}
+
+export {
+    getPullRequestDetails,
+    reviewPullRequest,
+    formatPullRequestReview,
+    formatPullRequestDetails
+};
@@ -0,0 +1,408 @@
+import { RepoLocation, FileNode, DependencyManifest, SetupGuide, SetupStep, SetupStepKind } from "./utils";
+import { providerFor } from "./providers";
+
+const MAX_SETUP_FILES = 15;
+const MAX_SETUP_FILE_SIZE = 100000;
+const MAX_CI_COMMANDS = 15;
+const MAX_LISTED_VARIABLES = 25;
+
+type SetupFileKind = 'makefile' | 'dockerfile' | 'compose' | 'env' | 'version' | 'workflow' | 'gitlab-ci';
+
+type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun';
+
+const STEP_TITLES: Record<SetupStepKind, string> = {
+    toolchain: 'Install the required toolchain',
+    environment: 'Configure the environment',
+    install: 'Install dependencies',
+    build: 'Build',
+    test: 'Run the tests',
+    run: 'Start the project',
+    docker: 'Run with Docker',
+    ci: 'Run the checks CI runs'
+};
+const STEP_ORDER: SetupStepKind[] = ['toolchain', 'environment', 'install', 'build', 'test', 'run', 'docker', 'ci'];
+
+// Make targets that are the project's own entry point for a step, most conventional first. `make install`
+// usually installs the built program system-wide, so it is not a way to install dependencies.
+const MAKE_TARGETS: Partial<Record<SetupStepKind, string[]>> = {
+    install: ['setup', 'bootstrap', 'deps', 'init'],
+    build: ['build', 'compile'],
+    test: ['test', 'tests', 'check'],
+    run: ['run', 'dev', 'start', 'serve']
+};
+
+const TOOL_NAMES: Record<string, string> = {
+    node: 'Node.js',
+    nodejs: 'Node.js',
+    python: 'Python',
+    go: 'Go',
+    golang: 'Go',
+    rust: 'Rust',
+    java: 'Java',
+    ruby: 'Ruby',
+    toolchain: 'Go toolchain'
+};
+
+// Environment values like these are placeholders to replace rather than defaults
+const PLACEHOLDER_VALUE = /^$|^<.*>$|^(changeme|change_me|todo|xxx+|your[-_].*|replace[-_].*)$/i;
+
+function setupFileKind(path: string, root: string): SetupFileKind | null {
+    if (!path.startsWith(root)) return null;
+    const relative = path.substring(root.length);
+    if (/^\.github\/workflows\/[^/]+\.ya?ml$/.test(relative)) return 'workflow';
+    // Everything else is only read from the top of the repository
+    if (relative.includes('/')) return null;
+    if (/^(GNUmakefile|[Mm]akefile)$/.test(relative)) return 'makefile';
+    if (relative === 'Dockerfile') return 'dockerfile';
+    if (/^(docker-)?compose\.ya?ml$/.test(relative)) return 'compose';
+    if (/^\.env\.(example|sample|template|dist)$|^example\.env$/.test(relative)) return 'env';
+    if (/^(\.nvmrc|\.node-version|\.python-version|\.go-version|\.tool-versions|rust-toolchain(\.toml)?)$/.test(relative)) return 'version';
+    if (relative === '.gitlab-ci.yml') return 'gitlab-ci';
+    return null;
+}
+
+// Reads the setup-related files at the top of the indexed tree and combines them with the parsed
+// manifests. A file that cannot be read is left out of the guide.
+async function loadSetupGuide(location: RepoLocation, fileTree: FileNode[], manifests: DependencyManifest[], scopePath: string | null, headers: Record<string, string>): Promise<SetupGuide> {
+    const root = scopePath ? `${scopePath}/` : '';
+    const files = fileTree
+        .filter(f => f.type === 'file' && !!f.sha && (f.size === undefined || f.size <= MAX_SETUP_FILE_SIZE) && setupFileKind(f.path, root) !== null)
+        .sort((a, b) => a.path.localeCompare(b.path))
+        .slice(0, MAX_SETUP_FILES);
+    
+    const contents: Record<string, string> = {};
+    await Promise.all(files.map(async file => {
+        try {
+            const text = await providerFor(location).fetchBlobContent(location, file.sha!, headers);
+            if (text !== null) contents[file.path] = text;
+        } catch (error) {
+            console.log(`Skipping setup file ${file.path}:`, error);
+        }
+    }));
+    return buildSetupGuide(contents, fileTree, manifests, location.repo, scopePath);
+}
+
+// `name` is used to tag the Docker image
+function buildSetupGuide(contents: Record<string, string>, fileTree: FileNode[], manifests: DependencyManifest[], name: string, scopePath: string | null = null): SetupGuide {
+    const root = scopePath ? `${scopePath}/` : '';
+    const relative = (path: string) => path.startsWith(root) ? path.substring(root.length) : path;
+    const paths = new Set(fileTree.filter(f => f.type === 'file').map(f => relative(f.path)));
+    const files = Object.keys(contents).sort().map(path => ({ path: relative(path), kind: setupFileKind(path, root), text: contents[path] }));
+    const fileOf = (kind: SetupFileKind) => files.find(f => f.kind === kind);
+    
+    const steps = new Map<SetupStepKind, SetupStep>();
+    const step = (kind: SetupStepKind) => {
+        if (!steps.has(kind)) steps.set(kind, { kind, title: STEP_TITLES[kind], commands: [], notes: [], sources: [] });
+        return steps.get(kind)!;
+    };
+    const add = (kind: SetupStepKind, source: string, commands: string[], notes: string[] = []) => {
+        const target = step(kind);
+        commands.filter(c => !target.commands.includes(c)).forEach(c => target.commands.push(c));
+        notes.filter(n => !target.notes.includes(n)).forEach(n => target.notes.push(n));
+        if (!target.sources.includes(source)) target.sources.push(source);
+    };
+    
+    const primary = primaryManifests(manifests.map(m => ({ ...m, path: relative(m.path) })));
+    const makefile = fileOf('makefile');
+    const makeTargets = makefile ? parseMakeTargets(makefile.text) : [];
+    const makeTarget = (kind: SetupStepKind) => (MAKE_TARGETS[kind] || []).find(t => makeTargets.includes(t));
+    
+    addToolchain(files, primary, add);
+    
+    const envFile = fileOf('env');
+    if (envFile) {
+        const { required, defaulted } = parseEnvExample(envFile.text);
+        const notes = [
+            required.length > 0 ? `Fill in: ${listNames(required)}` : null,
+            defaulted.length > 0 ? `Defaults provided for: ${listNames(defaulted)}` : null
+        ].filter((n): n is string => n !== null);
+        add('environment', envFile.path, [`cp ${envFile.path} .env`], notes);
+    }
+    
+    for (const kind of ['install', 'build', 'test', 'run'] as SetupStepKind[]) {
+        const target = makeTarget(kind);
+        if (target) {
+            add(kind, makefile!.path, [`make ${target}`]);
+            continue;
+        }
+        for (const manifest of primary) {
+            const commands = manifestCommands(kind, manifest, paths);
+            if (commands.length > 0) add(kind, manifest.path, commands);
+        }
+    }
+    
+    const dockerfile = fileOf('dockerfile');
+    if (dockerfile) {
+        const { baseImage, ports } = parseDockerfile(dockerfile.text);
+        const image = (scopePath ? scopePath.split('/').pop()! : name).toLowerCase();
+        const run = ['docker run --rm', ...ports.map(p => `-p ${p}:${p}`), envFile ? '--env-file .env' : null, image].filter(Boolean).join(' ');
+        add('docker', dockerfile.path, [`docker build -t ${image} .`, run], baseImage ? [`Base image: ${baseImage}`] : []);
+    }
+    const compose = fileOf('compose');
+    if (compose) {
+        add('docker', compose.path, ['docker compose up']);
+    }
+    
+    for (const file of files.filter(f => f.kind === 'workflow' || f.kind === 'gitlab-ci')) {
+        const commands = file.kind === 'workflow' ? parseWorkflowCommands(file.text) : parseGitlabCommands(file.text);
+        const room = MAX_CI_COMMANDS - (steps.get('ci')?.commands.length || 0);
+        if (commands.length > 0 && room > 0) add('ci', file.path, commands.slice(0, room));
+    }
+    
+    return { steps: STEP_ORDER.filter(kind => steps.has(kind)).map(kind => steps.get(kind)!) };
+}
+
+// The manifests nearest the top of the tree, one level per ecosystem; workspace members are installed through them
+function primaryManifests(manifests: DependencyManifest[]): DependencyManifest[] {
+    const depth = (m: DependencyManifest) => m.path.split('/').length;
+    const relevant = manifests.filter(m => !m.path.endsWith('pnpm-workspace.yaml') && !m.path.endsWith('go.work'));
+    return relevant.filter(m => depth(m) === Math.min(...relevant.filter(o => o.ecosystem === m.ecosystem).map(depth)));
+}
+
+function addToolchain(files: Array<{ path: string; kind: SetupFileKind | null; text: string }>, manifests: DependencyManifest[], add: (kind: SetupStepKind, source: string, commands: string[], notes?: string[]) => void): void {
+    for (const manifest of manifests) {
+        const notes = Object.entries(manifest.engines)
+            .filter(([tool]) => tool !== 'edition')
+            .map(([tool, version]) => `${TOOL_NAMES[tool] || tool} ${version}`);
+        const corepack = ['pnpm', 'yarn'].some(tool => tool in manifest.engines) ? ['corepack enable'] : [];
+        if (notes.length > 0) add('toolchain', manifest.path, corepack, notes);
+    }
+    
+    for (const file of files.filter(f => f.kind === 'version')) {
+        const name = file.path;
+        const text = file.text.trim();
+        if (name === '.nvmrc' || name === '.node-version') {
+            add('toolchain', name, name === '.nvmrc' ? ['nvm use'] : [], [`Node.js ${text.split('\n')[0].replace(/^v/, '')}`]);
+        } else if (name === '.python-version' || name === '.go-version') {
+            add('toolchain', name, [], [`${name === '.go-version' ? 'Go' : 'Python'} ${text.split('\n')[0]}`]);
+        } else if (name === '.tool-versions') {
+            const notes = text.split('\n')
+                .map(line => line.replace(/#.*/, '').trim().split(/\s+/))
+                .filter(parts => parts.length >= 2 && parts[0])
+                .map(([tool, version]) => `${TOOL_NAMES[tool] || tool} ${version}`);
+            add('toolchain', name, ['asdf install'], notes);
+        } else {
+            // rust-toolchain is either a bare channel or TOML with `channel = "..."`; rustup picks it up by itself
+            const channel = text.match(/channel\s*=\s*"([^"]+)"/)?.[1] || (text.includes('=') ? null : text.split('\n')[0]);
+            if (channel) add('toolchain', name, [], [`Rust ${channel} (installed by rustup automatically)`]);
+        }
+    }
+    
+    for (const file of files.filter(f => f.kind === 'workflow')) {
+        const notes = parseSetupActions(file.text);
+        if (notes.length > 0) add('toolchain', file.path, [], notes);
+    }
+}
+
+function packageManager(manifest: DependencyManifest, directory: string, paths: Set<string>): PackageManager {
+    const has = (name: string) => paths.has(directory ? `${directory}/${name}` : name);
+    if (has('pnpm-lock.yaml')) return 'pnpm';
+    if (has('yarn.lock')) return 'yarn';
+    if (has('bun.lockb') || has('bun.lock')) return 'bun';
+    if (has('package-lock.json')) return 'npm';
+    return (['pnpm', 'yarn', 'bun'] as PackageManager[]).find(pm => pm in manifest.engines) || 'npm';
+}
+
+function runScript(manager: PackageManager, script: string): string {
+    if (manager === 'npm') return script === 'test' || script === 'start' ? `npm ${script}` : `npm run ${script}`;
+    if (manager === 'yarn') return `yarn ${script}`;
+    return `${manager} run ${script}`;
+}
+
+// Commands for one step of one manifest, run from the manifest's directory
+function manifestCommands(kind: SetupStepKind, manifest: DependencyManifest, paths: Set<string>): string[] {
+    const directory = manifest.path.includes('/') ? manifest.path.substring(0, manifest.path.lastIndexOf('/')) : '';
+    const has = (name: string) => paths.has(directory ? `${directory}/${name}` : name);
+    const inDirectory = (commands: string[]) => directory ? commands.map(c => `cd ${directory} && ${c}`) : commands;
+    
+    if (manifest.ecosystem === 'npm') {
+        const manager = packageManager(manifest, directory, paths);
+        const scripts = manifest.scripts;
+        if (kind === 'install') return inDirectory([manager === 'npm' && has('package-lock.json') ? 'npm ci' : `${manager} install`]);
+        if (kind === 'build' && scripts.build) return inDirectory([runScript(manager, 'build')]);
+        // `npm init` writes a test script that only fails
+        if (kind === 'test' && scripts.test && !scripts.test.includes('no test specified')) return inDirectory([runScript(manager, 'test')]);
+        if (kind === 'run') {
+            const script = ['dev', 'start', 'serve'].find(s => scripts[s]);
+            return script ? inDirectory([runScript(manager, script)]) : [];
+        }
+        return [];
+    }
+    
+    if (manifest.ecosystem === 'cargo') {
+        if (kind === 'install') return inDirectory(['cargo fetch']);
+        if (kind === 'build') return inDirectory(['cargo build']);
+        if (kind === 'test') return inDirectory(['cargo test']);
+        if (kind === 'run' && has('src/main.rs')) return inDirectory(['cargo run']);
+        return [];
+    }
+    
+    if (manifest.ecosystem === 'go') {
+        if (kind === 'install') return inDirectory(['go mod download']);
+        if (kind === 'build') return inDirectory(['go build ./...']);
+        if (kind === 'test') return inDirectory(['go test ./...']);
+        if (kind === 'run' && has('main.go')) return inDirectory(['go run .']);
+        return [];
+    }
+    
+    // Python: the lock file decides the tool; plain requirements files get a virtual environment
+    const runner = has('uv.lock') ? 'uv run ' : has('poetry.lock') ? 'poetry run ' : '';
+    if (kind === 'install') {
+        if (has('uv.lock')) return inDirectory(['uv sync']);
+        if (has('poetry.lock')) return inDirectory(['poetry install']);
+        const requirements = manifest.path.endsWith('.txt')
+            ? [`pip install -r ${manifest.path.split('/').pop()}`]
+            : ['pip install -e .'];
+        return inDirectory(['python -m venv .venv', 'source .venv/bin/activate', ...requirements]);
+    }
+    const usesPytest = manifest.dependencies.some(d => d.name.toLowerCase() === 'pytest') || has('pytest.ini') || has('conftest.py');
+    if (kind === 'test' && usesPytest) return inDirectory([`${runner}pytest`]);
+    return [];
+}
+
+function parseMakeTargets(text: string): string[] {
+    const targets: string[] = [];
+    for (const line of text.split('\n')) {
+        const match = line.match(/^([A-Za-z0-9_][\w.-]*(?:[ \t]+[A-Za-z0-9_][\w.-]*)*)[ \t]*:(?![=:])/);
+        if (match) targets.push(...match[1].split(/[ \t]+/));
+    }
+    return Array.from(new Set(targets));
+}
+
+function parseEnvExample(text: string): { required: string[]; defaulted: string[] } {
+    const required: string[] = [];
+    const defaulted: string[] = [];
+    for (const line of text.split('\n')) {
+        const match = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/);
+        if (!match) continue;
+        const value = match[2].replace(/\s+#.*$/, '').trim().replace(/^(['"])(.*)\1$/, '$2');
+        (PLACEHOLDER_VALUE.test(value) ? required : defaulted).push(match[1]);
+    }
+    return { required, defaulted };
+}
+
+function listNames(names: string[]): string {
+    const shown = names.slice(0, MAX_LISTED_VARIABLES).map(n => `\`${n}\``).join(', ');
+    return names.length > MAX_LISTED_VARIABLES ? `${shown} and ${names.length - MAX_LISTED_VARIABLES} more` : shown;
+}
+
+// The final stage is what runs, so its base image is the one reported
+function parseDockerfile(text: string): { baseImage: string | null; ports: string[] } {
+    let baseImage: string | null = null;
+    const ports: string[] = [];
+    for (const line of text.split('\n')) {
+        const from = line.match(/^\s*FROM\s+(?:--\S+\s+)*(\S+)/i);
+        if (from) baseImage = from[1];
+        const expose = line.match(/^\s*EXPOSE\s+(.+)/i);
+        if (expose) ports.push(...expose[1].split(/\s+/).map(p => p.replace(/\/\w+$/, '')).filter(p => /^\d+$/.test(p)));
+    }
+    return { baseImage, ports: Array.from(new Set(ports)) };
+}
+
+// `run:` values of workflow steps, block scalars included. Commands that depend on workflow
+// expressions or secrets only make sense in CI and are left out.
+function parseWorkflowCommands(text: string): string[] {
+    const lines = text.split('\n');
+    const commands: string[] = [];
+    for (let i = 0; i < lines.length; i++) {
+        const match = lines[i].match(/^(\s*)(?:-\s+)?run:\s*(.*)$/);
+        if (!match) continue;
+        const value = match[2].replace(/\s+#.*$/, '').trim();
+        if (!/^[|>][-+]?$/.test(value)) {
+            commands.push(value.replace(/^(['"])(.*)\1$/, '$2'));
+            continue;
+        }
+        
+        const block: string[] = [];
+        let indent = -1;
+        for (i = i + 1; i < lines.length; i++) {
+            const line = lines[i];
+            if (!line.trim()) continue;
+            const lineIndent = line.match(/^\s*/)![0].length;
+            if (indent < 0) indent = lineIndent;
+            if (lineIndent < indent || lineIndent <= match[1].length) break;
+            block.push(line.trim());
+        }
+        i--;
+        commands.push(...(value.startsWith('>') ? [block.join(' ')] : joinContinuations(block)));
+    }
+    return Array.from(new Set(commands.filter(c => c && !c.includes('${{') && !c.startsWith('#'))));
+}
+
+function parseGitlabCommands(text: string): string[] {
+    const lines = text.split('\n');
+    const commands: string[] = [];
+    for (let i = 0; i < lines.length; i++) {
+        const match = lines[i].match(/^(\s*)(?:before_script|script):\s*(.*)$/);
+        if (!match) continue;
+        if (match[2].trim()) {
+            commands.push(match[2].trim().replace(/^(['"])(.*)\1$/, '$2'));
+            continue;
+        }
+        for (i = i + 1; i < lines.length; i++) {
+            const item = lines[i].match(/^(\s*)-\s+(.*)$/);
+            if (!item || item[1].length < match[1].length) break;
+            commands.push(item[2].trim().replace(/^(['"])(.*)\1$/, '$2'));
+        }
+        i--;
+    }
+    return Array.from(new Set(commands.filter(c => c && !/\$\{?CI_/.test(c))));
+}
+
+function joinContinuations(lines: string[]): string[] {
+    const commands: string[] = [];
+    let pending = '';
+    for (const line of lines) {
+        pending = pending ? `${pending} ${line}` : line;
+        if (pending.endsWith('\\')) {
+            pending = pending.slice(0, -1).trim();
+        } else {
+            commands.push(pending);
+            pending = '';
+        }
+    }
+    if (pending) commands.push(pending);
+    return commands;
+}
+
+// Versions passed to `actions/setup-node` and friends, e.g. "Node.js 20 (CI)"
+function parseSetupActions(text: string): string[] {
+    const notes: string[] = [];
+    const lines = text.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+        const action = lines[i].match(/uses:\s*['"]?(?:actions\/setup-(node|python|go|java)|dtolnay\/rust-toolchain)@([^\s'"]+)/);
+        if (!action) continue;
+        const tool = action[1] || 'rust';
+        const key = tool === 'rust' ? 'toolchain' : `${tool}-version`;
+        const version = lines.slice(i + 1, i + 6).map(l => l.match(new RegExp(`^\\s*${key}:\\s*(.+)$`))).find(Boolean)?.[1]
+            // dtolnay/rust-toolchain takes the channel from its ref, as in @stable or @1.74
+            ?? (tool === 'rust' && action[2] !== 'master' ? action[2] : null);
+        if (!version || version.includes('${{')) continue;
+        notes.push(`${TOOL_NAMES[tool]} ${version.trim().replace(/^\[(.*)\]$/, '$1').replace(/['"]/g, '')} (CI)`);
+    }
+    return notes;
+}
+
+function formatSetupStep(step: SetupStep, position: number): string {
+    const lines = [`### ${position}. ${step.title}`];
+    lines.push(...step.notes.map(note => `- ${note}`));
+    if (step.commands.length > 0) {
+        lines.push('```sh', ...step.commands, '```');
+    }
+    lines.push(`_From ${step.sources.map(s => `\`${s}\``).join(', ')}_`);
+    return lines.join('\n');
+}
+
+function formatSetupGuide(guide: SetupGuide, fullName: string): string {
+    if (guide.steps.length === 0) {
+        return `No manifests, Makefile, Dockerfile or CI configuration were found in **${fullName}** to build setup steps from.`;
+    }
+    return [`## Setting up ${fullName}`, ...guide.steps.map((step, i) => formatSetupStep(step, i + 1))].join('\n\n');
+}
+
+export {
+    loadSetupGuide,
+    buildSetupGuide,
+    formatSetupStep,
+    formatSetupGuide
+};
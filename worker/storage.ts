@@ -0,0 +1,286 @@
+import { Env, RepoIndex, FileNode, IssueInfo, PRInfo, DependencyManifest, SetupGuide, FileOutline, IndexPart, IndexSummary, RepoLocation, Viewer, ANONYMOUS_VIEWER, CACHE_TTL, INDEX_RETENTION_TTL } from "./utils";
+import { repoCacheKey } from "./tools";
+import { parseRepoUrl } from "./providers";
+import { UnauthorizedError } from "./github";
+
+// The manifest under the index key holds the metadata and describes where each part is stored.
+// Bump STORAGE_SCHEMA when the manifest layout changes, or a part's number when its shape does;
+// entries written under other numbers are dropped and the repository is indexed again.
+const STORAGE_SCHEMA = 3;
+const PART_SCHEMAS: Record<IndexPart, number> = {
+    tree: 1,
+    docs: 1,
+    issues: 1,
+    pullRequests: 1,
+    manifests: 1,
+    setup: 1,
+    outlines: 2
+};
+const ALL_PARTS: IndexPart[] = ['tree', 'docs', 'issues', 'pullRequests', 'manifests', 'setup', 'outlines'];
+const BLOB_SCHEMA = 1;
+
+// KV values are capped at 25 MiB, so compressed parts are split well below that
+const MAX_CHUNK_BYTES = 4 * 1024 * 1024;
+// Unchanged parts are not written again, so they are rewritten once this old to outlive the manifest
+const PART_REFRESH_AGE_MS = INDEX_RETENTION_TTL * 1000 / 2;
+
+interface IndexParts {
+    tree: FileNode[];
+    docs: { readme: string | null; contributing: string | null };
+    issues: IssueInfo[];
+    pullRequests: PRInfo[];
+    manifests: DependencyManifest[];
+    setup: SetupGuide;
+    outlines: FileOutline[];
+}
+
+type IndexMetadata = Omit<RepoIndex, 'fileTree' | 'readme' | 'contributing' | 'issues' | 'pullRequests' | 'manifests' | 'setupGuide' | 'outlines'>;
+
+interface StoredPart {
+    schema: number;
+    // Part chunks are stored under their content hash, so a reader holding an older manifest never sees a newer part
+    hash: string;
+    chunks: number;
+    bytes: number;
+    savedAt: string;
+    // Counts taken from the part when it was written, so they can be reported without loading it
+    summary: Partial<IndexSummary>;
+}
+
+interface IndexManifest {
+    schema: number;
+    meta: IndexMetadata;
+    parts: Record<IndexPart, StoredPart>;
+}
+
+// Private repositories are cached per user so one user's private index is never served to someone else.
+// GitLab and Gitea are read with a server-wide token, so visitors who are not signed in share a "token"
+// scope there; on GitHub they only reach public repositories, which have no scope.
+function viewerScope(viewer: Viewer, location: RepoLocation): string | null {
+    if (viewer.userId) return `user:${viewer.userId}`;
+    return location.provider === 'github' ? null : 'token';
+}
+
+// Scope for caches derived from a repository (issues, reviews, embeddings). When the repository
+// has not been indexed yet its visibility is unknown, so the viewer's scope is used to be safe.
+function cacheScopeFor(index: RepoIndex | null, viewer: Viewer, location: RepoLocation): string | null {
+    return index ? index.cacheScope : viewerScope(viewer, location);
+}
+
+// Parts that are not asked for come back empty, so an index loaded with only some parts must not be
+// saved with the others
+async function getRepoIndex(url: string, env: Env, viewer: Viewer = ANONYMOUS_VIEWER, parts: IndexPart[] = ALL_PARTS): Promise<RepoIndex | null> {
+    const location = parseRepoUrl(url, env);
+    const scope = viewerScope(viewer, location);
+    for (const key of scope ? [repoCacheKey(location, scope), repoCacheKey(location)] : [repoCacheKey(location)]) {
+        const index = await loadIndexEntry(key, env, parts);
+        if (index) {
+            return index;
+        }
+    }
+    return null;
+}
+
+async function saveRepoIndex(url: string, index: RepoIndex, env: Env, viewer: Viewer = ANONYMOUS_VIEWER): Promise<void> {
+    const location = parseRepoUrl(url, env);
+    index.cacheScope = index.private ? viewerScope(viewer, location) : null;
+    if (index.private && !index.cacheScope) {
+        throw new UnauthorizedError('Sign in with GitHub to use private repositories.');
+    }
+    await saveIndexEntry(repoCacheKey(location, index.cacheScope), index, env);
+}
+
+async function loadIndexEntry(key: string, env: Env, parts: IndexPart[] = ALL_PARTS): Promise<RepoIndex | null> {
+    const cached = await env.CACHE_KV.get(key);
+    if (!cached) return null;
+    
+    const stored = JSON.parse(cached) as IndexManifest | RepoIndex;
+    if (!('schema' in stored)) {
+        // Written as a single value before the index was split into parts (and before manifests, setup guides and outlines)
+        const legacy = stored as RepoIndex;
+        legacy.manifests = legacy.manifests || [];
+        legacy.setupGuide = legacy.setupGuide || { steps: [] };
+        legacy.outlines = legacy.outlines || [];
+        await saveIndexEntry(key, legacy, env);
+        return { ...legacy, summary: summarizeIndex(legacy) };
+    }
+    if (!isCurrent(stored)) {
+        console.log(`Dropping index ${key} stored with schema ${stored.schema}`);
+        await env.CACHE_KV.delete(key);
+        return null;
+    }
+    
+    const values = await Promise.all(parts.map(part => readPart(key, part, stored.parts[part], env)));
+    const loaded: Partial<IndexParts> = {};
+    for (let i = 0; i < parts.length; i++) {
+        if (values[i] === null) {
+            console.log(`Index ${key} is missing its ${parts[i]} part`);
+            return null;
+        }
+        (loaded as Record<IndexPart, unknown>)[parts[i]] = values[i];
+    }
+    return joinIndex(stored.meta, loaded, stored.parts);
+}
+
+// `parts` limits the write to the parts that were loaded; the others keep what is already stored
+async function saveIndexEntry(key: string, index: RepoIndex, env: Env, parts: IndexPart[] = ALL_PARTS): Promise<void> {
+    const cached = await env.CACHE_KV.get(key);
+    const previous = cached ? JSON.parse(cached) as IndexManifest | RepoIndex : null;
+    const current = previous && 'schema' in previous && isCurrent(previous) ? previous : null;
+    if (!current && parts.length < ALL_PARTS.length) {
+        throw new Error(`Cannot save only some parts of ${key}: no current index is stored`);
+    }
+    
+    const { meta, parts: values } = splitIndex(index);
+    const stored = { ...current?.parts } as Record<IndexPart, StoredPart>;
+    const summaries = summarizeParts(values);
+    for (const part of parts) {
+        stored[part] = await writePart(key, part, values[part], summaries[part], current?.parts[part], env);
+    }
+    
+    const manifest: IndexManifest = { schema: STORAGE_SCHEMA, meta, parts: stored };
+    // Kept well past CACHE_TTL so a stale index can still be served while it is refreshed.
+    // Replaced parts are left to expire rather than deleted, since a reader may still be using them.
+    await env.CACHE_KV.put(key, JSON.stringify(manifest), { expirationTtl: INDEX_RETENTION_TTL });
+}
+
+function isCurrent(manifest: IndexManifest): boolean {
+    return manifest.schema === STORAGE_SCHEMA && ALL_PARTS.every(part => manifest.parts[part]?.schema === PART_SCHEMAS[part]);
+}
+
+function splitIndex(index: RepoIndex): { meta: IndexMetadata; parts: IndexParts } {
+    const { fileTree, readme, contributing, issues, pullRequests, manifests, setupGuide, outlines, ...meta } = index;
+    // Rebuilt from the stored parts on load
+    delete meta.summary;
+    return { meta, parts: { tree: fileTree, docs: { readme, contributing }, issues, pullRequests, manifests, setup: setupGuide, outlines } };
+}
+
+function joinIndex(meta: IndexMetadata, parts: Partial<IndexParts>, stored: Record<IndexPart, StoredPart>): RepoIndex {
+    const summary = ALL_PARTS.reduce((all, part) => ({ ...all, ...stored[part].summary }), {} as IndexSummary);
+    return {
+        ...meta,
+        fileTree: parts.tree || [],
+        readme: parts.docs?.readme ?? null,
+        contributing: parts.docs?.contributing ?? null,
+        issues: parts.issues || [],
+        pullRequests: parts.pullRequests || [],
+        manifests: parts.manifests || [],
+        setupGuide: parts.setup || { steps: [] },
+        outlines: parts.outlines || [],
+        summary
+    };
+}
+
+function summarizeParts(parts: IndexParts): Record<IndexPart, Partial<IndexSummary>> {
+    return {
+        tree: { files: parts.tree.length },
+        docs: { hasReadme: !!parts.docs.readme, hasContributing: !!parts.docs.contributing },
+        issues: {
+            issues: parts.issues.length,
+            goodFirstIssues: parts.issues.filter(i => i.labels.some(l => l.toLowerCase().includes('good first'))).length,
+            helpWantedIssues: parts.issues.filter(i => i.labels.some(l => l.toLowerCase().includes('help wanted'))).length
+        },
+        pullRequests: { pullRequests: parts.pullRequests.length },
+        manifests: {},
+        setup: {},
+        outlines: {}
+    };
+}
+
+// Counts for an index that has every part in memory
+function summarizeIndex(index: RepoIndex): IndexSummary {
+    const summaries = summarizeParts(splitIndex(index).parts);
+    return ALL_PARTS.reduce((all, part) => ({ ...all, ...summaries[part] }), {} as IndexSummary);
+}
+
+function partKey(key: string, part: IndexPart, hash: string, chunk: number): string {
+    return `index-part:${key}:${part}:${hash}:${chunk}`;
+}
+
+async function writePart(key: string, part: IndexPart, value: unknown, summary: Partial<IndexSummary>, previous: StoredPart | undefined, env: Env): Promise<StoredPart> {
+    const json = JSON.stringify(value);
+    const hash = await hashText(json);
+    if (previous && previous.hash === hash && Date.now() - new Date(previous.savedAt).getTime() < PART_REFRESH_AGE_MS) {
+        return previous;
+    }
+    
+    const data = await compress(json);
+    const chunks = Math.max(1, Math.ceil(data.byteLength / MAX_CHUNK_BYTES));
+    const writes: Promise<void>[] = [];
+    for (let i = 0; i < chunks; i++) {
+        const chunk = data.slice(i * MAX_CHUNK_BYTES, (i + 1) * MAX_CHUNK_BYTES);
+        writes.push(env.CACHE_KV.put(partKey(key, part, hash, i), chunk, { expirationTtl: INDEX_RETENTION_TTL }));
+    }
+    await Promise.all(writes);
+    
+    return { schema: PART_SCHEMAS[part], hash, chunks, bytes: data.byteLength, savedAt: new Date().toISOString(), summary };
+}
+
+async function readPart(key: string, part: IndexPart, stored: StoredPart, env: Env): Promise<unknown | null> {
+    const reads: Promise<ArrayBuffer | null>[] = [];
+    for (let i = 0; i < stored.chunks; i++) {
+        reads.push(env.CACHE_KV.get(partKey(key, part, stored.hash, i), 'arrayBuffer'));
+    }
+    const chunks = await Promise.all(reads);
+    if (chunks.some(chunk => chunk === null)) return null;
+    
+    const data = new Uint8Array(stored.bytes);
+    let offset = 0;
+    for (const chunk of chunks as ArrayBuffer[]) {
+        data.set(new Uint8Array(chunk), offset);
+        offset += chunk.byteLength;
+    }
+    return JSON.parse(await decompress(data.buffer));
+}
+
+// Blobs are content-addressed, so one cached copy serves every ref and every viewer that can see the SHA
+function blobKey(sha: string): string {
+    return `blob:${BLOB_SCHEMA}:${sha}`;
+}
+
+async function loadBlobs(shas: string[], env: Env): Promise<Array<string | null>> {
+    return Promise.all(shas.map(async sha => {
+        const data = await env.CACHE_KV.get(blobKey(sha), 'arrayBuffer');
+        return data ? decompress(data) : null;
+    }));
+}
+
+async function saveBlob(sha: string, content: string, env: Env): Promise<void> {
+    await env.CACHE_KV.put(blobKey(sha), await compress(content), { expirationTtl: INDEX_RETENTION_TTL });
+}
+
+async function compress(text: string): Promise<Uint8Array> {
+    const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function decompress(data: ArrayBuffer): Promise<string> {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('gzip'));
+    return new Response(stream).text();
+}
+
+async function hashText(text: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest).slice(0, 12))
+        .map(b => b.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+function isIndexStale(index: RepoIndex): boolean {
+    if (index.treeStale) return true;
+    const age = (Date.now() - new Date(index.indexedAt).getTime()) / 1000;
+    return age >= CACHE_TTL;
+}
+
+export {
+    viewerScope,
+    cacheScopeFor,
+    getRepoIndex,
+    saveRepoIndex,
+    loadIndexEntry,
+    saveIndexEntry,
+    summarizeIndex,
+    loadBlobs,
+    saveBlob,
+    isIndexStale
+};
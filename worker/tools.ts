@@ -1,219 +1,245 @@
-import { FileNode, IssueInfo, PRInfo, RepoIndex } from "./utils";
+import { CodeSnippet, Env, IssueInfo, ToolObservation, RepoIndex, RepoLocation, FileOutline, DependencyManifest, IndexPhase, PhaseListener, QuestionIntent, BuiltContext, ContextSectionUsage, Viewer, createHeaders, estimateTokens, truncateText } from "./utils";
+import { NotFoundError, UnauthorizedError } from "./github";
+import { mapIssuesToFiles } from "./issue-mapping";
+import { providerFor } from "./providers";
+import { rankOutlines, formatSymbol } from "./outlines";
+import { loadManifests, formatManifest } from "./manifests";
+import { loadSetupGuide, formatSetupStep } from "./setup-guide";
+import { buildImportGraph, describeConnections } from "./imports";
+import { ContextSection, ContextUnit, allocateBudget, fitSection, takePieces, splitMarkdownSections, splitParagraphs, splitCodeBlocks, countLines } from "./context-budget";
 
-function parseGitHubUrl(url: string): { owner: string; repo: string } {
-    const regex = /(?:https?:\/\/)?github\.com\/([^\/]+)\/([^\/\s?#]+)/;
-    const match = url.match(regex);
-    if (!match) {
-        throw new Error("Invalid GitHub repository URL");
-    }
-    return { owner: match[1], repo: match[2].replace(/\.git$/, '') };
+interface ContextOptions {
+    intent?: QuestionIntent;
+    maxTokens?: number;
+    // Used to put the outlines of files the question is about first
+    question?: string;
 }
 
-async function githubFetch<T>(url: string, headers: Record<string, string>): Promise<T | null> {
-    try {
-        const response = await fetch(url, { headers });
-        if (!response.ok) {
-            console.log(`GitHub API error for ${url}: ${response.status}`);
-            return null;
-        }
-        return await response.json() as T;
-    } catch (error) {
-        console.log(`Fetch error for ${url}:`, error);
-        return null;
-    }
-}
+const DEFAULT_CONTEXT_TOKENS = 12000;
+// Files are kept whole up to this size; buildContext trims them further to fit the question's budget
+const MAX_FILE_CHARS = 40000;
 
-async function fetchRepoMetadata(owner: string, repo: string, headers: Record<string, string>) {
-    const url = `https://api.github.com/repos/${owner}/${repo}`;
-    return githubFetch<{
-        name: string;
-        full_name: string;
-        description: string | null;
-        html_url: string;
-        default_branch: string;
-        language: string | null;
-        topics: string[];
-        stargazers_count: number;
-        forks: number;
-        open_issues_count: number;
-    }>(url, headers);
+// GitHub keys stay unprefixed so indexes cached before other hosts were supported remain valid
+function repoCacheKey(location: RepoLocation, scope?: string | null): string {
+    const refPath = [location.ref, location.path].filter(Boolean).join('/');
+    const host = location.provider === 'github' ? '' : `${location.baseUrl.replace(/^https?:\/\//, '').toLowerCase()}/`;
+    return `repo:${host}${location.owner.toLowerCase()}/${location.repo.toLowerCase()}${refPath ? `@${refPath}` : ''}${scope ? `~${scope}` : ''}`;
 }
 
-async function fetchFileContent(owner: string, repo: string, path: string, headers: Record<string, string>): Promise<string | null> {
-    const url = `https://api.github.com/repos/${owner}/${repo}/contents/${path}`;
-    const data = await githubFetch<{ content?: string; encoding?: string }>(url, headers);
-    
-    if (data?.content && data.encoding === 'base64') {
-        try {
-            return atob(data.content.replace(/\n/g, ''));
-        } catch {
-            return null;
-        }
+// GITHUB_PAT reads everything its owner can, so it only stands in for visitors who are not signed in on
+// public repositories. The cached index answers the question when there is one; otherwise the metadata does.
+async function assertViewerCanRead(location: RepoLocation, viewer: Viewer, env: Env, index: RepoIndex | null): Promise<void> {
+    if (location.provider !== 'github' || viewer.token || !env.GITHUB_PAT) return;
+    
+    const isPrivate = index ? index.private : (await providerFor(location).fetchRepoMetadata(location, createHeaders(env, viewer, location))).private;
+    if (isPrivate) {
+        throw new UnauthorizedError('Sign in with GitHub to use private repositories.');
     }
-    return null;
 }
 
-async function fetchFileTree(owner: string, repo: string, headers: Record<string, string>, path: string = '', depth: number = 0, maxDepth: number = 3): Promise<FileNode[]> {
-    if (depth > maxDepth) return [];
-    
-    const url = `https://api.github.com/repos/${owner}/${repo}/contents/${path}`;
-    const data = await githubFetch<Array<{ path: string; type: string; size?: number }>>(url, headers);
-    
-    if (!data || !Array.isArray(data)) return [];
-    
-    const nodes: FileNode[] = [];
-    const dirPromises: Promise<FileNode[]>[] = [];
-    
-    for (const item of data) {
-        nodes.push({
-            path: item.path,
-            type: item.type === 'dir' ? 'dir' : 'file',
-            size: item.size
-        });
-        
-        if (item.type === 'dir' && !shouldSkipDirectory(item.path)) {
-            dirPromises.push(fetchFileTree(owner, repo, headers, item.path, depth + 1, maxDepth));
-        }
-    }
+// Refs may themselves contain slashes (`release/2.x`), so `/tree/release/2.x/src` is ambiguous.
+// Try the shortest candidate first: git forbids `release` and `release/2.x` from coexisting as branches.
+async function resolveRefAndPath(location: RepoLocation, headers: Record<string, string>): Promise<{ ref: string; sha: string; path: string | null } | null> {
+    if (!location.ref) return null;
     
-    const nestedResults = await Promise.all(dirPromises);
-    for (const nested of nestedResults) {
-        nodes.push(...nested);
+    const segments = [location.ref, ...(location.path ? location.path.split('/') : [])];
+    for (let i = 1; i <= Math.min(segments.length, 5); i++) {
+        const ref = segments.slice(0, i).join('/');
+        const sha = await providerFor(location).resolveCommitSha(location, ref, headers);
+        if (sha) {
+            return { ref, sha, path: segments.slice(i).join('/') || null };
+        }
     }
-    
-    return nodes;
-}
-
-function shouldSkipDirectory(path: string): boolean {
-    const skipDirs = [
-        'node_modules', '.git', 'dist', 'build', 'coverage', 
-        '.next', '.nuxt', 'vendor', '__pycache__', '.venv',
-        'target', 'out', '.idea', '.vscode', 'assets', 'public/assets'
-    ];
-    const dirName = path.split('/').pop() || '';
-    return skipDirs.includes(dirName) || dirName.startsWith('.');
+    return null;
 }
 
-async function fetchIssues(owner: string, repo: string, headers: Record<string, string>, limit: number = 30): Promise<IssueInfo[]> {
-    const url = `https://api.github.com/repos/${owner}/${repo}/issues?state=open&per_page=${limit}&sort=updated`;
-    const data = await githubFetch<Array<{
-        number: number;
-        title: string;
-        body: string | null;
-        state: string;
-        labels: Array<{ name: string }>;
-        user: { login: string };
-        created_at: string;
-        comments: number;
-        html_url: string;
-        pull_request?: unknown;
-    }>>(url, headers);
-    
-    if (!data) return [];
-    
-    return data
-        .filter(item => !item.pull_request)
-        .map(issue => ({
-            number: issue.number,
-            title: issue.title,
-            body: issue.body ? truncateText(issue.body, 500) : null,
-            state: issue.state,
-            labels: issue.labels.map(l => l.name),
-            author: issue.user.login,
-            createdAt: issue.created_at,
-            commentsCount: issue.comments,
-            url: issue.html_url
-        }));
+function mergeUpdated<T extends { number: number; state: string }>(existing: T[], updated: T[], limit: number): T[] {
+    const changed = new Set(updated.map(item => item.number));
+    const stillOpen = updated.filter(item => item.state === 'open');
+    return [...stillOpen, ...existing.filter(item => !changed.has(item.number))].slice(0, limit);
 }
 
-async function fetchPullRequests(owner: string, repo: string, headers: Record<string, string>, limit: number = 15): Promise<PRInfo[]> {
-    const url = `https://api.github.com/repos/${owner}/${repo}/pulls?state=open&per_page=${limit}&sort=updated`;
-    const data = await githubFetch<Array<{
-        number: number;
-        title: string;
-        body: string | null;
-        state: string;
-        user: { login: string };
-        created_at: string;
-        html_url: string;
-        draft: boolean;
-    }>>(url, headers);
-    
-    if (!data) return [];
-    
-    return data.map(pr => ({
-        number: pr.number,
-        title: pr.title,
-        body: pr.body ? truncateText(pr.body, 300) : null,
-        state: pr.state,
-        author: pr.user.login,
-        createdAt: pr.created_at,
-        url: pr.html_url,
-        draft: pr.draft
-    }));
+async function trackPhase<T>(phase: IndexPhase, task: Promise<T>, describe: (result: T) => string, onPhase?: PhaseListener): Promise<T> {
+    onPhase?.(phase, 'running');
+    try {
+        const result = await task;
+        onPhase?.(phase, 'done', describe(result));
+        return result;
+    } catch (error) {
+        onPhase?.(phase, 'failed', error instanceof Error ? error.message : undefined);
+        throw error;
+    }
 }
 
-async function fetchLanguages(owner: string, repo: string, headers: Record<string, string>): Promise<Record<string, number>> {
-    const url = `https://api.github.com/repos/${owner}/${repo}/languages`;
-    const data = await githubFetch<Record<string, number>>(url, headers);
-    return data || {};
+async function resolveIndexTarget(location: RepoLocation, defaultBranch: string, headers: Record<string, string>): Promise<{ ref: string; commitSha: string | null; scopePath: string | null }> {
+    const { owner, repo } = location;
+    
+    if (location.ref) {
+        const resolved = await resolveRefAndPath(location, headers);
+        if (!resolved) {
+            throw new NotFoundError(`Branch, tag or commit "${location.ref}" was not found in ${owner}/${repo}.`);
+        }
+        return { ref: resolved.ref, commitSha: resolved.sha, scopePath: resolved.path };
+    }
+    
+    return { ref: defaultBranch, commitSha: await providerFor(location).resolveCommitSha(location, defaultBranch, headers), scopePath: null };
 }
 
-function truncateText(text: string, maxLength: number): string {
-    if (text.length <= maxLength) return text;
-    return text.substring(0, maxLength) + '...';
+async function fetchRepoContents(location: RepoLocation, treeish: string, scopePath: string | null, headers: Record<string, string>, onPhase?: PhaseListener) {
+    const provider = providerFor(location);
+    const scopedReadme = scopePath ? `${scopePath}/README.md` : null;
+    
+    const [[readme, scopeReadme, contributing, languages], tree] = await Promise.all([
+        trackPhase('docs', Promise.all([
+            provider.fetchFileContent(location, 'README.md', headers, treeish),
+            scopedReadme ? provider.fetchFileContent(location, scopedReadme, headers, treeish) : Promise.resolve(null),
+            provider.fetchFileContent(location, 'CONTRIBUTING.md', headers, treeish),
+            provider.fetchLanguages(location, headers)
+        ]), ([readme, scopeReadme, contributing]) => 
+            [(readme || scopeReadme) && 'README', contributing && 'CONTRIBUTING'].filter(Boolean).join(', ') || 'No docs found', onPhase),
+        trackPhase('tree', provider.fetchFileTree(location, treeish, headers), result => `${result.nodes.length} entries`, onPhase)
+    ]);
+    
+    const fileTree = scopePath
+        ? tree.nodes.filter(node => node.path.startsWith(`${scopePath}/`))
+        : tree.nodes;
+    const docs = scopeReadme || readme;
+    
+    const manifests = await trackPhase('manifests', loadManifests(location, fileTree, headers), result => result.length > 0
+        ? `${result.length} manifests, ${result.reduce((sum, m) => sum + m.dependencies.length, 0)} dependencies`
+        : 'No manifests found', onPhase);
+    const setupGuide = await trackPhase('setup', loadSetupGuide(location, fileTree, manifests, scopePath, headers), result => result.steps.length > 0
+        ? `${result.steps.length} steps from ${new Set(result.steps.reduce((all: string[], s) => all.concat(s.sources), [])).size} files`
+        : 'No setup steps found', onPhase);
+    
+    return {
+        readme: docs ? truncateText(docs, 8000) : null,
+        contributing: contributing ? truncateText(contributing, 3000) : null,
+        fileTree,
+        treeSha: tree.sha,
+        manifests,
+        setupGuide,
+        languages
+    };
 }
 
-async function indexRepository(url: string, headers: Record<string, string>): Promise<RepoIndex | null> {
-    const { owner, repo } = parseGitHubUrl(url);
-    console.log(`Indexing repository: ${owner}/${repo}`);
-    
-    const [metadata, readme, contributing, fileTree, issues, pullRequests, languages] = await Promise.all([
-        fetchRepoMetadata(owner, repo, headers),
-        fetchFileContent(owner, repo, 'README.md', headers),
-        fetchFileContent(owner, repo, 'CONTRIBUTING.md', headers),
-        fetchFileTree(owner, repo, headers),
-        fetchIssues(owner, repo, headers),
-        fetchPullRequests(owner, repo, headers),
-        fetchLanguages(owner, repo, headers)
-    ]);
+async function indexRepository(location: RepoLocation, headers: Record<string, string>, onPhase?: PhaseListener): Promise<RepoIndex> {
+    const provider = providerFor(location);
+    console.log(`Indexing repository: ${location.owner}/${location.repo} (${location.baseUrl})`);
     
-    if (!metadata) {
-        console.log('Failed to fetch repository metadata');
-        return null;
-    }
+    const { metadata, ref, commitSha, scopePath } = await trackPhase('metadata', (async () => {
+        const metadata = await provider.fetchRepoMetadata(location, headers);
+        const target = await resolveIndexTarget(location, metadata.defaultBranch, headers);
+        return { metadata, ...target };
+    })(), result => `${result.metadata.fullName} @ ${result.ref}`, onPhase);
+    
+    const [contents, issues, pullRequests] = await Promise.all([
+        fetchRepoContents(location, commitSha || ref, scopePath, headers, onPhase),
+        trackPhase('issues', provider.fetchIssues(location, headers, 30), result => `${result.length} open issues`, onPhase),
+        trackPhase('prs', provider.fetchPullRequests(location, headers, 15), result => `${result.length} open pull requests`, onPhase)
+    ]);
     
     const index: RepoIndex = {
         name: metadata.name,
-        fullName: metadata.full_name,
+        fullName: metadata.fullName,
         description: metadata.description,
-        htmlUrl: metadata.html_url,
-        defaultBranch: metadata.default_branch,
+        htmlUrl: metadata.htmlUrl,
+        defaultBranch: metadata.defaultBranch,
+        ref,
+        commitSha,
+        scopePath,
         language: metadata.language,
-        topics: metadata.topics || [],
-        stars: metadata.stargazers_count,
+        topics: metadata.topics,
+        stars: metadata.stars,
         forks: metadata.forks,
-        openIssuesCount: metadata.open_issues_count,
-        readme: readme ? truncateText(readme, 8000) : null,
-        contributing: contributing ? truncateText(contributing, 3000) : null,
-        fileTree,
-        issues,
+        openIssuesCount: metadata.openIssuesCount,
+        private: metadata.private,
+        cacheScope: null,
+        readme: contents.readme,
+        contributing: contents.contributing,
+        fileTree: contents.fileTree,
+        treeSha: contents.treeSha,
+        manifests: contents.manifests,
+        setupGuide: contents.setupGuide,
+        issues: mapIssuesToFiles(issues, contents.fileTree),
         pullRequests,
+        outlines: [],
         indexedAt: new Date().toISOString(),
-        languages
+        languages: contents.languages
     };
     
-    console.log(`Indexed: ${fileTree.length} files, ${issues.length} issues, ${pullRequests.length} PRs`);
+    console.log(`Indexed: ${index.fileTree.length} files, ${issues.length} issues, ${pullRequests.length} PRs`);
     return index;
 }
 
-async function fetchFilesContent(owner: string, repo: string, paths: string[], headers: Record<string, string>): Promise<Record<string, string>> {
+async function refreshRepository(location: RepoLocation, existing: RepoIndex, headers: Record<string, string>): Promise<RepoIndex> {
+    const provider = providerFor(location);
+    const since = existing.indexedAt;
+    console.log(`Refreshing repository: ${location.owner}/${location.repo} (changes since ${since})`);
+    
+    const metadata = await provider.fetchRepoMetadata(location, headers);
+    const pinned = !!location.ref && /^[0-9a-f]{40}$/i.test(location.ref);
+    
+    const [target, updatedIssues, updatedPRs] = await Promise.all([
+        pinned
+            ? Promise.resolve({ ref: existing.ref, commitSha: existing.commitSha, scopePath: existing.scopePath })
+            : resolveIndexTarget(location, metadata.defaultBranch, headers),
+        provider.fetchIssues(location, headers, 100, since),
+        provider.fetchPullRequests(location, headers, 50, since)
+    ]);
+    
+    let contents = {
+        readme: existing.readme,
+        contributing: existing.contributing,
+        fileTree: existing.fileTree,
+        treeSha: existing.treeSha,
+        manifests: existing.manifests,
+        setupGuide: existing.setupGuide,
+        languages: existing.languages
+    };
+    
+    if (target.commitSha !== existing.commitSha || !existing.commitSha) {
+        const fresh = await fetchRepoContents(location, target.commitSha || target.ref, target.scopePath, headers);
+        // A new commit does not always mean a new tree (merges, reverts); keep the docs we already have then
+        contents = fresh.treeSha && fresh.treeSha === existing.treeSha
+            ? { ...contents, languages: fresh.languages }
+            : fresh;
+        console.log(`Head moved to ${target.commitSha}, tree ${fresh.treeSha === existing.treeSha ? 'unchanged' : 'rebuilt'}`);
+    }
+    
+    const issues = mapIssuesToFiles(mergeUpdated(existing.issues, updatedIssues, 30), contents.fileTree);
+    const pullRequests = mergeUpdated(existing.pullRequests, updatedPRs, 15);
+    
+    console.log(`Refreshed: ${updatedIssues.length} issues and ${updatedPRs.length} PRs changed`);
+    
+    return {
+        ...existing,
+        description: metadata.description,
+        language: metadata.language,
+        topics: metadata.topics,
+        stars: metadata.stars,
+        forks: metadata.forks,
+        openIssuesCount: metadata.openIssuesCount,
+        private: metadata.private,
+        ref: target.ref,
+        commitSha: target.commitSha,
+        scopePath: target.scopePath,
+        ...contents,
+        issues,
+        pullRequests,
+        treeStale: false,
+        indexedAt: new Date().toISOString()
+    };
+}
+
+async function fetchFilesContent(location: RepoLocation, ref: string, paths: string[], headers: Record<string, string>, onFetch?: (path: string) => void): Promise<Record<string, string>> {
     const results: Record<string, string> = {};
     
     const promises = paths.slice(0, 5).map(async (path) => {
-        const content = await fetchFileContent(owner, repo, path, headers);
+        onFetch?.(path);
+        const content = await providerFor(location).fetchFileContent(location, path, headers, ref);
         if (content) {
-            results[path] = truncateText(content, 6000);
+            results[path] = truncateText(content, MAX_FILE_CHARS);
         }
     });
     
@@ -221,16 +247,63 @@ async function fetchFilesContent(owner: string, repo: string, paths: string[], h
     return results;
 }
 
-function buildContext(index: RepoIndex, additionalFiles?: Record<string, string>): string {
-    const sections: string[] = [];
+function buildContext(index: RepoIndex, additionalFiles: Record<string, string> = {}, snippets: CodeSnippet[] = [], toolResults: ToolObservation[] = [], options: ContextOptions = {}): BuiltContext {
+    const intent = options.intent || 'overview';
+    const limit = options.maxTokens || DEFAULT_CONTEXT_TOKENS;
     
-    sections.push(`## Repository: ${index.fullName}`);
-    sections.push(`**Description:** ${index.description || 'No description'}`);
-    sections.push(`**Primary Language:** ${index.language || 'Unknown'}`);
-    sections.push(`**Stars:** ${index.stars} | **Forks:** ${index.forks} | **Open Issues:** ${index.openIssuesCount}`);
+    const header = describeRepository(index);
+    const hasCode = Object.keys(additionalFiles).length > 0 || snippets.length > 0 || toolResults.length > 0;
+    const note = hasCode ? null : '\n## Note: No file contents loaded\nTo see actual code, the user should ask about specific files. Do NOT make up code.';
+    
+    const sections: ContextSection[] = [
+        structureSection(index),
+        outlinesSection(index.outlines, additionalFiles, options.question || ''),
+        connectionsSection(index, additionalFiles),
+        dependenciesSection(index.manifests),
+        setupSection(index),
+        documentSection('readme', '\n## README (excerpt)', index.readme),
+        documentSection('contributing', '\n## Contributing Guidelines (excerpt)', index.contributing),
+        issuesSection(index),
+        pullRequestsSection(index),
+        filesSection(additionalFiles),
+        snippetsSection(snippets),
+        toolResultsSection(toolResults)
+    ];
+    const fixed = estimateTokens(header) + (note ? estimateTokens(note) : 0);
+    const allocation = allocateBudget(sections, intent, Math.max(0, limit - fixed));
+    
+    const parts = [header];
+    const usage: ContextSectionUsage[] = [];
+    for (const section of sections) {
+        if (section.units.length === 0) continue;
+        const fitted = fitSection(section, allocation.get(section.name) || 0);
+        usage.push(fitted.usage);
+        if (fitted.text) {
+            parts.push(fitted.text);
+        }
+    }
+    if (note) {
+        parts.push(note);
+    }
+    
+    const text = parts.join('\n');
+    return { text, budget: { intent, limit, used: estimateTokens(text), sections: usage } };
+}
+
+function describeRepository(index: RepoIndex): string {
+    const lines: string[] = [];
+    
+    lines.push(`## Repository: ${index.fullName}`);
+    lines.push(`**Description:** ${index.description || 'No description'}`);
+    if (index.ref !== index.defaultBranch || index.scopePath) {
+        const commit = index.commitSha ? ` (${index.commitSha.substring(0, 7)})` : '';
+        lines.push(`**Ref:** ${index.ref}${commit}${index.scopePath ? ` | **Scoped to:** \`${index.scopePath}/\`` : ''}`);
+    }
+    lines.push(`**Primary Language:** ${index.language || 'Unknown'}`);
+    lines.push(`**Stars:** ${index.stars} | **Forks:** ${index.forks} | **Open Issues:** ${index.openIssuesCount}`);
     
     if (index.topics.length > 0) {
-        sections.push(`**Topics:** ${index.topics.join(', ')}`);
+        lines.push(`**Topics:** ${index.topics.join(', ')}`);
     }
     
     const totalBytes = Object.values(index.languages).reduce((a, b) => a + b, 0);
@@ -240,99 +313,155 @@ function buildContext(index: RepoIndex, additionalFiles?: Record<string, string>
             .slice(0, 5)
             .map(([lang, bytes]) => `${lang} (${Math.round(bytes / totalBytes * 100)}%)`)
             .join(', ');
-        sections.push(`**Languages:** ${langBreakdown}`);
+        lines.push(`**Languages:** ${langBreakdown}`);
     }
     
-    sections.push('\n## File Structure');
-    const importantFiles = index.fileTree
-        .filter(f => f.type === 'file')
-        .filter(f => isImportantFile(f.path))
-        .slice(0, 30)
-        .map(f => f.path);
-    
-    if (importantFiles.length > 0) {
-        sections.push('Key files:\n' + importantFiles.map(f => `- ${f}`).join('\n'));
-    }
+    return lines.join('\n');
+}
+
+function structureSection(index: RepoIndex): ContextSection {
+    const units: ContextUnit[] = index.fileTree
+        .filter(f => f.type === 'file' && isImportantFile(f.path))
+        .map(f => ({ text: `- ${f.path}`, group: 'Key files:' }));
     
     const dirs = Array.from(new Set(index.fileTree.filter(f => f.type === 'dir').map(f => f.path.split('/')[0])));
     if (dirs.length > 0) {
-        sections.push('\nTop-level directories: ' + dirs.slice(0, 15).join(', '));
-    }
-    
-    if (index.readme) {
-        sections.push('\n## README (excerpt)');
-        sections.push(truncateText(index.readme, 2000));
-    }
-    
-    if (index.contributing) {
-        sections.push('\n## Contributing Guidelines (excerpt)');
-        sections.push(truncateText(index.contributing, 1000));
+        units.push({ text: '\nTop-level directories: ' + dirs.join(', ') });
     }
     
-    if (index.issues.length > 0) {
-        sections.push('\n## Open Issues');
-        sections.push('(IMPORTANT: When mentioning ANY issue, use the markdown link format shown below with the exact URL)');
-        
-        const goodFirstIssues = index.issues.filter(i => 
-            i.labels.some(l => l.toLowerCase().includes('good first') || l.toLowerCase().includes('beginner'))
-        );
-        
-        if (goodFirstIssues.length > 0) {
-            sections.push('\n### Good First Issues');
-            for (const issue of goodFirstIssues.slice(0, 5)) {
-                sections.push(formatIssue(issue));
-            }
-        }
-        
-        const helpWanted = index.issues.filter(i => 
-            i.labels.some(l => l.toLowerCase().includes('help wanted'))
-        );
-        
-        if (helpWanted.length > 0) {
-            sections.push('\n### Help Wanted');
-            for (const issue of helpWanted.slice(0, 5)) {
-                sections.push(formatIssue(issue));
-            }
-        }
-        
-        sections.push('\n### Recent Issues');
-        for (const issue of index.issues.slice(0, 10)) {
-            sections.push(formatIssue(issue));
-        }
-    }
-    
-    if (index.pullRequests.length > 0) {
-        sections.push('\n## Open Pull Requests');
-        sections.push('(Use these exact URLs when linking to PRs)');
-        for (const pr of index.pullRequests.slice(0, 5)) {
-            sections.push(`- [#${pr.number}](${pr.url}) ${pr.title} by @${pr.author}${pr.draft ? ' (draft)' : ''}`);
-        }
-    }
-    
-    if (additionalFiles && Object.keys(additionalFiles).length > 0) {
-        sections.push('\n## File Contents (ACTUAL CODE - you may quote this)');
-        for (const [path, content] of Object.entries(additionalFiles)) {
-            const ext = path.split('.').pop() || '';
-            sections.push(`\n### ${path}`);
-            sections.push('```' + ext);
-            sections.push(content);
-            sections.push('```');
-        }
-    } else {
-        sections.push('\n## Note: No file contents loaded');
-        sections.push('To see actual code, the user should ask about specific files. Do NOT make up code.');
-    }
+    return { name: 'structure', heading: '\n## File Structure', units };
+}
+
+// Files whose code is already in the context are left out; a long outline keeps its first symbols
+function outlinesSection(outlines: FileOutline[], files: Record<string, string>, question: string): ContextSection {
+    const units = rankOutlines(outlines.filter(o => !(o.path in files)), question).map(outline => {
+        const symbols = outline.symbols.map(formatSymbol);
+        return {
+            text: `\n### ${outline.path}\n${symbols.join('\n')}`,
+            shrink: (maxTokens: number) => takePieces(symbols, maxTokens, (kept, omitted) =>
+                `\n### ${outline.path}\n${kept.join('\n')}\n... (${omitted.length} more symbols)`)
+        };
+    });
+    return {
+        name: 'outlines',
+        heading: '\n## Symbol Outlines (top-level definitions and their line ranges in files whose code is not shown - signatures only, not code to quote)',
+        units
+    };
+}
+
+// How the loaded files connect to each other and to the rest of the indexed code
+function connectionsSection(index: RepoIndex, files: Record<string, string>): ContextSection {
+    const paths = Object.keys(files);
+    const graph = paths.length > 0 ? buildImportGraph(index) : null;
+    const units = graph
+        ? paths.map(path => describeConnections(graph, path)).filter((text): text is string => text !== null).map(text => ({ text }))
+        : [];
+    return { name: 'connections', heading: '\n## Module Connections (direct imports between the files shown and the indexed code)', units };
+}
+
+function dependenciesSection(manifests: DependencyManifest[]): ContextSection {
+    const units = manifests.map(manifest => {
+        const title = `\n### ${manifest.path} (${manifest.ecosystem}${manifest.name ? `: ${manifest.name}` : ''})`;
+        const lines = formatManifest(manifest);
+        return {
+            text: [title, ...lines].join('\n'),
+            shrink: (maxTokens: number) => takePieces(lines, maxTokens, kept => [title, ...kept].join('\n'))
+        };
+    });
+    return { name: 'dependencies', heading: '\n## Dependencies, Scripts and Toolchain Versions (from the manifest files)', units };
+}
+
+function setupSection(index: RepoIndex): ContextSection {
+    const units = index.setupGuide.steps.map((step, i) => ({ text: `\n${formatSetupStep(step, i + 1)}` }));
+    return { name: 'setup', heading: '\n## Setup Guide (ordered steps derived from the manifests, Makefile, Dockerfile, .env example and CI configuration)', units };
+}
+
+// Documents are trimmed by their own headings, and a section that is too long on its own by paragraphs
+function documentSection(name: 'readme' | 'contributing', heading: string, text: string | null): ContextSection {
+    const units = text
+        ? splitMarkdownSections(text).map(section => ({
+            text: section,
+            shrink: (maxTokens: number) => takePieces(splitParagraphs(section), maxTokens, kept => kept.join('\n\n'))
+        }))
+        : [];
+    return { name, heading, units };
+}
+
+function issuesSection(index: RepoIndex): ContextSection {
+    const goodFirstIssues = index.issues.filter(i => 
+        i.labels.some(l => l.toLowerCase().includes('good first') || l.toLowerCase().includes('beginner'))
+    );
+    const helpWanted = index.issues.filter(i => 
+        !goodFirstIssues.includes(i) && i.labels.some(l => l.toLowerCase().includes('help wanted'))
+    );
+    const recent = index.issues.filter(i => !goodFirstIssues.includes(i) && !helpWanted.includes(i));
     
-    return sections.join('\n');
+    return {
+        name: 'issues',
+        heading: '\n## Open Issues\n(IMPORTANT: When mentioning ANY issue, use the markdown link format shown below with the exact URL)',
+        units: [
+            ...goodFirstIssues.map(issue => ({ text: formatIssue(issue), group: '\n### Good First Issues' })),
+            ...helpWanted.map(issue => ({ text: formatIssue(issue), group: '\n### Help Wanted' })),
+            ...recent.map(issue => ({ text: formatIssue(issue), group: '\n### Recent Issues' }))
+        ]
+    };
+}
+
+function pullRequestsSection(index: RepoIndex): ContextSection {
+    return {
+        name: 'pullRequests',
+        heading: '\n## Open Pull Requests\n(Use these exact URLs when linking to PRs)',
+        units: index.pullRequests.map(pr => ({ text: `- [#${pr.number}](${pr.url}) ${pr.title} by @${pr.author}${pr.draft ? ' (draft)' : ''}` }))
+    };
+}
+
+// A file that does not fit keeps its leading top-level declarations whole, or failing that its leading lines
+function filesSection(files: Record<string, string>): ContextSection {
+    const units = Object.entries(files).map(([path, content]) => {
+        const render = (body: string) => `\n### ${path}\n\`\`\`${path.split('.').pop() || ''}\n${body}\n\`\`\``;
+        const withOmission = (kept: string[], omitted: string[]) => render(`${kept.join('\n')}\n... (${countLines(omitted)} more lines not shown)`);
+        return {
+            text: render(content),
+            shrink: (maxTokens: number) => takePieces(splitCodeBlocks(content), maxTokens, withOmission)
+                ?? takePieces(content.split('\n'), maxTokens, withOmission)
+        };
+    });
+    return { name: 'files', heading: '\n## File Contents (ACTUAL CODE - you may quote this)', units };
+}
+
+function snippetsSection(snippets: CodeSnippet[]): ContextSection {
+    return {
+        name: 'snippets',
+        heading: '\n## Related Code Snippets (ACTUAL CODE, retrieved by semantic search - you may quote this)',
+        units: snippets.map(snippet => ({
+            text: `\n### ${snippet.path} (lines ${snippet.startLine}-${snippet.endLine})\n\`\`\`${snippet.path.split('.').pop() || ''}\n${snippet.content}\n\`\`\``
+        }))
+    };
+}
+
+function toolResultsSection(results: ToolObservation[]): ContextSection {
+    return {
+        name: 'tools',
+        heading: '\n## Tool Results (gathered while investigating the question)',
+        units: results.map(result => ({
+            text: `\n### ${result.title}\n${result.content}`,
+            shrink: (maxTokens: number) => takePieces(result.content.split('\n'), maxTokens, (kept, omitted) =>
+                `\n### ${result.title}\n${kept.join('\n')}\n... (${omitted.length} more lines not shown)`)
+        }))
+    };
 }
 
 function formatIssue(issue: IssueInfo): string {
     const labels = issue.labels.length > 0 ? ` [${issue.labels.join(', ')}]` : '';
     const comments = issue.commentsCount > 0 ? ` (${issue.commentsCount} comments)` : '';
-    let result = `- [#${issue.number}](${issue.url}) ${issue.title}${labels}${comments}`;
+    const assigned = issue.assignees && issue.assignees.length > 0 ? ` (assigned to ${issue.assignees.map(a => `@${a}`).join(', ')})` : '';
+    let result = `- [#${issue.number}](${issue.url}) ${issue.title}${labels}${comments}${assigned}`;
     if (issue.body) {
         result += `\n  > ${truncateText(issue.body, 150).replace(/\n/g, ' ')}`;
     }
+    if (issue.likelyFiles && issue.likelyFiles.length > 0) {
+        result += `\n  Likely files: ${issue.likelyFiles.map(f => `\`${f}\``).join(', ')}`;
+    }
     return result;
 }
 
@@ -364,10 +493,12 @@ function parseQueryAnalysis(response: string): { needsFiles: boolean; files: str
 }
 
 export {
-    parseGitHubUrl,
+    repoCacheKey,
+    assertViewerCanRead,
     indexRepository,
+    refreshRepository,
     fetchFilesContent,
+    mergeUpdated,
     buildContext,
-    parseQueryAnalysis,
-    truncateText
+    parseQueryAnalysis
 };
@@ -1,10 +1,69 @@
 import { Ai } from "@cloudflare/workers-types/experimental";
-import { KVNamespace } from "@cloudflare/workers-types/experimental";
+import { KVNamespace, Queue, VectorizeIndex } from "@cloudflare/workers-types/experimental";
 
 interface Env {
     AI: Ai;
     CACHE_KV: KVNamespace;
-    GITHUB_PAT: string;
+    GITHUB_PAT?: string;
+    GITHUB_CLIENT_ID?: string;
+    GITHUB_CLIENT_SECRET?: string;
+    SESSION_SECRET?: string;
+    GITHUB_WEBHOOK_SECRET?: string;
+    GITLAB_BASE_URL?: string;
+    GITLAB_TOKEN?: string;
+    GITEA_BASE_URL?: string;
+    GITEA_TOKEN?: string;
+    INDEX_QUEUE?: Queue<IndexJobMessage>;
+    VECTORIZE?: VectorizeIndex;
+}
+
+type ProviderKind = 'github' | 'gitlab' | 'gitea';
+
+// `baseUrl` is the web origin of the host, e.g. https://github.com or a self-hosted instance.
+// GitLab owners can be nested groups (`group/subgroup`).
+interface RepoLocation {
+    provider: ProviderKind;
+    baseUrl: string;
+    owner: string;
+    repo: string;
+    ref: string | null;
+    path: string | null;
+}
+
+interface RepoMetadata {
+    name: string;
+    fullName: string;
+    description: string | null;
+    htmlUrl: string;
+    defaultBranch: string;
+    language: string | null;
+    topics: string[];
+    stars: number;
+    forks: number;
+    openIssuesCount: number;
+    private: boolean;
+}
+
+// Everything indexing and chat need from a git host. Implementations map their API responses
+// onto the shared shapes so the rest of the worker never sees provider-specific data.
+interface GitProvider {
+    kind: ProviderKind;
+    // Splits the part of a URL after the host (`owner/repo/tree/main/src`) into a location
+    parsePath(path: string): Pick<RepoLocation, 'owner' | 'repo' | 'ref' | 'path'> | null;
+    fetchRepoMetadata(location: RepoLocation, headers: Record<string, string>): Promise<RepoMetadata>;
+    resolveCommitSha(location: RepoLocation, ref: string, headers: Record<string, string>): Promise<string | null>;
+    fetchFileTree(location: RepoLocation, treeish: string, headers: Record<string, string>): Promise<{ sha: string | null; nodes: FileNode[] }>;
+    fetchFileContent(location: RepoLocation, path: string, headers: Record<string, string>, ref?: string): Promise<string | null>;
+    fetchBlobContent(location: RepoLocation, sha: string, headers: Record<string, string>): Promise<string | null>;
+    fetchLanguages(location: RepoLocation, headers: Record<string, string>): Promise<Record<string, number>>;
+    // With `since`, closed items are included too so callers can drop them from an existing index
+    fetchIssues(location: RepoLocation, headers: Record<string, string>, limit: number, since?: string): Promise<IssueInfo[]>;
+    fetchPullRequests(location: RepoLocation, headers: Record<string, string>, limit: number, since?: string): Promise<PRInfo[]>;
+    fetchIssueDetails(location: RepoLocation, number: number, headers: Record<string, string>): Promise<IssueDetails | null>;
+    fetchPullRequestDiff(location: RepoLocation, number: number, headers: Record<string, string>): Promise<string | null>;
+    fetchPullRequestDetails(location: RepoLocation, number: number, headers: Record<string, string>): Promise<PullRequestDetails | null>;
+    // Paths of files on the default branch that match `query`, for hosts with a code search API
+    searchCode?(location: RepoLocation, query: string, headers: Record<string, string>, limit: number): Promise<string[]>;
 }
 
 interface RepoIndex {
@@ -13,24 +72,143 @@ interface RepoIndex {
     description: string | null;
     htmlUrl: string;
     defaultBranch: string;
+    ref: string;
+    commitSha: string | null;
+    scopePath: string | null;
     language: string | null;
     topics: string[];
     stars: number;
     forks: number;
     openIssuesCount: number;
+    private: boolean;
+    // Set for private repositories so each user's index lives under its own cache keys
+    cacheScope: string | null;
     readme: string | null;
     contributing: string | null;
     fileTree: FileNode[];
+    treeSha: string | null;
+    // Set by push webhooks so the next request refreshes the tree without waiting for CACHE_TTL
+    treeStale?: boolean;
     issues: IssueInfo[];
     pullRequests: PRInfo[];
+    manifests: DependencyManifest[];
+    setupGuide: SetupGuide;
+    // Filled in after the tree is indexed, so it is empty until the outlines phase has run
+    outlines: FileOutline[];
     indexedAt: string;
     languages: Record<string, number>;
+    // Set when the index is loaded from storage; counts every stored part, including the ones that were not loaded
+    summary?: IndexSummary;
+}
+
+// The parts of a RepoIndex that are stored and loaded separately; the remaining fields are metadata
+// that is always loaded
+type IndexPart = 'tree' | 'docs' | 'issues' | 'pullRequests' | 'manifests' | 'setup' | 'outlines';
+
+interface IndexSummary {
+    files: number;
+    issues: number;
+    goodFirstIssues: number;
+    helpWantedIssues: number;
+    pullRequests: number;
+    hasReadme: boolean;
+    hasContributing: boolean;
+}
+
+type DependencyEcosystem = 'npm' | 'cargo' | 'go' | 'python';
+
+type DependencyScope = 'runtime' | 'dev' | 'peer' | 'optional' | 'build' | 'indirect';
+
+interface Dependency {
+    name: string;
+    // The constraint as written in the manifest (`^5.2.0`, `>=2.31`, `v1.9.0`), or null when none is given
+    version: string | null;
+    scope: DependencyScope;
+}
+
+interface DependencyManifest {
+    path: string;
+    ecosystem: DependencyEcosystem;
+    name: string | null;
+    dependencies: Dependency[];
+    scripts: Record<string, string>;
+    // Required toolchain versions, e.g. { node: ">=18" }, { python: ">=3.10" } or { go: "1.22" }
+    engines: Record<string, string>;
+    // Member globs of a workspace declared in this manifest
+    workspaces: string[];
+}
+
+type SetupStepKind = 'toolchain' | 'environment' | 'install' | 'build' | 'test' | 'run' | 'docker' | 'ci';
+
+interface SetupStep {
+    kind: SetupStepKind;
+    title: string;
+    // Shell commands in the order they are run, from the repository root
+    commands: string[];
+    // What is not a command: required versions, variables to fill in, ports
+    notes: string[];
+    // Files the step was derived from
+    sources: string[];
+}
+
+// Ordered steps for setting up, testing and running a repository, derived from its manifests, Makefile,
+// Dockerfile, `.env` example, version files and CI configuration
+interface SetupGuide {
+    steps: SetupStep[];
+}
+
+type SymbolKind = 'function' | 'method' | 'class' | 'interface' | 'type' | 'enum' | 'struct' | 'trait' | 'impl' | 'module' | 'macro' | 'variable';
+
+interface OutlineSymbol {
+    name: string;
+    kind: SymbolKind;
+    // The declaration without its body, e.g. "export function tokenize(body: string): string[]"
+    signature: string;
+    startLine: number;
+    endLine: number;
+}
+
+// Top-level symbols and imports of one source file, keyed by blob SHA so unchanged files are not read again
+interface FileOutline {
+    path: string;
+    sha: string;
+    symbols: OutlineSymbol[];
+    // Module specifiers as written (`./render`, `..models`, `crate::parser`); resolved against the tree when used
+    imports: string[];
+}
+
+// Direct import edges between indexed files, in both directions
+interface ImportGraph {
+    imports: Map<string, string[]>;
+    importers: Map<string, string[]>;
+}
+
+interface Viewer {
+    userId: string | null;
+    login: string | null;
+    token: string | null;
+}
+
+const ANONYMOUS_VIEWER: Viewer = { userId: null, login: null, token: null };
+
+interface ThinkingStep {
+    step: string;
+    detail: string;
+    status: 'done' | 'working';
+}
+
+type StepListener = (step: ThinkingStep) => void;
+
+interface ToolObservation {
+    title: string;
+    content: string;
 }
 
 interface FileNode {
     path: string;
     type: 'file' | 'dir';
     size?: number;
+    sha?: string;
 }
 
 interface IssueInfo {
@@ -39,10 +217,52 @@ interface IssueInfo {
     body: string | null;
     state: string;
     labels: string[];
+    assignees?: string[];
     author: string;
     createdAt: string;
     commentsCount: number;
     url: string;
+    signals?: IssueSignals;
+    likelyFiles?: string[];
+}
+
+interface IssueSignals {
+    paths: string[];
+    symbols: string[];
+    errors: string[];
+}
+
+interface IssueComment {
+    author: string;
+    body: string;
+    createdAt: string;
+    url: string;
+}
+
+interface IssueTimelineEvent {
+    event: string;
+    actor: string | null;
+    createdAt: string;
+    detail: string;
+}
+
+interface LinkedPullRequest {
+    number: number;
+    title: string;
+    state: string;
+    merged: boolean;
+    url: string;
+    repository: string;
+}
+
+interface IssueDetails {
+    issue: IssueInfo;
+    isPullRequest: boolean;
+    assignees: string[];
+    closedAt: string | null;
+    comments: IssueComment[];
+    timeline: IssueTimelineEvent[];
+    linkedPullRequests: LinkedPullRequest[];
 }
 
 interface PRInfo {
@@ -56,18 +276,326 @@ interface PRInfo {
     draft: boolean;
 }
 
-function createHeaders(env: Env) {
-    if (!env.GITHUB_PAT) {
-        throw new Error('GITHUB_PAT environment variable is not set. Please set it in .dev.vars for local development or as a secret in Cloudflare.');
-    }
-    return {
-        'User-Agent': 'GitHubContributionAssistant',
-        'X-Github-Api-Version': '2022-11-28',
-        'Authorization': `Bearer ${env.GITHUB_PAT}`
+interface PullRequestFile {
+    path: string;
+    status: string;
+    additions: number;
+    deletions: number;
+    previousPath: string | null;
+}
+
+interface PullRequestReviewComment {
+    author: string;
+    path: string;
+    line: number | null;
+    body: string;
+    createdAt: string;
+}
+
+interface PullRequestCheck {
+    name: string;
+    status: string;
+    conclusion: string | null;
+    url: string | null;
+}
+
+interface PullRequestDetails {
+    pullRequest: PRInfo;
+    headSha: string;
+    headRef: string;
+    baseRef: string;
+    additions: number;
+    deletions: number;
+    mergeableState: string | null;
+    files: PullRequestFile[];
+    reviewComments: PullRequestReviewComment[];
+    checks: PullRequestCheck[];
+}
+
+interface RiskyHunk {
+    path: string;
+    line: number | null;
+    reason: string;
+    url: string;
+}
+
+interface PullRequestReview {
+    number: number;
+    title: string;
+    url: string;
+    summary: string;
+    riskyHunks: RiskyHunk[];
+    missingTests: string[];
+    contributing: {
+        follows: boolean | null;
+        notes: string;
+    };
+    checks: {
+        passed: number;
+        failed: string[];
+        pending: number;
     };
+    reviewedAt: string;
+}
+
+interface CodeSnippet {
+    path: string;
+    startLine: number;
+    endLine: number;
+    content: string;
+    score: number;
+}
+
+type CodeSearchMode = 'literal' | 'regex' | 'identifier';
+
+// `github` only narrows which files are read; matching and line numbers always come from the blobs
+type CodeSearchBackend = 'local' | 'github';
+
+interface CodeSearchOptions {
+    query: string;
+    mode?: CodeSearchMode;
+    backend?: CodeSearchBackend;
+    // Only files under this directory are searched
+    path?: string;
+    // Defaults to true for identifiers and false otherwise
+    caseSensitive?: boolean;
+    contextLines?: number;
+    // Files whose blobs are not cached yet are skipped once this many have been fetched (40 by default)
+    maxFetches?: number;
+}
+
+interface CodeSearchHit {
+    path: string;
+    startLine: number;
+    endLine: number;
+    matchLines: number[];
+    content: string;
+}
+
+interface CodeSearchResult {
+    query: string;
+    mode: CodeSearchMode;
+    backend: CodeSearchBackend;
+    hits: CodeSearchHit[];
+    filesSearched: number;
+    filesSkipped: number;
+    blobsFetched: number;
+    truncated: boolean;
+    // Files were left out because their contents could not all be fetched (or, for a regex, scanned) in one request
+    partial: boolean;
+}
+
+type ModelRole = 'planning' | 'answering';
+
+interface ModelConfig {
+    id: string;
+    label: string;
+    contextWindow: number;
+    maxTokens: number;
+    roles: ModelRole[];
+}
+
+interface ModelAttempt {
+    model: string;
+    // null when the attempt succeeded
+    error: string | null;
+}
+
+interface ModelUsage {
+    role: ModelRole;
+    // The model that produced the response, or null when every model in the chain failed
+    model: string | null;
+    attempts: ModelAttempt[];
+}
+
+// The models picked for one request, and a record of every call made with them
+interface ModelSelection {
+    planning: ModelConfig;
+    answering: ModelConfig;
+    usage: ModelUsage[];
+}
+
+type QuestionIntent = 'code' | 'issues' | 'overview';
+
+interface ContextSectionUsage {
+    section: string;
+    budget: number;
+    used: number;
+    included: number;
+    trimmed: number;
+    dropped: number;
+}
+
+interface ContextBudgetReport {
+    intent: QuestionIntent;
+    limit: number;
+    used: number;
+    sections: ContextSectionUsage[];
+}
+
+interface BuiltContext {
+    text: string;
+    budget: ContextBudgetReport;
+}
+
+interface GroundingProblem {
+    kind: 'issue_link' | 'file_path' | 'code_block';
+    // The link, path or first line of the code block as the model wrote it
+    text: string;
+    action: 'rewritten' | 'removed' | 'flagged';
+    detail: string;
+}
+
+interface GroundingReport {
+    // Share of checked references that were grounded as generated, from 0 to 1
+    score: number;
+    checked: {
+        issueLinks: number;
+        filePaths: number;
+        codeBlocks: number;
+    };
+    problems: GroundingProblem[];
+    regenerated: boolean;
+}
+
+interface ConversationTurn {
+    question: string;
+    answer: string;
+    files: string[];
+    askedAt: string;
+}
+
+interface Conversation {
+    id: string;
+    repoUrl: string;
+    turns: ConversationTurn[];
+    fileContents: Record<string, string>;
+    userId: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+type IndexPhase = 'metadata' | 'tree' | 'docs' | 'manifests' | 'setup' | 'issues' | 'prs' | 'outlines' | 'embeddings';
+
+type PhaseStatus = 'pending' | 'running' | 'done' | 'failed';
+
+type PhaseListener = (phase: IndexPhase, status: PhaseStatus, detail?: string) => void;
+
+interface IndexJobPhase {
+    phase: IndexPhase;
+    status: PhaseStatus;
+    detail: string | null;
+}
+
+interface IndexJob {
+    id: string;
+    url: string;
+    status: 'queued' | 'running' | 'done' | 'failed';
+    phases: IndexJobPhase[];
+    error: { code?: string; message: string } | null;
+    userId: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+interface IndexJobMessage {
+    jobId: string;
+}
+
+// Signed-in users call GitHub with their own token; GITHUB_PAT is the fallback, and without either
+// requests go out unauthenticated (public repositories only, 60 requests an hour). Routes check with
+// assertViewerCanRead that the fallback is never used to read a private repository.
+// GitLab and Gitea use a server-wide token, sent only to the instance it was configured for.
+function createHeaders(env: Env, viewer: Viewer = ANONYMOUS_VIEWER, location?: RepoLocation): Record<string, string> {
+    const headers: Record<string, string> = {
+        'User-Agent': 'GitHubContributionAssistant'
+    };
+    
+    if (!location || location.provider === 'github') {
+        headers['X-Github-Api-Version'] = '2022-11-28';
+        const token = viewer.token || env.GITHUB_PAT;
+        if (token) {
+            headers['Authorization'] = `Bearer ${token}`;
+        }
+        return headers;
+    }
+    
+    if (location.provider === 'gitlab') {
+        if (env.GITLAB_TOKEN && normalizeBaseUrl(env.GITLAB_BASE_URL || 'https://gitlab.com') === location.baseUrl) {
+            headers['Authorization'] = `Bearer ${env.GITLAB_TOKEN}`;
+        }
+    } else if (env.GITEA_TOKEN && env.GITEA_BASE_URL && normalizeBaseUrl(env.GITEA_BASE_URL) === location.baseUrl) {
+        headers['Authorization'] = `token ${env.GITEA_TOKEN}`;
+    }
+    return headers;
+}
+
+function normalizeBaseUrl(url: string): string {
+    const trimmed = url.trim().replace(/\/+$/, '');
+    const withScheme = /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+    return withScheme.replace(/^(https?:\/\/[^/]+)/i, origin => origin.toLowerCase());
+}
+
+function truncateText(text: string, maxLength: number): string {
+    if (text.length <= maxLength) return text;
+    return text.substring(0, maxLength) + '...';
+}
+
+function decodeBase64(content: string): string | null {
+    try {
+        const binary = atob(content.replace(/\n/g, ''));
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) {
+            bytes[i] = binary.charCodeAt(i);
+        }
+        return new TextDecoder().decode(bytes);
+    } catch {
+        return null;
+    }
+}
+
+function isInSkippedDirectory(path: string): boolean {
+    const segments = path.split('/');
+    for (let i = 1; i < segments.length; i++) {
+        if (shouldSkipDirectory(segments.slice(0, i).join('/'))) {
+            return true;
+        }
+    }
+    return false;
+}
+
+function shouldSkipDirectory(path: string): boolean {
+    const skipDirs = [
+        'node_modules', '.git', 'dist', 'build', 'coverage', 
+        '.next', '.nuxt', 'vendor', '__pycache__', '.venv',
+        'target', 'out', '.idea', '.vscode', 'assets', 'public/assets'
+    ];
+    const dirName = path.split('/').pop() || '';
+    // `.github` is kept for its CI workflows, which the setup guide reads
+    return skipDirs.includes(dirName) || (dirName.startsWith('.') && dirName !== '.github');
+}
+
+// Rough estimate (about four characters per token for English and code), good enough for budgeting
+function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+function extractResponseText(response: unknown): string {
+    if (typeof response === 'string') {
+        return response;
+    }
+    if (response && typeof response === 'object') {
+        const resp = response as Record<string, unknown>;
+        if (typeof resp.response === 'string') {
+            return resp.response;
+        }
+    }
+    return '';
 }
 
 const CACHE_TTL = 1800;
+const INDEX_RETENTION_TTL = 7 * 86400;
+const CONVERSATION_TTL = 86400;
 
 const SYSTEM_PROMPT = `You are an expert GitHub Contribution Assistant. Your role is to help developers understand repositories and find meaningful ways to contribute.
 
@@ -85,6 +613,8 @@ Response Format:
 - Only show code snippets if actual file contents are provided in the "File Contents" section
 - If asked about code but no file contents are provided, explain what files would be relevant and suggest which ones to look at
 - Reference file paths using inline code: \`src/file.ts\`
+- When an issue lists "Likely files", mention them next to the issue as a starting point
+- Do not recommend issues that are already assigned to someone as open for new contributors
 - Keep paragraphs short (2-3 sentences max)
 
 What you CAN do:
@@ -99,6 +629,12 @@ What you CANNOT do:
 - Invent issue numbers or details not in the context
 - Hallucinate file contents or structure`;
 
+const GROUNDING_FEEDBACK_PROMPT = `Some references in your answer could not be verified against the repository context:
+
+{problems}
+
+Rewrite your answer. Link only issues and pull requests listed in the context, using their exact URLs. Mention only file paths that appear in the file structure or file contents. Quote code only if it appears verbatim in the file contents; otherwise describe it in words. Reply with the full corrected answer only.`;
+
 const QUERY_ANALYZER_PROMPT = `You are analyzing a user's question to determine which source files to fetch.
 
 Respond with JSON only:
@@ -119,16 +655,127 @@ Rules:
 - Prefer smaller, focused files over large ones
 - For "architecture" questions: get entry points + key config files
 - For "how does X work": get files likely to contain X
+- For follow-up questions ("that file", "the issue above"), resolve the reference using the conversation history
 - ALWAYS include at least one source code file for code questions`;
 
+const AGENT_PLANNER_PROMPT = `You are gathering evidence to answer a question about a GitHub repository. You cannot call tools yourself; instead, reply with the ONE next action to take and it will be executed for you.
+
+Respond with JSON only:
+{
+  "action": "read_file",
+  "args": { "path": "src/index.ts", "startLine": 1, "endLine": 120 },
+  "reasoning": "brief explanation"
+}
+
+Available actions:
+- "list_directory" args: { "path": "src" } - list files and folders in a directory ("" for the root)
+- "read_file" args: { "path": "...", "startLine": 1, "endLine": 200 } - read a line range of a file
+- "search_code" args: { "query": "...", "mode": "identifier" } - find lines matching a name, phrase or pattern, with file paths and line numbers, plus related files. "mode" is "identifier" (whole names, the default for a single word), "literal" (any text) or "regex"
+- "get_issue" args: { "number": 123 } - full issue body and recent comments
+- "get_pr_diff" args: { "number": 45 } - unified diff of a pull request
+- "answer" args: {} - stop, enough information has been gathered
+
+Rules:
+- Only read files that appear in the file list or in earlier results
+- Do not repeat an action that already ran
+- Choose "answer" as soon as the evidence is sufficient, or when the question needs no code (e.g. listing issues)`;
+
+const PR_REVIEW_PROMPT = `You are reviewing a pull request for the repository described below. Base every statement on the diff, metadata and guidelines provided; do not guess about code that is not shown.
+
+Respond with JSON only:
+{
+  "summary": "2-4 sentences on what the PR changes and why",
+  "riskyHunks": [
+    { "path": "src/file.ts", "line": 42, "reason": "why this change could break something" }
+  ],
+  "missingTests": ["behaviour or file that changed without a matching test"],
+  "contributing": { "follows": true, "notes": "how the PR does or does not follow the contributing guidelines" }
+}
+
+Rules:
+- "line" is the new-file line number shown at the start of each diff line (use null if the risk is about a removed line)
+- Only list hunks that look risky: logic changes, error handling, security, concurrency, public API or data format changes
+- Use at most 6 risky hunks, most important first
+- If no contributing guidelines are provided, set "follows" to null and say so in "notes"`;
+
 export { 
     Env, 
+    ProviderKind,
+    RepoLocation,
+    RepoMetadata,
+    GitProvider,
     RepoIndex, 
+    IndexPart,
+    IndexSummary,
+    DependencyEcosystem,
+    DependencyScope,
+    Dependency,
+    DependencyManifest,
+    SetupStepKind,
+    SetupStep,
+    SetupGuide,
+    SymbolKind,
+    OutlineSymbol,
+    FileOutline,
+    ImportGraph,
     FileNode, 
     IssueInfo, 
+    IssueSignals,
+    IssueComment,
+    IssueTimelineEvent,
+    LinkedPullRequest,
+    IssueDetails,
     PRInfo, 
+    PullRequestFile,
+    PullRequestReviewComment,
+    PullRequestCheck,
+    PullRequestDetails,
+    RiskyHunk,
+    PullRequestReview,
+    CodeSnippet,
+    CodeSearchMode,
+    CodeSearchBackend,
+    CodeSearchOptions,
+    CodeSearchHit,
+    CodeSearchResult,
+    ModelRole,
+    ModelConfig,
+    ModelAttempt,
+    ModelUsage,
+    ModelSelection,
+    QuestionIntent,
+    ContextSectionUsage,
+    ContextBudgetReport,
+    BuiltContext,
+    GroundingProblem,
+    GroundingReport,
+    ConversationTurn,
+    Conversation,
+    IndexPhase,
+    PhaseStatus,
+    PhaseListener,
+    IndexJobPhase,
+    IndexJob,
+    IndexJobMessage,
+    Viewer,
+    ThinkingStep,
+    StepListener,
+    ToolObservation,
+    ANONYMOUS_VIEWER,
     createHeaders, 
+    normalizeBaseUrl,
+    truncateText,
+    decodeBase64,
+    isInSkippedDirectory,
+    shouldSkipDirectory,
+    extractResponseText,
+    estimateTokens,
     CACHE_TTL,
+    INDEX_RETENTION_TTL,
+    CONVERSATION_TTL,
     SYSTEM_PROMPT,
-    QUERY_ANALYZER_PROMPT
+    GROUNDING_FEEDBACK_PROMPT,
+    QUERY_ANALYZER_PROMPT,
+    AGENT_PLANNER_PROMPT,
+    PR_REVIEW_PROMPT
 };
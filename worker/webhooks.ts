@@ -0,0 +1,226 @@
+import { Env, RepoIndex, IndexPart } from "./utils";
+import { mergeUpdated } from "./tools";
+import { toIssueInfo, toPullRequestInfo, GitHubIssue, GitHubPullRequest } from "./github-provider";
+import { mapIssuesToFiles } from "./issue-mapping";
+import { loadIndexEntry, saveIndexEntry } from "./storage";
+
+// GitHub lets a delivery be redelivered for a few days, so ids are remembered a little longer
+const DELIVERY_TTL = 7 * 86400;
+const MAX_INDEXED_ISSUES = 30;
+const MAX_INDEXED_PRS = 15;
+// Events change issues, pull requests and metadata; issues are mapped onto the tree, and docs are never touched
+const PATCHED_PARTS: IndexPart[] = ['tree', 'issues', 'pullRequests'];
+
+interface WebhookRepository {
+    full_name: string;
+    open_issues_count?: number;
+    stargazers_count?: number;
+    forks_count?: number;
+}
+
+interface WebhookPayload {
+    action?: string;
+    repository?: WebhookRepository;
+    issue?: GitHubIssue;
+    pull_request?: GitHubPullRequest;
+    ref?: string;
+    after?: string;
+    deleted?: boolean;
+}
+
+interface WebhookEffect {
+    patch(index: RepoIndex): RepoIndex | null;
+    // Issue or PR whose cached deep-dive is out of date after this event
+    thread: number | null;
+}
+
+class WebhookConfigError extends Error {
+    constructor() {
+        super('GitHub webhooks are not configured. Set GITHUB_WEBHOOK_SECRET.');
+        this.name = 'WebhookConfigError';
+    }
+}
+
+async function handleWebhook(request: Request, env: Env): Promise<Response> {
+    if (!env.GITHUB_WEBHOOK_SECRET) throw new WebhookConfigError();
+    
+    const body = await request.text();
+    if (!(await verifySignature(body, request.headers.get('X-Hub-Signature-256'), env.GITHUB_WEBHOOK_SECRET))) {
+        return webhookResponse(401, 'Invalid signature');
+    }
+    
+    const event = request.headers.get('X-GitHub-Event');
+    const deliveryId = request.headers.get('X-GitHub-Delivery');
+    if (!event || !deliveryId) {
+        return webhookResponse(400, 'Missing X-GitHub-Event or X-GitHub-Delivery header');
+    }
+    
+    let payload: WebhookPayload;
+    try {
+        payload = JSON.parse(body) as WebhookPayload;
+    } catch {
+        return webhookResponse(400, 'Payload is not valid JSON');
+    }
+    
+    // Recorded before the event is applied so a replayed delivery cannot patch the index a second time
+    const deliveryKey = `webhook-delivery:${deliveryId}`;
+    if (await env.CACHE_KV.get(deliveryKey)) {
+        return webhookResponse(200, 'Delivery already processed');
+    }
+    await env.CACHE_KV.put(deliveryKey, new Date().toISOString(), { expirationTtl: DELIVERY_TTL });
+    
+    try {
+        const updated = await applyWebhookEvent(event, payload, env);
+        return webhookResponse(200, `Processed ${event} event`, updated);
+    } catch (error) {
+        // Forget the delivery so a redelivery from GitHub is not ignored
+        await env.CACHE_KV.delete(deliveryKey);
+        throw error;
+    }
+}
+
+async function applyWebhookEvent(event: string, payload: WebhookPayload, env: Env): Promise<number> {
+    const effect = describeWebhookEvent(event, payload);
+    if (!effect || !payload.repository) return 0;
+    
+    let updated = 0;
+    for (const key of await findIndexKeys(payload.repository.full_name, env)) {
+        if (effect.thread !== null) {
+            await Promise.all([
+                env.CACHE_KV.delete(`issue:${key}#${effect.thread}`),
+                env.CACHE_KV.delete(`pr:${key}#${effect.thread}`)
+            ]);
+        }
+        
+        const index = await loadIndexEntry(key, env, PATCHED_PARTS);
+        if (!index) continue;
+        
+        const patched = effect.patch(index);
+        if (patched) {
+            await saveIndexEntry(key, patched, env, PATCHED_PARTS);
+            updated++;
+        }
+    }
+    
+    console.log(`Webhook ${event}${payload.action ? `.${payload.action}` : ''} for ${payload.repository.full_name}: ${updated} indexes updated`);
+    return updated;
+}
+
+function describeWebhookEvent(event: string, payload: WebhookPayload): WebhookEffect | null {
+    const { issue, pull_request: pullRequest, repository } = payload;
+    
+    switch (event) {
+        case 'push':
+            return { patch: index => applyPush(index, payload), thread: null };
+        case 'issues':
+            return issue ? { patch: index => applyIssue(index, issue, payload.action, repository), thread: issue.number } : null;
+        case 'issue_comment':
+            return issue ? { patch: index => applyIssueComment(index, issue), thread: issue.number } : null;
+        case 'pull_request':
+            return pullRequest ? { patch: index => applyPullRequest(index, pullRequest, repository), thread: pullRequest.number } : null;
+        default:
+            return null;
+    }
+}
+
+// The tree itself is rebuilt by the next refresh; here the index is only flagged so that happens right away
+function applyPush(index: RepoIndex, payload: WebhookPayload): RepoIndex | null {
+    if (payload.deleted || !payload.ref || !payload.ref.startsWith('refs/heads/')) return null;
+    
+    const branch = payload.ref.substring('refs/heads/'.length);
+    if (branch !== index.ref || payload.after === index.commitSha || index.treeStale) return null;
+    
+    return { ...index, treeStale: true };
+}
+
+function applyIssue(index: RepoIndex, issue: GitHubIssue, action: string | undefined, repository?: WebhookRepository): RepoIndex | null {
+    if (issue.pull_request) return null;
+    
+    // Deleted and transferred issues are gone from this repository, which the merge handles like a close
+    const gone = action === 'deleted' || action === 'transferred';
+    const [updated] = mapIssuesToFiles([toIssueInfo(gone ? { ...issue, state: 'closed' } : issue)], index.fileTree);
+    
+    // Files linked through code search at index time are kept unless the text they were derived from changed
+    const previous = index.issues.find(i => i.number === issue.number);
+    if (previous && action !== 'edited') {
+        updated.likelyFiles = previous.likelyFiles;
+    }
+    
+    return {
+        ...index,
+        ...repositoryCounts(index, repository),
+        issues: mergeUpdated(index.issues, [updated], MAX_INDEXED_ISSUES)
+    };
+}
+
+function applyIssueComment(index: RepoIndex, issue: GitHubIssue): RepoIndex | null {
+    const tracked = index.issues.find(i => i.number === issue.number);
+    if (!tracked || tracked.commentsCount === issue.comments) return null;
+    
+    return {
+        ...index,
+        issues: index.issues.map(i => i.number === issue.number ? { ...i, commentsCount: issue.comments } : i)
+    };
+}
+
+function applyPullRequest(index: RepoIndex, pullRequest: GitHubPullRequest, repository?: WebhookRepository): RepoIndex | null {
+    return {
+        ...index,
+        ...repositoryCounts(index, repository),
+        pullRequests: mergeUpdated(index.pullRequests, [toPullRequestInfo(pullRequest)], MAX_INDEXED_PRS)
+    };
+}
+
+function repositoryCounts(index: RepoIndex, repository?: WebhookRepository): Pick<RepoIndex, 'openIssuesCount' | 'stars' | 'forks'> {
+    return {
+        openIssuesCount: repository?.open_issues_count ?? index.openIssuesCount,
+        stars: repository?.stargazers_count ?? index.stars,
+        forks: repository?.forks_count ?? index.forks
+    };
+}
+
+// Every cached variant of the repository: other refs and paths, and per-user private copies
+async function findIndexKeys(fullName: string, env: Env): Promise<string[]> {
+    const prefix = `repo:${fullName.toLowerCase()}`;
+    const keys: string[] = [];
+    let cursor: string | undefined;
+    
+    do {
+        const page = await env.CACHE_KV.list({ prefix, cursor });
+        for (const key of page.keys) {
+            // `repo:owner/name` is also a prefix of `repo:owner/name-fork`
+            const rest = key.name.substring(prefix.length);
+            if (rest === '' || rest.startsWith('@') || rest.startsWith('~')) {
+                keys.push(key.name);
+            }
+        }
+        cursor = !page.list_complete && 'cursor' in page ? page.cursor : undefined;
+    } while (cursor);
+    
+    return keys;
+}
+
+async function verifySignature(body: string, header: string | null, secret: string): Promise<boolean> {
+    if (!header || !header.startsWith('sha256=')) return false;
+    
+    const hex = header.substring('sha256='.length);
+    if (!/^[0-9a-f]{64}$/i.test(hex)) return false;
+    const signature = new Uint8Array(hex.match(/../g)!.map(byte => parseInt(byte, 16)));
+    
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify']);
+    // verify() compares in constant time
+    return crypto.subtle.verify('HMAC', key, signature, encoder.encode(body));
+}
+
+function webhookResponse(status: number, message: string, updated?: number): Response {
+    return new Response(JSON.stringify({ success: status < 400, message, ...(updated !== undefined ? { updated } : {}) }), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+export {
+    WebhookConfigError,
+    handleWebhook
+};